@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "direction" TEXT NOT NULL DEFAULT 'debit';
+
+-- Backfill: income rows are money coming in
+UPDATE "transactions" SET "direction" = 'credit' WHERE "category" = 'Income';
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "baseCurrency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "baseAmount" DOUBLE PRECISION,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR',
+ADD COLUMN     "fxRate" DOUBLE PRECISION;
+
+-- Backfill: existing rows are INR in INR organizations
+UPDATE "transactions" SET "baseAmount" = "amount", "fxRate" = 1 WHERE "amount" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "fx_rates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fx_rates_organizationId_idx" ON "fx_rates"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rates_organizationId_currency_baseCurrency_effectiveDate_key" ON "fx_rates"("organizationId", "currency", "baseCurrency", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "fx_rates" ADD CONSTRAINT "fx_rates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
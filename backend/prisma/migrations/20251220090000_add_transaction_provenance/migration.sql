@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "transaction_provenance" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "extractor" TEXT NOT NULL,
+    "modelId" TEXT,
+    "promptVersion" TEXT,
+    "reasoning" TEXT,
+    "latencyMs" INTEGER,
+    "rawOutput" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transaction_provenance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_provenance_transactionId_key" ON "transaction_provenance"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "transaction_provenance" ADD CONSTRAINT "transaction_provenance_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "transaction_provenance" ADD COLUMN     "cached" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "extraction_cache" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "result" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "extraction_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "extraction_cache_organizationId_textHash_version_key" ON "extraction_cache"("organizationId", "textHash", "version");
+
+-- AddForeignKey
+ALTER TABLE "extraction_cache" ADD CONSTRAINT "extraction_cache_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "amountConfidence" DOUBLE PRECISION,
+ADD COLUMN     "categoryConfidence" DOUBLE PRECISION,
+ADD COLUMN     "dateConfidence" DOUBLE PRECISION,
+ADD COLUMN     "descriptionConfidence" DOUBLE PRECISION;
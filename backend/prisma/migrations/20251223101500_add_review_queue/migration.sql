@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "reviewThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.7;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'final';
+
+-- CreateIndex
+CREATE INDEX "transactions_organizationId_status_idx" ON "transactions"("organizationId", "status");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "merchant_categories" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "exampleText" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_categories_organizationId_merchantKey_key" ON "merchant_categories"("organizationId", "merchantKey");
+
+-- AddForeignKey
+ALTER TABLE "merchant_categories" ADD CONSTRAINT "merchant_categories_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "merchantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "merchants" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_aliases" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_organizationId_merchantId_idx" ON "transactions"("organizationId", "merchantId");
+
+-- CreateIndex
+CREATE INDEX "merchants_organizationId_idx" ON "merchants"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "merchant_aliases_merchantId_idx" ON "merchant_aliases"("merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_aliases_organizationId_alias_key" ON "merchant_aliases"("organizationId", "alias");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchants" ADD CONSTRAINT "merchants_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_aliases" ADD CONSTRAINT "merchant_aliases_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "chequeNumber" TEXT,
+ADD COLUMN     "maskedAccount" TEXT,
+ADD COLUMN     "upiRef" TEXT,
+ADD COLUMN     "utr" TEXT,
+ADD COLUMN     "vpa" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_organizationId_upiRef_idx" ON "transactions"("organizationId", "upiRef");
+
+-- CreateIndex
+CREATE INDEX "transactions_organizationId_utr_idx" ON "transactions"("organizationId", "utr");
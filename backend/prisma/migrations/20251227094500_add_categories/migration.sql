@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "categories" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "parentId" TEXT,
+    "color" TEXT NOT NULL,
+    "keywords" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "categories_parentId_idx" ON "categories"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_organizationId_name_key" ON "categories"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed existing organizations with the default taxonomy
+INSERT INTO "categories" ("id", "organizationId", "name", "color", "keywords", "updatedAt")
+SELECT gen_random_uuid()::text, o."id", d."name", d."color", d."keywords", CURRENT_TIMESTAMP
+FROM "organizations" o
+CROSS JOIN (VALUES
+    ('Food & Dining', '#ea580c', ARRAY['restaurant', 'food', 'coffee', 'cafe', 'pizza', 'burger', 'dining', 'lunch', 'dinner', 'breakfast', 'swiggy', 'zomato', 'starbucks', 'mcdonald', 'kfc', 'domino', 'subway']),
+    ('Shopping', '#2563eb', ARRAY['amazon', 'flipkart', 'myntra', 'walmart', 'target', 'store', 'shop', 'retail', 'purchase', 'mall', 'market', 'reliance', 'dmart']),
+    ('Transportation', '#9333ea', ARRAY['uber', 'ola', 'rapido', 'lyft', 'gas', 'fuel', 'parking', 'transit', 'taxi', 'train', 'bus', 'metro', 'petrol', 'diesel']),
+    ('Entertainment', '#db2777', ARRAY['movie', 'theater', 'netflix', 'hotstar', 'prime', 'spotify', 'game', 'concert', 'ticket', 'bookmyshow', 'pvr', 'inox']),
+    ('Utilities', '#4b5563', ARRAY['electric', 'electricity', 'water', 'internet', 'phone', 'utility', 'bill', 'airtel', 'jio', 'bsnl', 'vodafone', 'mseb', 'bescom']),
+    ('Healthcare', '#dc2626', ARRAY['pharmacy', 'doctor', 'medical', 'hospital', 'health', 'dental', 'apollo', 'fortis', 'medplus', 'clinic']),
+    ('Transfer', '#4f46e5', ARRAY['transfer', 'payment', 'upi', 'neft', 'imps', 'rtgs', 'paytm', 'phonepe', 'gpay', 'googlepay', 'venmo', 'paypal', 'zelle', 'cashapp']),
+    ('Income', '#16a34a', ARRAY[]::TEXT[]),
+    ('Other', '#6b7280', ARRAY[]::TEXT[])
+) AS d("name", "color", "keywords");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "dateFormat" TEXT;
+
+-- AlterTable
+ALTER TABLE "extraction_jobs" ADD COLUMN "dateHints" JSONB;
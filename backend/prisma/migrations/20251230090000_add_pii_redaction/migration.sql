@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "redactionRules" TEXT[] DEFAULT ARRAY['email', 'account', 'card', 'phone', 'name']::TEXT[],
+ADD COLUMN     "redactStoredText" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "keepRedactionMap" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "transaction_redactions" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "tokens" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transaction_redactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_redactions_transactionId_key" ON "transaction_redactions"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "transaction_redactions" ADD CONSTRAINT "transaction_redactions_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "monthlyTokenQuota" INTEGER;
+
+-- AlterTable
+ALTER TABLE "transaction_provenance" ADD COLUMN     "inputTokens" INTEGER,
+ADD COLUMN     "outputTokens" INTEGER,
+ADD COLUMN     "costUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "extractor" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_usage_organizationId_day_extractor_modelId_key" ON "ai_usage"("organizationId", "day", "extractor", "modelId");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
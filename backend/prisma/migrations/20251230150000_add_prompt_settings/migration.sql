@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "promptVersion" TEXT,
+ADD COLUMN     "promptInstructions" TEXT;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "extraction_jobs" ADD COLUMN "options" JSONB;
+
+-- CreateTable
+CREATE TABLE "csv_mappings" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "bank" TEXT NOT NULL,
+    "mapping" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "csv_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "csv_mappings_organizationId_bank_key" ON "csv_mappings"("organizationId", "bank");
+
+-- AddForeignKey
+ALTER TABLE "csv_mappings" ADD CONSTRAINT "csv_mappings_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
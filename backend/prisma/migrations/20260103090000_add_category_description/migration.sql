@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "description" TEXT;
+
+-- Describe the default categories organizations already have
+UPDATE "categories" c
+SET "description" = d."description"
+FROM (VALUES
+    ('Food & Dining', 'restaurants, cafes, coffee shops, food delivery'),
+    ('Shopping', 'retail stores, online shopping, groceries'),
+    ('Transportation', 'fuel, parking, ride-sharing, public transit'),
+    ('Entertainment', 'movies, streaming, games, events'),
+    ('Utilities', 'electricity, water, internet, phone bills'),
+    ('Healthcare', 'pharmacies, hospitals, medical services'),
+    ('Transfer', 'peer-to-peer payments, bank transfers'),
+    ('Income', 'salary, refunds, deposits, credits'),
+    ('Other', 'anything that doesn''t fit above')
+) AS d("name", "description")
+WHERE c."name" = d."name" AND c."parentId" IS NULL;
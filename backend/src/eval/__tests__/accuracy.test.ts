@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { getExtractor, setFakeExtractorResponse, clearFakeExtractorResponses } from '../../lib/extractor.js'
+import { DEFAULT_PROMPT_VERSION } from '../../lib/prompt.js'
+import { uniformConfidence } from '../../lib/confidence.js'
+import { emptyReferences } from '../../lib/references.js'
+import { EVAL_CORPUS } from '../corpus.js'
+import { evaluateExtractor, formatEvalReport } from '../evaluate.js'
+import type { EvalField } from '../evaluate.js'
+import { createRecordedExtractor } from '../recorded.js'
+import { BEDROCK_RECORDING } from '../recordings/bedrock.js'
+
+// Precision each extractor reaches on the corpus today; raise these when accuracy improves
+const MIN_PRECISION: Record<string, Record<EvalField, number>> = {
+  regex: { amount: 1, date: 1, description: 1, category: 1 },
+  'bedrock-recorded': { amount: 1, date: 1, description: 1, category: 0.9 },
+}
+
+describe('Extraction Accuracy', () => {
+  beforeEach(() => {
+    clearFakeExtractorResponses()
+  })
+
+  it('should have a recorded Bedrock reply for every corpus line', () => {
+    expect(Object.keys(BEDROCK_RECORDING.replies).sort()).toEqual(EVAL_CORPUS.map((evalCase) => evalCase.text).sort())
+  })
+
+  it('should have recorded Bedrock replies for the current prompt', () => {
+    // Re-record with `npm run eval -- bedrock --record` after changing the prompt
+    expect(BEDROCK_RECORDING.promptVersion).toBe(DEFAULT_PROMPT_VERSION)
+  })
+
+  for (const [name, minimums] of Object.entries(MIN_PRECISION)) {
+    it(`should not regress ${name} precision`, async () => {
+      const extractor = name === 'bedrock-recorded' ? createRecordedExtractor(BEDROCK_RECORDING) : getExtractor(name)!
+      const report = await evaluateExtractor(extractor)
+
+      const regressed = Object.entries(minimums).filter(
+        ([field, minimum]) => report.fields[field as EvalField].precision < minimum
+      )
+      if (regressed.length > 0) {
+        // Show which lines regressed
+        console.log(formatEvalReport(report))
+      }
+
+      expect(report.errors).toBe(0)
+      expect(regressed.map(([field]) => field)).toEqual([])
+    })
+  }
+})
+
+describe('Evaluation Scoring', () => {
+  const corpus = [
+    {
+      text: 'Swiggy order ₹420.00 11 Dec 2025',
+      expected: { amount: 420, date: '2025-12-11', description: 'Swiggy', category: 'Food & Dining' },
+    },
+    {
+      text: 'Salary credited ₹85,000.00 01 Dec 2025',
+      expected: { amount: 85000, date: '2025-12-01', description: 'Salary', category: 'Income' },
+    },
+  ]
+
+  beforeEach(() => {
+    clearFakeExtractorResponses()
+  })
+
+  it('should separate wrong values from missing ones', async () => {
+    setFakeExtractorResponse(corpus[0].text, {
+      amount: 42,
+      date: new Date('2025-12-11'),
+      description: 'SWIGGY BANGALORE',
+      category: 'Shopping',
+      direction: 'debit',
+      currency: 'INR',
+      confidence: 0.9,
+      fieldConfidence: uniformConfidence(0.9),
+      references: emptyReferences(),
+    })
+
+    const report = await evaluateExtractor(getExtractor('fake')!, corpus)
+
+    expect(report.fields.amount).toMatchObject({ predicted: 2, correct: 1, precision: 0.5 })
+    expect(report.fields.description).toMatchObject({ predicted: 2, correct: 2, precision: 1 })
+    // A missing category lowers recall but is not counted as a prediction
+    expect(report.fields.category).toMatchObject({ predicted: 1, expected: 2, correct: 0, precision: 0, recall: 0 })
+    expect(report.mismatches).toContainEqual({ text: corpus[1].text, field: 'category', expected: 'Income', actual: null })
+  })
+
+  it('should count lines the extractor throws on as errors', async () => {
+    const recorded = createRecordedExtractor({
+      extractor: 'bedrock',
+      modelId: 'model',
+      promptVersion: DEFAULT_PROMPT_VERSION,
+      replies: {},
+    })
+
+    const report = await evaluateExtractor(recorded, corpus)
+
+    expect(report.errors).toBe(2)
+    expect(report.fields.amount).toMatchObject({ predicted: 0, expected: 2, precision: 0, recall: 0 })
+    expect(formatEvalReport(report)).toContain('bedrock-recorded (2 lines, 2 errors)')
+  })
+})
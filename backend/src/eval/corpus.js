@@ -0,0 +1,105 @@
+// The corpus lines come from Indian banks and cards, which write dates day first
+export const EVAL_CONTEXT = { dateFormat: 'DMY' };
+/**
+ * Hand-labeled statement lines covering the formats we see in production:
+ * SMS alerts, net banking rows, card alerts and free text, with the default categories
+ * Add a line here whenever an extraction bug is fixed so it stays fixed.
+ */
+export const EVAL_CORPUS = [
+    {
+        text: 'Starbucks Coffee ₹450.00 11 Dec 2025',
+        expected: { amount: 450, date: '2025-12-11', description: 'Starbucks', category: 'Food & Dining' },
+    },
+    {
+        text: 'UPI/SWIGGY/534512345678 Rs.420.00 debited on 2025-12-11',
+        expected: { amount: 420, date: '2025-12-11', description: 'Swiggy', category: 'Food & Dining' },
+    },
+    {
+        text: 'Zomato order ₹1,250.50 paid on 05/12/2025',
+        expected: { amount: 1250.5, date: '2025-12-05', description: 'Zomato', category: 'Food & Dining' },
+    },
+    {
+        text: 'POS AMAZON PAY INDIA Rs. 2,999.00 Dec 3, 2025',
+        expected: { amount: 2999, date: '2025-12-03', description: 'Amazon', category: 'Shopping' },
+    },
+    {
+        text: 'Flipkart Internet Pvt Ltd -₹15,499.00 28-11-2025',
+        expected: { amount: 15499, date: '2025-11-28', description: 'Flipkart', category: 'Shopping' },
+    },
+    {
+        text: 'DMART AVENUE SUPERMARTS 1,842.75 INR 30 Nov 2025',
+        expected: { amount: 1842.75, date: '2025-11-30', description: 'DMart', category: 'Shopping' },
+    },
+    {
+        text: 'Uber India trip ₹310.00 09/12/2025',
+        expected: { amount: 310, date: '2025-12-09', description: 'Uber', category: 'Transportation' },
+    },
+    {
+        text: 'OLA CABS Rs 289 on 07 Dec 2025',
+        expected: { amount: 289, date: '2025-12-07', description: 'Ola', category: 'Transportation' },
+    },
+    {
+        text: 'HP PETROL PUMP fuel ₹2,000.00 01/12/2025',
+        expected: { amount: 2000, date: '2025-12-01', description: 'HP Petrol', category: 'Transportation' },
+    },
+    {
+        text: 'NETFLIX.COM subscription ₹649.00 02 Dec 2025',
+        expected: { amount: 649, date: '2025-12-02', description: 'Netflix', category: 'Entertainment' },
+    },
+    {
+        text: 'BookMyShow tickets Rs.780.00 06-12-2025',
+        expected: { amount: 780, date: '2025-12-06', description: 'BookMyShow', category: 'Entertainment' },
+    },
+    {
+        text: 'Spotify Premium $9.99 Dec 4, 2025',
+        expected: { amount: 9.99, date: '2025-12-04', description: 'Spotify', category: 'Entertainment' },
+    },
+    {
+        text: 'Airtel postpaid bill ₹999.00 10 Dec 2025',
+        expected: { amount: 999, date: '2025-12-10', description: 'Airtel', category: 'Utilities' },
+    },
+    {
+        text: 'BESCOM electricity payment Rs. 1,430.00 08/12/2025',
+        expected: { amount: 1430, date: '2025-12-08', description: 'BESCOM', category: 'Utilities' },
+    },
+    {
+        text: 'Apollo Pharmacy ₹560.40 12 Dec 2025',
+        expected: { amount: 560.4, date: '2025-12-12', description: 'Apollo Pharmacy', category: 'Healthcare' },
+    },
+    {
+        text: 'Dr Mehta Clinic consultation Rs 800 on 13-12-2025',
+        expected: { amount: 800, date: '2025-12-13', description: 'Mehta Clinic', category: 'Healthcare' },
+    },
+    {
+        text: 'NEFT to RAHUL SHARMA ₹25,000.00 15 Dec 2025',
+        expected: { amount: 25000, date: '2025-12-15', description: 'Rahul Sharma', category: 'Transfer' },
+    },
+    {
+        text: 'IMPS transfer to priya@okicici Rs.1,500 14/12/2025',
+        expected: { amount: 1500, date: '2025-12-14', description: 'priya', category: 'Transfer' },
+    },
+    {
+        text: 'Salary credited ACME TECHNOLOGIES ₹85,000.00 01 Dec 2025',
+        expected: { amount: 85000, date: '2025-12-01', description: 'Acme Technologies', category: 'Income' },
+    },
+    {
+        text: 'Interest credited to A/c XX1234 Rs. 312.50 31-12-2025',
+        expected: { amount: 312.5, date: '2025-12-31', description: 'Interest', category: 'Income' },
+    },
+    {
+        text: 'Refund from MYNTRA ₹1,099.00 Dec 16, 2025',
+        expected: { amount: 1099, date: '2025-12-16', description: 'Myntra', category: 'Shopping' },
+    },
+    {
+        text: 'ATM withdrawal ₹5,000.00 17/12/2025',
+        expected: { amount: 5000, date: '2025-12-17', description: 'ATM', category: 'Other' },
+    },
+    {
+        text: 'Cult.fit membership ₹1,999 18 Dec 2025',
+        expected: { amount: 1999, date: '2025-12-18', description: 'Cult.fit', category: 'Other' },
+    },
+    {
+        text: 'Card ending 4321 used at CHAAYOS MG ROAD for INR 180.00 on 19-12-2025',
+        expected: { amount: 180, date: '2025-12-19', description: 'Chaayos', category: 'Food & Dining' },
+    },
+];
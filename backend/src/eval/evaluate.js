@@ -0,0 +1,118 @@
+import { EVAL_CONTEXT, EVAL_CORPUS } from './corpus.js';
+export const EVAL_FIELDS = ['amount', 'date', 'description', 'category'];
+/**
+ * Lowercase letters and digits only, so "NETFLIX.COM" contains "netflix"
+ */
+function normalize(value) {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+/**
+ * A parsed field as a string, in the same form as the corpus labels
+ */
+function getActual(parsed, field) {
+    switch (field) {
+        case 'amount':
+            return parsed.amount === null ? null : String(parsed.amount);
+        case 'date':
+            return parsed.date && !isNaN(parsed.date.getTime()) ? parsed.date.toISOString().slice(0, 10) : null;
+        case 'description':
+            return parsed.description;
+        case 'category':
+            return parsed.category;
+    }
+}
+function isCorrect(field, expected, actual) {
+    switch (field) {
+        case 'amount':
+            return expected.amount !== null && Math.abs(Number(actual) - expected.amount) < 0.005;
+        case 'date':
+            return actual === expected.date;
+        case 'description':
+            // Descriptions only need to name the merchant, not match the model's wording
+            return expected.description !== null && normalize(actual).includes(normalize(expected.description));
+        case 'category':
+            return actual === expected.category;
+    }
+}
+function toScore(counts) {
+    return {
+        ...counts,
+        precision: counts.predicted > 0 ? counts.correct / counts.predicted : 0,
+        recall: counts.expected > 0 ? counts.correct / counts.expected : 0,
+    };
+}
+/**
+ * Run an extractor over a labeled corpus and score each field
+ * A line the extractor throws on counts as returning nothing for every field
+ */
+export async function evaluateExtractor(extractor, corpus = EVAL_CORPUS, context = EVAL_CONTEXT) {
+    const counts = Object.fromEntries(EVAL_FIELDS.map((field) => [field, { predicted: 0, expected: 0, correct: 0 }]));
+    const mismatches = [];
+    let errors = 0;
+    for (const { text, expected } of corpus) {
+        let parsed = null;
+        try {
+            parsed = await extractor.extract(text, context);
+        }
+        catch (error) {
+            errors++;
+            mismatches.push({
+                text,
+                field: 'error',
+                expected: null,
+                actual: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+        for (const field of EVAL_FIELDS) {
+            const label = expected[field];
+            const actual = parsed ? getActual(parsed, field) : null;
+            if (label !== null) {
+                counts[field].expected++;
+            }
+            if (actual === null) {
+                if (label !== null && parsed) {
+                    mismatches.push({ text, field, expected: String(label), actual });
+                }
+                continue;
+            }
+            counts[field].predicted++;
+            if (isCorrect(field, expected, actual)) {
+                counts[field].correct++;
+            }
+            else {
+                mismatches.push({ text, field, expected: label === null ? null : String(label), actual });
+            }
+        }
+    }
+    return {
+        extractor: extractor.name,
+        total: corpus.length,
+        errors,
+        fields: Object.fromEntries(EVAL_FIELDS.map((field) => [field, toScore(counts[field])])),
+        mismatches,
+    };
+}
+function percent(value) {
+    return `${(value * 100).toFixed(1)}%`.padStart(8);
+}
+/**
+ * Render a report as a plain-text table followed by every mismatch
+ */
+export function formatEvalReport(report) {
+    const lines = [
+        `Extractor: ${report.extractor} (${report.total} lines, ${report.errors} errors)`,
+        '',
+        `${'Field'.padEnd(12)}${'Precision'.padStart(10)}${'Recall'.padStart(8)}  Correct`,
+        ...EVAL_FIELDS.map((field) => {
+            const score = report.fields[field];
+            return `${field.padEnd(12)}  ${percent(score.precision)}${percent(score.recall)}  ${score.correct}/${score.predicted}`;
+        }),
+    ];
+    if (report.mismatches.length > 0) {
+        lines.push('', 'Mismatches:');
+        for (const mismatch of report.mismatches) {
+            lines.push(`- [${mismatch.field}] ${mismatch.text}`, `    expected ${mismatch.expected ?? 'null'}, got ${mismatch.actual ?? 'null'}`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,50 @@
+import { toParsedTransaction } from '../lib/extractor.js';
+import { extractWithValidation } from '../lib/prompt.js';
+/**
+ * Build an extractor that answers from a recording instead of calling the model
+ * Text without a recorded reply throws, like an unavailable provider. Results are
+ * attributed to the recording's prompt version, whatever the context asks for.
+ */
+export function createRecordedExtractor(recording) {
+    const name = `${recording.extractor}-recorded`;
+    return {
+        name,
+        isConfigured: () => true,
+        modelId: () => recording.modelId,
+        extract: async (text, extractionContext = {}) => {
+            const context = { ...extractionContext, promptVersion: recording.promptVersion };
+            const extracted = await extractWithValidation(text, async () => {
+                const reply = recording.replies[text];
+                if (reply === undefined) {
+                    throw new Error(`No recorded ${recording.extractor} reply for this text`);
+                }
+                return reply;
+            }, context);
+            return toParsedTransaction({ ...extracted, modelId: recording.modelId || undefined }, name, text, context);
+        },
+    };
+}
+/**
+ * Capture a live extractor's raw replies to a prompt version for the given lines
+ * Lines the extractor fails on are left out of the recording
+ */
+export async function recordExtractor(extractor, texts, promptVersion) {
+    const replies = {};
+    for (const text of texts) {
+        try {
+            const parsed = await extractor.extract(text, { promptVersion });
+            if (parsed.provenance?.rawOutput) {
+                replies[text] = parsed.provenance.rawOutput;
+            }
+        }
+        catch (error) {
+            console.warn(`Not recorded: ${text}`, error);
+        }
+    }
+    return {
+        extractor: extractor.name,
+        modelId: extractor.modelId?.() || null,
+        promptVersion,
+        replies,
+    };
+}
@@ -0,0 +1,72 @@
+import { toParsedTransaction } from '../lib/extractor.js'
+import type { TransactionExtractor } from '../lib/extractor.js'
+import { extractWithValidation } from '../lib/prompt.js'
+
+/**
+ * Model replies captured from a live provider, keyed by input text
+ * Replaying them runs the same validation and conversion as a live call, so the
+ * evaluation works offline and in CI without credentials
+ */
+export interface ExtractorRecording {
+  extractor: string // Provider the replies came from
+  modelId: string | null
+  promptVersion: string // Prompt the replies answered; re-record when it changes
+  replies: Record<string, string>
+}
+
+/**
+ * Build an extractor that answers from a recording instead of calling the model
+ * Text without a recorded reply throws, like an unavailable provider. Results are
+ * attributed to the recording's prompt version, whatever the context asks for.
+ */
+export function createRecordedExtractor(recording: ExtractorRecording): TransactionExtractor {
+  const name = `${recording.extractor}-recorded`
+
+  return {
+    name,
+    isConfigured: () => true,
+    modelId: () => recording.modelId,
+    extract: async (text, extractionContext = {}) => {
+      const context = { ...extractionContext, promptVersion: recording.promptVersion }
+      const extracted = await extractWithValidation(text, async () => {
+        const reply = recording.replies[text]
+        if (reply === undefined) {
+          throw new Error(`No recorded ${recording.extractor} reply for this text`)
+        }
+        return reply
+      }, context)
+
+      return toParsedTransaction({ ...extracted, modelId: recording.modelId || undefined }, name, text, context)
+    },
+  }
+}
+
+/**
+ * Capture a live extractor's raw replies to a prompt version for the given lines
+ * Lines the extractor fails on are left out of the recording
+ */
+export async function recordExtractor(
+  extractor: TransactionExtractor,
+  texts: string[],
+  promptVersion: string
+): Promise<ExtractorRecording> {
+  const replies: Record<string, string> = {}
+
+  for (const text of texts) {
+    try {
+      const parsed = await extractor.extract(text, { promptVersion })
+      if (parsed.provenance?.rawOutput) {
+        replies[text] = parsed.provenance.rawOutput
+      }
+    } catch (error) {
+      console.warn(`Not recorded: ${text}`, error)
+    }
+  }
+
+  return {
+    extractor: extractor.name,
+    modelId: extractor.modelId?.() || null,
+    promptVersion,
+    replies,
+  }
+}
@@ -0,0 +1,31 @@
+export const BEDROCK_RECORDING = {
+    "extractor": "bedrock",
+    "modelId": "global.anthropic.claude-sonnet-4-5-20250929-v1:0",
+    "promptVersion": "v8",
+    "replies": {
+        "Starbucks Coffee ₹450.00 11 Dec 2025": "{\n  \"amount\": 450.0,\n  \"date\": \"2025-12-11\",\n  \"description\": \"STARBUCKS COFFEE\",\n  \"category\": \"Food & Dining\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Coffee shop purchase\"\n}",
+        "UPI/SWIGGY/534512345678 Rs.420.00 debited on 2025-12-11": "{\n  \"amount\": 420.0,\n  \"date\": \"2025-12-11\",\n  \"description\": \"SWIGGY\",\n  \"category\": \"Food & Dining\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": \"534512345678\",\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Food delivery order paid via UPI\"\n}",
+        "Zomato order ₹1,250.50 paid on 05/12/2025": "{\n  \"amount\": 1250.5,\n  \"date\": \"2025-12-05\",\n  \"description\": \"Zomato order\",\n  \"category\": \"Food & Dining\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Food delivery order\"\n}",
+        "POS AMAZON PAY INDIA Rs. 2,999.00 Dec 3, 2025": "{\n  \"amount\": 2999.0,\n  \"date\": \"2025-12-03\",\n  \"description\": \"AMAZON PAY INDIA\",\n  \"category\": \"Shopping\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Card purchase at Amazon\"\n}",
+        "Flipkart Internet Pvt Ltd -₹15,499.00 28-11-2025": "{\n  \"amount\": 15499.0,\n  \"date\": \"2025-11-28\",\n  \"description\": \"Flipkart Internet Pvt Ltd\",\n  \"category\": \"Shopping\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Online shopping purchase\"\n}",
+        "DMART AVENUE SUPERMARTS 1,842.75 INR 30 Nov 2025": "{\n  \"amount\": 1842.75,\n  \"date\": \"2025-11-30\",\n  \"description\": \"DMART AVENUE SUPERMARTS\",\n  \"category\": \"Shopping\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Supermarket purchase at DMart\"\n}",
+        "Uber India trip ₹310.00 09/12/2025": "{\n  \"amount\": 310.0,\n  \"date\": \"2025-12-09\",\n  \"description\": \"Uber India trip\",\n  \"category\": \"Transportation\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Ride hailing trip\"\n}",
+        "OLA CABS Rs 289 on 07 Dec 2025": "{\n  \"amount\": 289.0,\n  \"date\": \"2025-12-07\",\n  \"description\": \"OLA CABS\",\n  \"category\": \"Transportation\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Cab ride\"\n}",
+        "HP PETROL PUMP fuel ₹2,000.00 01/12/2025": "{\n  \"amount\": 2000.0,\n  \"date\": \"2025-12-01\",\n  \"description\": \"HP PETROL PUMP\",\n  \"category\": \"Transportation\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Fuel purchase at petrol pump\"\n}",
+        "NETFLIX.COM subscription ₹649.00 02 Dec 2025": "{\n  \"amount\": 649.0,\n  \"date\": \"2025-12-02\",\n  \"description\": \"NETFLIX.COM subscription\",\n  \"category\": \"Entertainment\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Streaming subscription\"\n}",
+        "BookMyShow tickets Rs.780.00 06-12-2025": "{\n  \"amount\": 780.0,\n  \"date\": \"2025-12-06\",\n  \"description\": \"BookMyShow tickets\",\n  \"category\": \"Entertainment\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Movie tickets\"\n}",
+        "Spotify Premium $9.99 Dec 4, 2025": "{\n  \"amount\": 9.99,\n  \"date\": \"2025-12-04\",\n  \"description\": \"Spotify Premium\",\n  \"category\": \"Entertainment\",\n  \"direction\": \"debit\",\n  \"currency\": \"USD\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Music streaming subscription billed in USD\"\n}",
+        "Airtel postpaid bill ₹999.00 10 Dec 2025": "{\n  \"amount\": 999.0,\n  \"date\": \"2025-12-10\",\n  \"description\": \"Airtel postpaid bill\",\n  \"category\": \"Utilities\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Mobile phone bill\"\n}",
+        "BESCOM electricity payment Rs. 1,430.00 08/12/2025": "{\n  \"amount\": 1430.0,\n  \"date\": \"2025-12-08\",\n  \"description\": \"BESCOM electricity payment\",\n  \"category\": \"Utilities\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Electricity bill\"\n}",
+        "Apollo Pharmacy ₹560.40 12 Dec 2025": "{\n  \"amount\": 560.4,\n  \"date\": \"2025-12-12\",\n  \"description\": \"Apollo Pharmacy\",\n  \"category\": \"Healthcare\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Pharmacy purchase\"\n}",
+        "Dr Mehta Clinic consultation Rs 800 on 13-12-2025": "{\n  \"amount\": 800.0,\n  \"date\": \"2025-12-13\",\n  \"description\": \"Dr Mehta Clinic consultation\",\n  \"category\": \"Healthcare\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Doctor consultation\"\n}",
+        "NEFT to RAHUL SHARMA ₹25,000.00 15 Dec 2025": "{\n  \"amount\": 25000.0,\n  \"date\": \"2025-12-15\",\n  \"description\": \"NEFT to RAHUL SHARMA\",\n  \"category\": \"Transfer\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Bank transfer to an individual\"\n}",
+        "IMPS transfer to priya@okicici Rs.1,500 14/12/2025": "{\n  \"amount\": 1500.0,\n  \"date\": \"2025-12-14\",\n  \"description\": \"IMPS transfer to priya@okicici\",\n  \"category\": \"Transfer\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": \"priya@okicici\",\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"IMPS transfer to a UPI address\"\n}",
+        "Salary credited ACME TECHNOLOGIES ₹85,000.00 01 Dec 2025": "{\n  \"amount\": 85000.0,\n  \"date\": \"2025-12-01\",\n  \"description\": \"Salary - ACME TECHNOLOGIES\",\n  \"category\": \"Income\",\n  \"direction\": \"credit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Monthly salary credit\"\n}",
+        "Interest credited to A/c XX1234 Rs. 312.50 31-12-2025": "{\n  \"amount\": 312.5,\n  \"date\": \"2025-12-31\",\n  \"description\": \"Interest credited\",\n  \"category\": \"Income\",\n  \"direction\": \"credit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": \"XX1234\"\n  },\n  \"reasoning\": \"Savings account interest\"\n}",
+        "Refund from MYNTRA ₹1,099.00 Dec 16, 2025": "{\n  \"amount\": 1099.0,\n  \"date\": \"2025-12-16\",\n  \"description\": \"Refund from MYNTRA\",\n  \"category\": \"Shopping\",\n  \"direction\": \"credit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Refund for an online fashion order\"\n}",
+        "ATM withdrawal ₹5,000.00 17/12/2025": "{\n  \"amount\": 5000.0,\n  \"date\": \"2025-12-17\",\n  \"description\": \"ATM withdrawal\",\n  \"category\": \"Transfer\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.9,\n    \"category\": 0.55\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Cash withdrawal moves money out of the account\"\n}",
+        "Cult.fit membership ₹1,999 18 Dec 2025": "{\n  \"amount\": 1999.0,\n  \"date\": \"2025-12-18\",\n  \"description\": \"Cult.fit membership\",\n  \"category\": \"Healthcare\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.9,\n    \"category\": 0.6\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": null\n  },\n  \"reasoning\": \"Fitness membership is health related\"\n}",
+        "Card ending 4321 used at CHAAYOS MG ROAD for INR 180.00 on 19-12-2025": "{\n  \"amount\": 180.0,\n  \"date\": \"2025-12-19\",\n  \"description\": \"CHAAYOS MG ROAD\",\n  \"category\": \"Food & Dining\",\n  \"direction\": \"debit\",\n  \"currency\": \"INR\",\n  \"fieldConfidence\": {\n    \"amount\": 0.99,\n    \"date\": 0.97,\n    \"description\": 0.92,\n    \"category\": 0.9\n  },\n  \"references\": {\n    \"upiRef\": null,\n    \"vpa\": null,\n    \"utr\": null,\n    \"chequeNumber\": null,\n    \"maskedAccount\": \"4321\"\n  },\n  \"reasoning\": \"Tea cafe purchase\"\n}"
+    }
+};
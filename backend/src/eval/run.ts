@@ -0,0 +1,80 @@
+import 'dotenv/config'
+import { writeFileSync } from 'node:fs'
+import { getExtractor } from '../lib/extractor.js'
+import type { TransactionExtractor } from '../lib/extractor.js'
+import { isPromptVersion, resolvePromptVersion } from '../lib/prompt.js'
+import { EVAL_CONTEXT, EVAL_CORPUS } from './corpus.js'
+import { evaluateExtractor, formatEvalReport } from './evaluate.js'
+import { createRecordedExtractor, recordExtractor } from './recorded.js'
+import { BEDROCK_RECORDING } from './recordings/bedrock.js'
+
+/**
+ * Score extractors against the labeled corpus
+ *
+ *   npm run eval                        regex, fake and the recorded Bedrock replies
+ *   npm run eval -- bedrock openai      live providers (credentials required)
+ *   npm run eval -- bedrock --record    capture live Bedrock replies for offline runs
+ *   npm run eval -- bedrock --prompt v8 use a specific prompt version (also with --record)
+ */
+
+const OFFLINE_EXTRACTORS = ['regex', 'fake', 'bedrock-recorded']
+
+const recordedBedrock = createRecordedExtractor(BEDROCK_RECORDING)
+
+function findExtractor(name: string): TransactionExtractor | null {
+  return name === recordedBedrock.name ? recordedBedrock : getExtractor(name)
+}
+
+async function record(promptVersion: string) {
+  const bedrock = getExtractor('bedrock')!
+  if (!bedrock.isConfigured()) {
+    throw new Error('Bedrock is not configured (set AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY)')
+  }
+
+  const recording = await recordExtractor(bedrock, EVAL_CORPUS.map((evalCase) => evalCase.text), promptVersion)
+  const source = `// Generated by \`npm run eval -- bedrock --record\`; re-record after changing the prompt
+import type { ExtractorRecording } from '../recorded.js'
+
+export const BEDROCK_RECORDING: ExtractorRecording = ${JSON.stringify(recording, null, 2)}
+`
+  writeFileSync(new URL('./recordings/bedrock.ts', import.meta.url), source)
+  console.log(`Recorded ${Object.keys(recording.replies).length} of ${EVAL_CORPUS.length} replies`)
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  let promptVersion: string | null = null
+  const promptFlag = args.indexOf('--prompt')
+  if (promptFlag !== -1) {
+    promptVersion = args[promptFlag + 1]
+    if (!isPromptVersion(promptVersion)) {
+      throw new Error(`Unknown prompt version "${promptVersion}"`)
+    }
+    args.splice(promptFlag, 2)
+  }
+
+  if (args.includes('--record')) {
+    if (args.some((arg) => arg !== '--record' && arg !== 'bedrock')) {
+      throw new Error('Only bedrock replies can be recorded')
+    }
+    await record(resolvePromptVersion(promptVersion))
+    return
+  }
+
+  const names = args.length > 0 ? args : OFFLINE_EXTRACTORS
+  for (const name of names) {
+    const extractor = findExtractor(name)
+    if (!extractor) {
+      throw new Error(`Unknown extractor "${name}"`)
+    }
+
+    console.log(formatEvalReport(await evaluateExtractor(extractor, EVAL_CORPUS, { ...EVAL_CONTEXT, promptVersion })))
+    console.log('')
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -6,6 +6,8 @@ import { rateLimit } from './middleware/rateLimit.js';
 import auth from './routes/auth.js';
 import organizationRouter from './routes/organization.js';
 import transactionRouter from './routes/transaction.js';
+import { startExtractionWorker } from './lib/extraction-jobs.js';
+import { getBedrockCircuitMetrics } from './lib/bedrock.js';
 // Validate required environment variables
 if (!process.env.FRONTEND_URL) {
     throw new Error('FRONTEND_URL environment variable is required');
@@ -30,6 +32,15 @@ app.route('/api/transactions', transactionRouter);
 app.get('/', (c) => {
     return c.text('Hello Hono + TypeScript 🚀');
 });
+// Service health, including the Bedrock circuit breaker state
+app.get('/api/health', (c) => {
+    return c.json({
+        status: 'ok',
+        extractors: {
+            bedrock: getBedrockCircuitMetrics(),
+        },
+    });
+});
 app.get('/users/:id', (c) => {
     const id = c.req.param('id');
     return c.json({ userId: id });
@@ -38,4 +49,6 @@ serve({
     fetch: app.fetch,
     port: 3001,
 });
+// Process queued extraction jobs (retries and jobs left behind by other instances)
+startExtractionWorker();
 console.log('Server running at http://localhost:3001');
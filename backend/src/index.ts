@@ -7,6 +7,8 @@ import auth from './routes/auth.js'
 import organizationRouter from './routes/organization.js'
 import transactionRouter from './routes/transaction.js'
 import { prisma } from './lib/db.js'
+import { startExtractionWorker } from './lib/extraction-jobs.js'
+import { getBedrockCircuitMetrics } from './lib/bedrock.js'
 
 // Validate required environment variables
 if (!process.env.FRONTEND_URL) {
@@ -38,6 +40,16 @@ app.get('/', (c) => {
   return c.text('Hello Hono + TypeScript 🚀')
 })
 
+// Service health, including the Bedrock circuit breaker state
+app.get('/api/health', (c) => {
+  return c.json({
+    status: 'ok',
+    extractors: {
+      bedrock: getBedrockCircuitMetrics(),
+    },
+  })
+})
+
 app.get('/users/:id', (c) => {
   const id = c.req.param('id')
   return c.json({ userId: id })
@@ -48,4 +60,7 @@ serve({
   port: 3001,
 })
 
+// Process queued extraction jobs (retries and jobs left behind by other instances)
+startExtractionWorker()
+
 console.log('Server running at http://localhost:3001')
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseWithBankTemplates, registerBankParser } from '../bank-parsers.js'
+
+const isoDate = (date: Date | null) => date?.toISOString().slice(0, 10)
+
+describe('Bank Statement Templates', () => {
+  it('should parse HDFC UPI debit alerts', () => {
+    const result = parseWithBankTemplates(
+      'Sent Rs.420.00 From HDFC Bank A/C *1234 To SWIGGY On 11/12/25 Ref 534512345678'
+    )
+
+    expect(result?.bank).toBe('HDFC')
+    expect(result?.transaction).toMatchObject({
+      amount: 420,
+      description: 'SWIGGY',
+      category: 'Food & Dining',
+      direction: 'debit',
+      currency: 'INR',
+      confidence: 0.95,
+    })
+    expect(result?.transaction.fieldConfidence).toEqual({ amount: 1, date: 1, description: 1, category: 0.75 })
+    expect(isoDate(result!.transaction.date)).toBe('2025-12-11')
+  })
+
+  it('should parse HDFC credit alerts', () => {
+    const result = parseWithBankTemplates(
+      'Credit Alert! Rs.5,000.00 credited to HDFC Bank A/c XX1234 on 11-12-25 from VPA john@okhdfc (UPI 534512345678)'
+    )
+
+    expect(result?.bank).toBe('HDFC')
+    expect(result?.transaction.amount).toBe(5000)
+    expect(result?.transaction.description).toBe('john@okhdfc')
+    expect(result?.transaction.direction).toBe('credit')
+    // No category keyword in a VPA, so only the category is uncertain
+    expect(result?.transaction.fieldConfidence.category).toBe(0)
+    expect(result?.transaction.confidence).toBe(0.8)
+  })
+
+  it('should parse ICICI debit alerts with month names', () => {
+    const result = parseWithBankTemplates(
+      'ICICI Bank Acct XX123 debited for Rs 1,250.50 on 05-Dec-25; AMAZON credited. UPI:534512345678'
+    )
+
+    expect(result?.bank).toBe('ICICI')
+    expect(result?.transaction.amount).toBe(1250.5)
+    expect(result?.transaction.category).toBe('Shopping')
+    expect(isoDate(result!.transaction.date)).toBe('2025-12-05')
+  })
+
+  it('should read SBI BY/TO narrations as credits and debits', () => {
+    const debit = parseWithBankTemplates(
+      '11 Dec 2025 11 Dec 2025 TO TRANSFER-UPI/DR/534512345678/SWIGGY/YESB/swiggy@yb 420.00 25,430.50'
+    )
+    const credit = parseWithBankTemplates(
+      '01 Dec 2025 01 Dec 2025 BY TRANSFER-NEFT*HDFC0000001*ACME PAYROLL 85,000.00 1,10,430.50'
+    )
+
+    expect(debit?.bank).toBe('SBI')
+    expect(debit?.transaction.direction).toBe('debit')
+    expect(debit?.transaction.amount).toBe(420)
+    expect(credit?.transaction.direction).toBe('credit')
+    expect(credit?.transaction.amount).toBe(85000)
+  })
+
+  it('should parse Kotak and Axis statement rows', () => {
+    const kotak = parseWithBankTemplates('11-12-2025 UPI/OLA/534512345678/Ride 310.00(Dr) 25,430.50(Cr)')
+    const axis = parseWithBankTemplates('11-12-2025 UPI/P2M/534512345678/REFUND 99.00 CR 25,430.50')
+
+    expect(kotak?.bank).toBe('Kotak')
+    expect(kotak?.transaction.direction).toBe('debit')
+    expect(kotak?.transaction.category).toBe('Transportation')
+    expect(axis?.bank).toBe('Axis')
+    expect(axis?.transaction.direction).toBe('credit')
+    expect(axis?.transaction.amount).toBe(99)
+  })
+
+  it('should accept alerts that wrap across lines', () => {
+    const result = parseWithBankTemplates(
+      'Sent Rs.420.00\nFrom HDFC Bank A/C *1234\nTo SWIGGY\nOn 11/12/25\nRef 534512345678'
+    )
+
+    expect(result?.bank).toBe('HDFC')
+  })
+
+  it('should return null for unknown layouts and invalid dates', () => {
+    expect(parseWithBankTemplates('Starbucks Coffee ₹450.00 11 Dec 2025')).toBeNull()
+    expect(parseWithBankTemplates('11-02-2025 UPI/P2M/1/SHOP 99.00 DR 1.00')).not.toBeNull()
+    expect(parseWithBankTemplates('31-02-2025 UPI/P2M/1/SHOP 99.00 DR 1.00')).toBeNull()
+  })
+
+  it('should accept registered bank parsers', () => {
+    registerBankParser({
+      bank: 'Test Bank',
+      templates: [
+        {
+          name: 'test row',
+          pattern: /^TESTBANK (?<date>\d{2}\/\d{2}\/\d{4}) (?<description>.+) (?<amount>\d+\.\d{2})$/,
+          direction: () => 'debit',
+        },
+      ],
+    })
+
+    const result = parseWithBankTemplates('TESTBANK 01/12/2025 Corner shop 12.00')
+
+    expect(result?.bank).toBe('Test Bank')
+    expect(result?.transaction.amount).toBe(12)
+  })
+
+  it('should read numeric dates in the bank\'s date format', () => {
+    registerBankParser({
+      bank: 'US Card',
+      dateFormat: 'MDY',
+      templates: [
+        {
+          name: 'card row',
+          pattern: /^USCARD (?<date>\d{2}\/\d{2}\/\d{4}) (?<description>.+) (?<amount>\d+\.\d{2})$/,
+          direction: () => 'debit',
+        },
+      ],
+    })
+
+    expect(isoDate(parseWithBankTemplates('USCARD 12/01/2025 Coffee 4.50')!.transaction.date)).toBe('2025-12-01')
+    expect(parseWithBankTemplates('USCARD 13/01/2025 Coffee 4.50')).toBeNull()
+  })
+})
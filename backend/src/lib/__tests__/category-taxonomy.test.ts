@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  DEFAULT_CATEGORIES,
+  categorizeText,
+  formatCategoryGuidelines,
+  parseCategoryInput,
+} from '../category-taxonomy.js'
+import type { CategoryDefinition } from '../category-taxonomy.js'
+import { parseTransactionTextWithRegex } from '../regex-parser.js'
+import { parseWithBankTemplates } from '../bank-parsers.js'
+import { buildExtractionPrompt, validateExtractionResponse } from '../prompt.js'
+import { getExtractor, getExtractorVersion } from '../extractor.js'
+
+const taxonomy: CategoryDefinition[] = [
+  { name: 'Food', parent: null, color: '#ea580c', keywords: ['restaurant', 'swiggy'], description: null },
+  { name: 'Coffee', parent: 'Food', color: '#92400e', keywords: ['starbucks', 'chaayos'], description: 'coffee shops and tea bars' },
+  { name: 'Travel', parent: null, color: '#9333ea', keywords: ['uber'], description: null },
+]
+
+describe('Category Taxonomy', () => {
+  it('should categorize with the default keywords', () => {
+    expect(categorizeText('SWIGGY BANGALORE')).toBe('Food & Dining')
+    expect(categorizeText('Salary credited')).toBeNull()
+  })
+
+  it('should prefer subcategories over their parents', () => {
+    expect(categorizeText('Starbucks restaurant', taxonomy)).toBe('Coffee')
+    expect(categorizeText('SWIGGY order', taxonomy)).toBe('Food')
+    expect(categorizeText('Amazon purchase', taxonomy)).toBeNull()
+  })
+
+  it('should list subcategories with their parent in the guidelines', () => {
+    const guidelines = formatCategoryGuidelines(taxonomy)
+
+    expect(guidelines).toContain('- Coffee (part of Food): starbucks, chaayos')
+    expect(formatCategoryGuidelines(DEFAULT_CATEGORIES)).toContain('- Other')
+  })
+
+  it('should say what each category covers when descriptions are requested', () => {
+    const guidelines = formatCategoryGuidelines(taxonomy, { descriptions: true })
+
+    expect(guidelines).toContain('- Coffee (part of Food): coffee shops and tea bars; keywords: starbucks, chaayos')
+    expect(guidelines).toContain('- Food: keywords: restaurant, swiggy')
+    expect(formatCategoryGuidelines(DEFAULT_CATEGORIES, { descriptions: true })).toContain(
+      '- Income: salary, refunds, deposits, credits'
+    )
+  })
+
+  it('should validate new categories', () => {
+    expect(parseCategoryInput({ name: ' Groceries ', keywords: ['DMart', 'dmart', ' '] }, taxonomy)).toEqual({
+      category: { name: 'Groceries', parent: null, color: '#6b7280', keywords: ['dmart'], description: null },
+    })
+    expect(parseCategoryInput({ name: 'Tea', description: ' Tea stalls ' }, taxonomy)).toMatchObject({
+      category: { description: 'Tea stalls' },
+    })
+    expect(parseCategoryInput({ name: 'Tea', description: 'x'.repeat(201) }, taxonomy)).toHaveProperty('error')
+    expect(parseCategoryInput({ name: 'food' }, taxonomy)).toEqual({ error: 'A category with this name already exists' })
+    expect(parseCategoryInput({ name: 'Tea', color: 'brown' }, taxonomy)).toHaveProperty('error')
+    expect(parseCategoryInput({ name: 'Tea', parent: 'Drinks' }, taxonomy)).toEqual({ error: 'Parent category not found' })
+  })
+
+  it('should keep the hierarchy to two levels', () => {
+    expect(parseCategoryInput({ name: 'Espresso', parent: 'Coffee' }, taxonomy)).toEqual({
+      error: 'Subcategories cannot have subcategories',
+    })
+    expect(parseCategoryInput({ parent: 'Travel' }, taxonomy, { partial: true, current: 'Food' })).toEqual({
+      error: 'A category with subcategories cannot become a subcategory',
+    })
+  })
+
+  it('should only return the fields an update changes', () => {
+    expect(parseCategoryInput({ color: '#FFFFFF' }, taxonomy, { partial: true, current: 'Coffee' })).toEqual({
+      category: { color: '#ffffff' },
+    })
+    expect(parseCategoryInput({ name: 'Coffee' }, taxonomy, { partial: true, current: 'Coffee' })).toEqual({
+      category: { name: 'Coffee' },
+    })
+  })
+})
+
+describe('Extraction with an organization taxonomy', () => {
+  it('should categorize regex and template results with the organization keywords', () => {
+    expect(parseTransactionTextWithRegex('UPI/CHAAYOS/999 ₹180.00', { categories: taxonomy }).category).toBe('Coffee')
+
+    const templated = parseWithBankTemplates('11-12-2025 UPI/P2M/534512345678/UBER 310.00 DR 25,430.50', {
+      categories: taxonomy,
+    })
+    expect(templated?.transaction.category).toBe('Travel')
+  })
+
+  it('should constrain the prompt and model replies to the organization categories', () => {
+    const prompt = buildExtractionPrompt('Starbucks ₹420.00', { categories: taxonomy })
+    expect(prompt).toContain('"Food", "Coffee", "Travel"')
+    expect(prompt).not.toContain('Food & Dining:')
+
+    const reply = JSON.stringify({
+      amount: 420,
+      date: '2025-12-11',
+      description: 'Starbucks',
+      category: 'Food & Dining',
+      direction: 'debit',
+      currency: 'INR',
+      fieldConfidence: { amount: 1, date: 1, description: 1, category: 1 },
+    })
+    expect(validateExtractionResponse(reply).valid).toBe(true)
+    expect(validateExtractionResponse(reply, taxonomy).valid).toBe(false)
+  })
+
+  it('should change the extractor version when the taxonomy changes', () => {
+    const regex = getExtractor('regex')!
+    const renamed = taxonomy.map((category) => (category.name === 'Travel' ? { ...category, name: 'Trips' } : category))
+
+    expect(getExtractorVersion(regex, { categories: taxonomy })).not.toBe(getExtractorVersion(regex, { categories: renamed }))
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals'
+import { createCircuitBreaker, withRetry } from '../circuit-breaker.js'
+
+const fail = () => Promise.reject(new Error('boom'))
+const succeed = () => Promise.resolve('ok')
+const noSleep = () => Promise.resolve()
+
+describe('Circuit Breaker', () => {
+  it('should open after consecutive failures and reject without calling', async () => {
+    const breaker = createCircuitBreaker({ name: 'Test', failureThreshold: 2, resetTimeoutMs: 1000, now: () => 0 })
+
+    await expect(breaker.execute(fail)).rejects.toThrow('boom')
+    expect(breaker.getMetrics().state).toBe('closed')
+    await expect(breaker.execute(fail)).rejects.toThrow('boom')
+    expect(breaker.getMetrics().state).toBe('open')
+
+    let called = false
+    await expect(breaker.execute(async () => { called = true })).rejects.toThrow('Test is unavailable (circuit open)')
+    expect(called).toBe(false)
+    expect(breaker.getMetrics()).toMatchObject({ failures: 2, rejected: 1, consecutiveFailures: 2, lastError: 'boom' })
+  })
+
+  it('should reset the failure count on success', async () => {
+    const breaker = createCircuitBreaker({ name: 'Test', failureThreshold: 2, resetTimeoutMs: 1000 })
+
+    await expect(breaker.execute(fail)).rejects.toThrow()
+    await expect(breaker.execute(succeed)).resolves.toBe('ok')
+    await expect(breaker.execute(fail)).rejects.toThrow()
+
+    expect(breaker.getMetrics()).toMatchObject({ state: 'closed', consecutiveFailures: 1, successes: 1 })
+  })
+
+  it('should let a trial call through after the reset timeout', async () => {
+    let time = 0
+    const breaker = createCircuitBreaker({ name: 'Test', failureThreshold: 1, resetTimeoutMs: 1000, now: () => time })
+
+    await expect(breaker.execute(fail)).rejects.toThrow('boom')
+    time = 999
+    await expect(breaker.execute(succeed)).rejects.toThrow('circuit open')
+
+    // A failed trial reopens the circuit
+    time = 1000
+    await expect(breaker.execute(fail)).rejects.toThrow('boom')
+    expect(breaker.getMetrics().state).toBe('open')
+    expect(breaker.getMetrics().openedAt).toBe(new Date(1000).toISOString())
+
+    // A successful trial closes it
+    time = 2000
+    await expect(breaker.execute(succeed)).resolves.toBe('ok')
+    expect(breaker.getMetrics().state).toBe('closed')
+  })
+})
+
+describe('withRetry', () => {
+  it('should retry retryable errors with growing delays', async () => {
+    const delays: number[] = []
+    let calls = 0
+
+    const result = await withRetry(
+      async () => {
+        calls++
+        if (calls < 3) {
+          throw new Error('throttled')
+        }
+        return 'done'
+      },
+      {
+        attempts: 3,
+        baseDelayMs: 100,
+        shouldRetry: () => true,
+        sleep: async (ms) => { delays.push(ms) },
+      }
+    )
+
+    expect(result).toBe('done')
+    expect(calls).toBe(3)
+    expect(delays[0]).toBeGreaterThanOrEqual(100)
+    expect(delays[0]).toBeLessThanOrEqual(150)
+    expect(delays[1]).toBeGreaterThanOrEqual(200)
+    expect(delays[1]).toBeLessThanOrEqual(300)
+  })
+
+  it('should stop at the attempt limit or on errors that are not retryable', async () => {
+    let calls = 0
+    const counting = () => {
+      calls++
+      return fail()
+    }
+
+    await expect(withRetry(counting, { attempts: 3, baseDelayMs: 1, shouldRetry: () => true, sleep: noSleep })).rejects.toThrow('boom')
+    expect(calls).toBe(3)
+
+    calls = 0
+    await expect(withRetry(counting, { attempts: 3, baseDelayMs: 1, shouldRetry: () => false, sleep: noSleep })).rejects.toThrow('boom')
+    expect(calls).toBe(1)
+  })
+})
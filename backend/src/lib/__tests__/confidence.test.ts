@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals'
+import { overallConfidence, uniformConfidence, getReviewStatus, DEFAULT_REVIEW_THRESHOLD } from '../confidence.js'
+import { parseTransactionTextWithRegex } from '../regex-parser.js'
+
+describe('Confidence', () => {
+  it('should weight amount and date above description and category', () => {
+    expect(overallConfidence({ amount: 1, date: 1, description: 0, category: 0 })).toBe(0.6)
+    expect(overallConfidence({ amount: 0, date: 0, description: 1, category: 1 })).toBe(0.4)
+  })
+
+  it('should keep uniform scores unchanged', () => {
+    expect(overallConfidence(uniformConfidence(0.9))).toBe(0.9)
+  })
+
+  it('should send transactions below the threshold to review', () => {
+    expect(getReviewStatus(0.69, 0.7)).toBe('needs_review')
+    expect(getReviewStatus(0.7, 0.7)).toBe('final')
+    expect(getReviewStatus(0, 0)).toBe('final')
+  })
+
+  it('should score regex amounts by how clearly they are marked as money', () => {
+    const decimal = parseTransactionTextWithRegex('11 Dec 2025 SWIGGY ORDER 420.00')
+    expect(decimal.amount).toBe(420)
+    expect(decimal.fieldConfidence.amount).toBe(0.9)
+
+    expect(parseTransactionTextWithRegex('SWIGGY ORDER ₹420 11 Dec 2025').fieldConfidence.amount).toBe(1)
+
+    const bare = parseTransactionTextWithRegex('SWIGGY ORDER 420')
+    expect(bare.amount).toBe(420)
+    expect(bare.fieldConfidence.amount).toBeLessThan(DEFAULT_REVIEW_THRESHOLD)
+  })
+})
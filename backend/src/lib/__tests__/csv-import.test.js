@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import { guessCsvMapping, parseCsv, parseCsvAmount, parseCsvMapping, readCsvStatement } from '../csv-import.js';
+const isoDate = (date) => date?.toISOString().slice(0, 10) ?? null;
+// HDFC savings export: account details above the header, separate withdrawal and deposit columns
+const hdfcCsv = [
+    'Account No:,50100123456789',
+    '',
+    'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+    '11/12/25,"UPI-SWIGGY-SWIGGY@YBL-534512345678-PAYMENT",0000534512345678,11/12/25,420.00,,"1,04,580.00"',
+    '15/12/25,NEFT CR-ACME PAYROLL-SALARY DEC,HDFCN52025121512345,15/12/25,,"85,000.00","1,89,580.00"',
+    ',Opening balance,,,,,"1,05,000.00"',
+].join('\r\n');
+describe('CSV Import', () => {
+    it('should split quoted cells and skip blank lines', () => {
+        const rows = parseCsv('a,"b, with comma","say ""hi"""\n\n1;2,3\r\n"multi\nline",x');
+        expect(rows).toEqual([
+            { line: 1, cells: ['a', 'b, with comma', 'say "hi"'] },
+            { line: 3, cells: ['1;2', '3'] },
+            { line: 4, cells: ['multi\nline', 'x'] },
+        ]);
+        expect(parseCsv('Date;Description;Amount\n01/12/2025;Netflix;-649,00')[1].cells).toEqual(['01/12/2025', 'Netflix', '-649,00']);
+    });
+    it('should find the header row and guess the mapping from header names', () => {
+        expect(guessCsvMapping(parseCsv(hdfcCsv))).toEqual({
+            headerLine: 3,
+            headers: ['Date', 'Narration', 'Chq./Ref.No.', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+            mapping: {
+                date: 'Date',
+                narration: 'Narration',
+                reference: 'Chq./Ref.No.',
+                debit: 'Withdrawal Amt.',
+                credit: 'Deposit Amt.',
+                balance: 'Closing Balance',
+            },
+        });
+    });
+    it('should read amounts with signs, brackets and Dr/Cr markers', () => {
+        expect(parseCsvAmount('1,04,580.00')).toEqual({ amount: 104580, direction: null });
+        expect(parseCsvAmount('-250.50')).toEqual({ amount: 250.5, direction: 'debit' });
+        expect(parseCsvAmount('(250.50)')).toEqual({ amount: 250.5, direction: 'debit' });
+        expect(parseCsvAmount('₹1,500.00 Cr')).toEqual({ amount: 1500, direction: 'credit' });
+        expect(parseCsvAmount('')).toBeNull();
+        expect(parseCsvAmount('n/a')).toBeNull();
+    });
+    it('should read rows through a mapping', () => {
+        const mapping = parseCsvMapping({
+            date: 'Date',
+            narration: 'Narration',
+            debit: 'Withdrawal Amt.',
+            credit: 'Deposit Amt.',
+            balance: 'Closing Balance',
+            reference: 'Chq./Ref.No.',
+        });
+        if ('error' in mapping)
+            throw new Error(mapping.error);
+        const statement = readCsvStatement(hdfcCsv, mapping.value);
+        if ('error' in statement)
+            throw new Error(statement.error);
+        expect(statement.rows.map((row) => [row.row, isoDate(row.date), row.amount, row.direction, row.balance])).toEqual([
+            [4, '2025-12-11', 420, 'debit', 104580],
+            [5, '2025-12-15', 85000, 'credit', 189580],
+        ]);
+        expect(statement.rows[0]).toMatchObject({
+            description: 'UPI-SWIGGY-SWIGGY@YBL-534512345678-PAYMENT',
+            reference: '0000534512345678',
+            dateAmbiguous: false,
+        });
+        expect(statement.failures).toEqual([
+            { row: 6, text: 'Opening balance | 1,05,000.00', error: 'No amount found in row' },
+        ]);
+    });
+    it('should work out the date order from the column or leave ambiguous dates empty', () => {
+        const mapping = { date: 'Date', narration: 'Description', amount: 'Amount' };
+        const csv = (dates) => ['Date,Description,Amount', ...dates.map((date) => `${date},Netflix,-649.00`)].join('\n');
+        const detected = readCsvStatement(csv(['12/03/2025', '12/15/2025']), mapping);
+        const ambiguous = readCsvStatement(csv(['12/03/2025']), mapping);
+        const configured = readCsvStatement(csv(['12/03/2025']), { ...mapping, dateFormat: 'DMY' });
+        if ('error' in detected || 'error' in ambiguous || 'error' in configured)
+            throw new Error('Columns not found');
+        expect(isoDate(detected.rows[0].date)).toBe('2025-12-03');
+        expect(ambiguous.rows[0]).toMatchObject({ date: null, dateAmbiguous: true });
+        expect(isoDate(configured.rows[0].date)).toBe('2025-03-12');
+    });
+    it('should reject incomplete mappings and columns missing from the file', () => {
+        expect(parseCsvMapping({ date: 'Date', narration: 'Narration' })).toHaveProperty('error');
+        expect(parseCsvMapping({ date: 'Date', amount: 'Amount' })).toHaveProperty('error');
+        expect(parseCsvMapping({ date: 'Date', narration: 'Narration', amount: 'Amount', dateFormat: 'YMD' })).toHaveProperty('error');
+        expect(readCsvStatement(hdfcCsv, { date: 'Date', narration: 'Details', amount: 'Amount' })).toEqual({
+            error: 'Columns not found in file: Date, Details, Amount',
+        });
+    });
+});
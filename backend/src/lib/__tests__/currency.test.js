@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectCurrency, parseFxRateCsv, validateFxRates } from '../currency.js';
+import { parseTransactionTextWithRegex } from '../regex-parser.js';
+describe('Currency', () => {
+    describe('Detection', () => {
+        it('should detect rupee symbols and abbreviations', () => {
+            expect(detectCurrency('Starbucks ₹420.00')).toBe('INR');
+            expect(detectCurrency('Amazon Rs. 1,500.50')).toBe('INR');
+            expect(detectCurrency('Salary 85,000.00 INR')).toBe('INR');
+        });
+        it('should detect foreign symbols next to amounts', () => {
+            expect(detectCurrency('NETFLIX.COM $15.49')).toBe('USD');
+            expect(detectCurrency('HOTEL PARIS €120.00')).toBe('EUR');
+            expect(detectCurrency('TFL LONDON £4.50')).toBe('GBP');
+            expect(detectCurrency('GRAB S$ 12.40')).toBe('SGD');
+        });
+        it('should prefer explicit ISO codes', () => {
+            expect(detectCurrency('AWS EMEA USD 45.00')).toBe('USD');
+            expect(detectCurrency('DUBAI MALL 250.00 AED')).toBe('AED');
+        });
+        it('should default to INR', () => {
+            expect(detectCurrency('Some transfer 500.00')).toBe('INR');
+        });
+    });
+    describe('Regex Extraction', () => {
+        it('should extract foreign currency amounts', () => {
+            const parsed = parseTransactionTextWithRegex('AWS EMEA USD 45.00 11 Dec 2025');
+            expect(parsed.amount).toBe(45);
+            expect(parsed.currency).toBe('USD');
+        });
+        it('should keep INR for rupee amounts', () => {
+            const parsed = parseTransactionTextWithRegex('Swiggy ₹1,00,000.00');
+            expect(parsed.amount).toBe(100000);
+            expect(parsed.currency).toBe('INR');
+        });
+    });
+    describe('FX Rate Upload', () => {
+        it('should parse CSV with or without a header', () => {
+            const rates = parseFxRateCsv('currency,rate,effectiveDate\nusd, 83.25, 2025-12-01\nEUR,90.1,2025-12-01\n');
+            expect(rates).toEqual([
+                { currency: 'USD', rate: 83.25, effectiveDate: '2025-12-01' },
+                { currency: 'EUR', rate: 90.1, effectiveDate: '2025-12-01' },
+            ]);
+        });
+        it('should accept valid rates', () => {
+            expect(validateFxRates([{ currency: 'USD', rate: 83.25, effectiveDate: '2025-12-01' }], 'INR')).toBeNull();
+        });
+        it('should reject invalid rates', () => {
+            expect(validateFxRates([], 'INR')).toMatch(/At least one/);
+            expect(validateFxRates([{ currency: 'usd', rate: 83, effectiveDate: '2025-12-01' }], 'INR')).toMatch(/currency/);
+            expect(validateFxRates([{ currency: 'INR', rate: 1, effectiveDate: '2025-12-01' }], 'INR')).toMatch(/base currency/);
+            expect(validateFxRates([{ currency: 'USD', rate: 0, effectiveDate: '2025-12-01' }], 'INR')).toMatch(/positive/);
+            expect(validateFxRates([{ currency: 'USD', rate: 83, effectiveDate: '01/12/2025' }], 'INR')).toMatch(/effectiveDate/);
+        });
+    });
+});
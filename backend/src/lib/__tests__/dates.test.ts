@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildDate,
+  detectDateFormat,
+  findDate,
+  findNumericDate,
+  formatDateHints,
+  parseDateHints,
+  resolveNumericDate,
+} from '../dates.js'
+import { parseTransactionTextWithRegex } from '../regex-parser.js'
+
+const isoDate = (date: Date | null) => date?.toISOString().slice(0, 10) ?? null
+
+describe('Date Parsing', () => {
+  it('should reject dates that do not exist instead of rolling them over', () => {
+    expect(isoDate(buildDate(2024, 2, 29))).toBe('2024-02-29')
+    expect(buildDate(2025, 2, 29)).toBeNull()
+    expect(buildDate(2025, 4, 31)).toBeNull()
+    expect(buildDate(2025, 13, 1)).toBeNull()
+    expect(isoDate(buildDate(25, 12, 11))).toBe('2025-12-11')
+  })
+
+  it('should read numeric dates in the configured order', () => {
+    expect(isoDate(resolveNumericDate(3, 4, 2025, { dateFormat: 'DMY' }).date)).toBe('2025-04-03')
+    expect(isoDate(resolveNumericDate(3, 4, 2025, { dateFormat: 'MDY' }).date)).toBe('2025-03-04')
+    expect(resolveNumericDate(13, 4, 2025, { dateFormat: 'MDY' })).toEqual({ date: null, ambiguous: false })
+  })
+
+  it('should only guess the order when one reading is impossible', () => {
+    expect(isoDate(resolveNumericDate(13, 4, 2025).date)).toBe('2025-04-13')
+    expect(isoDate(resolveNumericDate(4, 13, 2025).date)).toBe('2025-04-13')
+    expect(isoDate(resolveNumericDate(5, 5, 2025).date)).toBe('2025-05-05')
+    expect(resolveNumericDate(3, 4, 2025)).toEqual({ date: null, ambiguous: true })
+  })
+
+  it('should use the statement period to settle ambiguous dates', () => {
+    const april = { from: new Date('2025-04-01'), to: new Date('2025-04-30') }
+    const spring = { from: new Date('2025-03-01'), to: new Date('2025-04-30') }
+
+    expect(isoDate(resolveNumericDate(3, 4, 2025, { statementPeriod: april }).date)).toBe('2025-04-03')
+    expect(resolveNumericDate(3, 4, 2025, { statementPeriod: spring }).ambiguous).toBe(true)
+  })
+
+  it('should find dates in statement text', () => {
+    expect(isoDate(findDate('Starbucks ₹450.00 11 Dec 2025').date)).toBe('2025-12-11')
+    expect(isoDate(findDate('Amazon Rs. 2,999.00 Dec 3, 2025').date)).toBe('2025-12-03')
+    expect(isoDate(findDate('UPI/SWIGGY Rs.420.00 debited on 2025-12-11').date)).toBe('2025-12-11')
+    expect(isoDate(findDate('Shop 99.00 on 31 Feb 2025 or 28-02-2025').date)).toBe('2025-02-28')
+    expect(findDate('Shop 99.00 on 03/04/2025')).toEqual({ date: null, ambiguous: true })
+    expect(findNumericDate('A/c 45/67/2025 Rs 10')).toBeNull()
+  })
+
+  it('should work out the order of a column of dates', () => {
+    expect(detectDateFormat(['03/04/2025', '15/04/2025'])).toBe('DMY')
+    expect(detectDateFormat(['04/03/25', '04/15/25'])).toBe('MDY')
+    expect(detectDateFormat(['03/04/2025', '05/04/2025'])).toBeNull()
+    expect(detectDateFormat(['15/04/2025', '04/15/2025'])).toBeNull()
+    expect(detectDateFormat(['2025-04-15', '15 Apr 2025'])).toBeNull()
+  })
+
+  it('should validate date hints from a request', () => {
+    expect(parseDateHints({ dateFormat: 'MDY', statementPeriod: { from: '2025-04-01', to: '2025-04-30' } })).toEqual({
+      value: { dateFormat: 'MDY', statementPeriod: { from: new Date('2025-04-01'), to: new Date('2025-04-30') } },
+    })
+    expect(parseDateHints({})).toEqual({ value: { dateFormat: null, statementPeriod: null } })
+    expect(parseDateHints({ dateFormat: 'YMD' })).toHaveProperty('error')
+    expect(parseDateHints({ statementPeriod: { from: '2025-04-31', to: '2025-05-01' } })).toHaveProperty('error')
+    expect(parseDateHints({ statementPeriod: { from: '2025-05-01', to: '2025-04-01' } })).toHaveProperty('error')
+  })
+
+  it('should format date hints so they read back the same', () => {
+    const hints = { dateFormat: 'MDY' as const, statementPeriod: { from: new Date('2025-04-01'), to: new Date('2025-04-30') } }
+
+    expect(formatDateHints(hints)).toEqual({ dateFormat: 'MDY', statementPeriod: { from: '2025-04-01', to: '2025-04-30' } })
+    expect(parseDateHints(formatDateHints(hints))).toEqual({ value: hints })
+    expect(formatDateHints({})).toEqual({ dateFormat: null, statementPeriod: null })
+  })
+})
+
+describe('Regex Dates', () => {
+  it('should flag ambiguous numeric dates for review', () => {
+    const parsed = parseTransactionTextWithRegex('Zomato ₹250.00 05/12/2025')
+
+    expect(parsed.date).toBeNull()
+    expect(parsed.dateAmbiguous).toBe(true)
+    expect(parsed.fieldConfidence.date).toBe(0)
+  })
+
+  it('should read numeric dates with the organization format', () => {
+    const dayFirst = parseTransactionTextWithRegex('Zomato ₹250.00 05/12/2025', { dateFormat: 'DMY' })
+    const monthFirst = parseTransactionTextWithRegex('Zomato ₹250.00 05/12/2025', { dateFormat: 'MDY' })
+
+    expect(isoDate(dayFirst.date)).toBe('2025-12-05')
+    expect(isoDate(monthFirst.date)).toBe('2025-05-12')
+    expect(monthFirst.dateAmbiguous).toBeUndefined()
+  })
+})
@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime'
+import {
+  resolveExtractor,
+  getExtractor,
+  registerExtractor,
+  isExtractorName,
+  getExtractorVersion,
+  setFakeExtractorResponse,
+  clearFakeExtractorResponses,
+} from '../extractor.js'
+import { DEFAULT_PROMPT_VERSION } from '../prompt.js'
+import { emptyReferences } from '../references.js'
+import { getBedrockCircuitMetrics, isRetryableBedrockError, resetBedrockCircuit } from '../bedrock.js'
+
+describe('Transaction Extractors', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    delete process.env.TRANSACTION_EXTRACTOR
+    delete process.env.AWS_REGION
+    delete process.env.AWS_ACCESS_KEY_ID
+    delete process.env.AWS_SECRET_ACCESS_KEY
+    delete process.env.OPENAI_BASE_URL
+    delete process.env.OPENAI_MODEL
+    clearFakeExtractorResponses()
+    resetBedrockCircuit()
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    jest.restoreAllMocks()
+  })
+
+  describe('Provider Selection', () => {
+    it('should default to regex when nothing is configured', () => {
+      expect(resolveExtractor().name).toBe('regex')
+    })
+
+    it('should default to bedrock when AWS credentials are set', () => {
+      process.env.AWS_REGION = 'ap-south-1'
+      process.env.AWS_ACCESS_KEY_ID = 'key'
+      process.env.AWS_SECRET_ACCESS_KEY = 'secret'
+
+      expect(resolveExtractor().name).toBe('bedrock')
+    })
+
+    it('should use TRANSACTION_EXTRACTOR from env', () => {
+      process.env.TRANSACTION_EXTRACTOR = 'fake'
+
+      expect(resolveExtractor().name).toBe('fake')
+    })
+
+    it('should prefer the organization setting over env', () => {
+      process.env.TRANSACTION_EXTRACTOR = 'fake'
+
+      expect(resolveExtractor('regex').name).toBe('regex')
+    })
+
+    it('should skip providers that are not configured', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(resolveExtractor('openai').name).toBe('regex')
+      expect(resolveExtractor('unknown').name).toBe('regex')
+    })
+
+    it('should select openai once base URL and model are set', () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      expect(resolveExtractor('openai').name).toBe('openai')
+    })
+
+    it('should accept registered custom providers', async () => {
+      registerExtractor({
+        name: 'custom-test',
+        isConfigured: () => true,
+        extract: async () => ({
+          amount: 1,
+          date: null,
+          description: 'custom',
+          category: 'Other',
+          direction: 'debit',
+          currency: 'INR',
+          confidence: 1,
+          fieldConfidence: { amount: 1, date: 1, description: 1, category: 1 },
+          references: emptyReferences(),
+        }),
+      })
+
+      expect(isExtractorName('custom-test')).toBe(true)
+      expect(isExtractorName('missing')).toBe(false)
+
+      const parsed = await resolveExtractor('custom-test').extract('anything')
+      expect(parsed.description).toBe('custom')
+    })
+  })
+
+  describe('Extractor Version', () => {
+    it('should include provider, model and prompt version', () => {
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      expect(getExtractorVersion(getExtractor('openai')!)).toBe(`openai:llama3.1:${DEFAULT_PROMPT_VERSION}`)
+      expect(getExtractorVersion(getExtractor('fake')!)).toBe(`fake:none:${DEFAULT_PROMPT_VERSION}`)
+    })
+
+    it('should change with the organization prompt instructions', () => {
+      const fake = getExtractor('fake')!
+
+      expect(getExtractorVersion(fake, { instructions: 'Treat coffee as Office Supplies.' })).not.toBe(
+        getExtractorVersion(fake)
+      )
+      expect(getExtractorVersion(fake, { promptVersion: 'v0' })).toBe(getExtractorVersion(fake))
+    })
+  })
+
+  describe('Fake Extractor', () => {
+    it('should return canned responses for registered text', async () => {
+      setFakeExtractorResponse('canned text', {
+        amount: 99,
+        date: new Date('2025-12-01'),
+        description: 'Canned',
+        category: 'Shopping',
+        direction: 'debit',
+        currency: 'INR',
+        confidence: 0.77,
+        fieldConfidence: { amount: 0.77, date: 0.77, description: 0.77, category: 0.77 },
+        references: emptyReferences(),
+      })
+
+      const parsed = await getExtractor('fake')!.extract('canned text')
+
+      expect(parsed.amount).toBe(99)
+      expect(parsed.confidence).toBe(0.77)
+    })
+
+    it('should be deterministic for unregistered text', async () => {
+      const fake = getExtractor('fake')!
+      const first = await fake.extract('Starbucks Coffee ₹450.00')
+      const second = await fake.extract('Starbucks Coffee ₹450.00')
+
+      expect(first).toEqual(second)
+      expect(first.amount).toBeGreaterThan(0)
+      expect(first.category).toBe('Food & Dining')
+      expect(first.confidence).toBe(0.9)
+    })
+  })
+
+  describe('Bedrock Extractor', () => {
+    const reply = {
+      amount: 420,
+      date: '2025-12-11',
+      description: 'STARBUCKS',
+      category: 'Food & Dining',
+      direction: 'debit',
+      currency: 'INR',
+      fieldConfidence: { amount: 1, date: 1, description: 1, category: 1 },
+    }
+    const bedrockResponse = () => ({
+      body: new TextEncoder().encode(JSON.stringify({ content: [{ text: JSON.stringify(reply) }] })),
+    })
+    const throttled = () => Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' })
+
+    it('should only treat throttling and unavailability as retryable', () => {
+      expect(isRetryableBedrockError(throttled())).toBe(true)
+      expect(isRetryableBedrockError({ name: 'Error', $metadata: { httpStatusCode: 503 } })).toBe(true)
+      expect(isRetryableBedrockError(Object.assign(new Error('Bad input'), { name: 'ValidationException' }))).toBe(false)
+      expect(isRetryableBedrockError(null)).toBe(false)
+    })
+
+    it('should retry throttled calls', async () => {
+      let calls = 0
+      jest.spyOn(BedrockRuntimeClient.prototype, 'send').mockImplementation((async () => {
+        calls++
+        if (calls === 1) {
+          throw throttled()
+        }
+        return bedrockResponse()
+      }) as never)
+
+      const parsed = await getExtractor('bedrock')!.extract('Starbucks ₹420.00 11/12/2025')
+
+      expect(calls).toBe(2)
+      expect(parsed.amount).toBe(420)
+      expect(getBedrockCircuitMetrics()).toMatchObject({ state: 'closed', retries: 1, successes: 1 })
+    })
+
+    it('should use the configured model id and record the prompt version', async () => {
+      process.env.BEDROCK_MODEL_ID = 'anthropic.claude-sonnet-4-5-20250929-v1:0'
+      const send = jest.spyOn(BedrockRuntimeClient.prototype, 'send').mockResolvedValue(bedrockResponse() as never)
+
+      try {
+        const parsed = await getExtractor('bedrock')!.extract('Starbucks ₹420.00 11/12/2025')
+
+        const command = send.mock.calls[0][0] as { input: { modelId?: string } }
+        expect(command.input.modelId).toBe('anthropic.claude-sonnet-4-5-20250929-v1:0')
+        expect(parsed.provenance).toMatchObject({
+          modelId: 'anthropic.claude-sonnet-4-5-20250929-v1:0',
+          promptVersion: DEFAULT_PROMPT_VERSION,
+        })
+      } finally {
+        delete process.env.BEDROCK_MODEL_ID
+      }
+    })
+
+    it('should record token usage and estimated cost over every attempt', async () => {
+      const replies = ['not json', JSON.stringify(reply)]
+      jest.spyOn(BedrockRuntimeClient.prototype, 'send').mockImplementation((async () => ({
+        body: new TextEncoder().encode(JSON.stringify({
+          content: [{ text: replies.shift() }],
+          usage: { input_tokens: 1000, output_tokens: 100 },
+        })),
+      })) as never)
+
+      const parsed = await getExtractor('bedrock')!.extract('Starbucks ₹420.00 11/12/2025')
+
+      expect(parsed.provenance).toMatchObject({ inputTokens: 2000, outputTokens: 200 })
+      expect(parsed.provenance?.costUsd).toBeCloseTo(0.009)
+    })
+
+    it('should throw so callers can fall back, and stop calling Bedrock once the circuit opens', async () => {
+      const send = jest
+        .spyOn(BedrockRuntimeClient.prototype, 'send')
+        .mockRejectedValue(Object.assign(new Error('Access denied'), { name: 'AccessDeniedException' }) as never)
+      const bedrock = getExtractor('bedrock')!
+
+      for (let i = 0; i < 5; i++) {
+        await expect(bedrock.extract('text')).rejects.toThrow('Access denied')
+      }
+      await expect(bedrock.extract('text')).rejects.toThrow('Bedrock is unavailable (circuit open)')
+
+      expect(send).toHaveBeenCalledTimes(5)
+      expect(getBedrockCircuitMetrics()).toMatchObject({ state: 'open', failures: 5, rejected: 1, lastError: 'Access denied' })
+    })
+  })
+
+  describe('OpenAI-compatible Extractor', () => {
+    it('should call chat completions and parse the JSON reply', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1/'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      const fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  content: '{"amount": -420, "date": "2025-12-11", "description": "STARBUCKS", "category": "Food & Dining", "direction": "debit", "currency": "usd", "fieldConfidence": {"amount": 1, "date": 1, "description": 0.8, "category": 0.5}}',
+                },
+              },
+            ],
+          }),
+          { status: 200 }
+        )
+      )
+
+      const parsed = await getExtractor('openai')!.extract('Starbucks -420.00 11/12/2025', { dateFormat: 'DMY' })
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:11434/v1/chat/completions',
+        expect.objectContaining({ method: 'POST' })
+      )
+      expect(parsed.amount).toBe(420)
+      expect(parsed.direction).toBe('debit')
+      expect(parsed.currency).toBe('USD')
+      expect(parsed.date?.toISOString().slice(0, 10)).toBe('2025-12-11')
+      expect(parsed.category).toBe('Food & Dining')
+      expect(parsed.fieldConfidence.category).toBe(0.5)
+      expect(parsed.confidence).toBe(0.86)
+      expect(parsed.provenance).toMatchObject({
+        extractor: 'openai',
+        modelId: 'llama3.1',
+        promptVersion: DEFAULT_PROMPT_VERSION,
+      })
+      expect(parsed.provenance?.rawOutput).toContain('STARBUCKS')
+    })
+
+    it('should fill references the model missed from the text', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      const reply = {
+        amount: 420,
+        date: '2025-12-11',
+        description: 'SWIGGY',
+        category: 'Food & Dining',
+        direction: 'debit',
+        currency: 'INR',
+        fieldConfidence: { amount: 1, date: 1, description: 1, category: 1 },
+        references: { upiRef: null, vpa: 'swiggy@ybl', utr: null, chequeNumber: null, maskedAccount: null },
+      }
+      jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(reply) } }] }), { status: 200 })
+      )
+
+      const parsed = await getExtractor('openai')!.extract('UPI/SWIGGY/534512345678 A/c XX1234 ₹420.00 11/12/2025')
+
+      expect(parsed.references).toEqual({
+        upiRef: '534512345678',
+        vpa: 'swiggy@ybl',
+        utr: null,
+        chequeNumber: null,
+        maskedAccount: 'XX1234',
+      })
+    })
+
+    it('should read numeric dates in the text with the date format instead of the model', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      const reply = {
+        amount: 420,
+        date: '2025-04-03',
+        description: 'STARBUCKS',
+        category: 'Food & Dining',
+        direction: 'debit',
+        currency: 'USD',
+        fieldConfidence: { amount: 1, date: 1, description: 1, category: 1 },
+      }
+      jest.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+        new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(reply) } }] }), { status: 200 })
+      )
+      const openai = getExtractor('openai')!
+
+      const monthFirst = await openai.extract('Starbucks $420.00 03/04/2025', { dateFormat: 'MDY' })
+      expect(monthFirst.date?.toISOString().slice(0, 10)).toBe('2025-03-04')
+      expect(monthFirst.confidence).toBe(1)
+
+      const ambiguous = await openai.extract('Starbucks $420.00 03/04/2025')
+      expect(ambiguous.date).toBeNull()
+      expect(ambiguous.dateAmbiguous).toBe(true)
+      expect(ambiguous.fieldConfidence.date).toBe(0)
+      expect(ambiguous.confidence).toBe(0.7)
+    })
+
+    it('should re-prompt with validation errors', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      const replies = [
+        'Sure! The amount is 420',
+        '{"amount": 420, "date": "2025-12-11", "description": "STARBUCKS", "category": "Food & Dining", "direction": "debit", "currency": "INR", "fieldConfidence": {"amount": 0.9, "date": 0.9, "description": 0.9, "category": 0.9}}',
+      ]
+      const fetchMock = jest.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+        new Response(JSON.stringify({ choices: [{ message: { content: replies.shift() } }] }), { status: 200 })
+      )
+
+      const parsed = await getExtractor('openai')!.extract('Starbucks 420.00 11/12/2025', { dateFormat: 'DMY' })
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      const retryBody = JSON.parse(fetchMock.mock.calls[1][1]!.body as string)
+      expect(retryBody.messages).toHaveLength(3)
+      expect(retryBody.messages[2].content).toContain('not valid JSON')
+      expect(parsed.amount).toBe(420)
+      expect(parsed.confidence).toBe(0.9)
+    })
+
+    it('should throw on non-2xx responses', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1'
+      process.env.OPENAI_MODEL = 'llama3.1'
+
+      jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('busy', { status: 503 }))
+
+      await expect(getExtractor('openai')!.extract('text')).rejects.toThrow('503')
+    })
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, it, expect } from '@jest/globals';
+import { getNextRunAt, getRetryDelay, isJobFinished } from '../jobs.js';
+describe('Extraction Jobs', () => {
+    it('should back off exponentially up to five minutes', () => {
+        expect(getRetryDelay(1)).toBe(5000);
+        expect(getRetryDelay(2)).toBe(10000);
+        expect(getRetryDelay(3)).toBe(20000);
+        expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+    it('should schedule a retry until attempts run out', () => {
+        const now = new Date('2025-12-11T10:00:00Z');
+        expect(getNextRunAt(1, 3, now)).toEqual(new Date('2025-12-11T10:00:05Z'));
+        expect(getNextRunAt(3, 3, now)).toBeNull();
+    });
+    it('should only treat completed and failed jobs as finished', () => {
+        expect(isJobFinished('completed')).toBe(true);
+        expect(isJobFinished('failed')).toBe(true);
+        expect(isJobFinished('pending')).toBe(false);
+        expect(isJobFinished('processing')).toBe(false);
+    });
+});
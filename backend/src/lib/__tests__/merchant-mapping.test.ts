@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  normalizeMerchantKey,
+  formatMerchantName,
+  findMerchantCategory,
+  selectFewShotExamples,
+  MAX_FEW_SHOT_EXAMPLES,
+} from '../merchant-mapping.js'
+import type { MerchantCategoryMapping } from '../merchant-mapping.js'
+import { parseTransactionTextWithRegex } from '../regex-parser.js'
+import { parseWithBankTemplates } from '../bank-parsers.js'
+import { buildExtractionPrompt } from '../prompt.js'
+import { getExtractor, getExtractorVersion } from '../extractor.js'
+
+const chaayos: MerchantCategoryMapping = {
+  merchantKey: 'chaayos',
+  category: 'Food & Dining',
+  exampleText: 'UPI/CHAAYOS/534512345678/Payment 250.00',
+}
+
+describe('Merchant Category Mappings', () => {
+  it('should reduce descriptions to the merchant name', () => {
+    expect(normalizeMerchantKey('UPI/SWIGGY/534512345678/Payment')).toBe('swiggy')
+    expect(normalizeMerchantKey('TRANSFER-UPI/DR/534512345678/SWIGGY/YESB/swiggy@yb')).toBe('swiggy')
+    expect(normalizeMerchantKey('POS 4521XXXX STARBUCKS COFFEE')).toBe('starbucks coffee')
+    expect(normalizeMerchantKey('NEFT/123456')).toBe('')
+  })
+
+  it('should drop locations so branches share a merchant', () => {
+    expect(normalizeMerchantKey('POS SWIGGY BANGALORE')).toBe('swiggy')
+    expect(normalizeMerchantKey('STARBUCKS COFFEE MUMBAI IN')).toBe('starbucks coffee')
+    expect(formatMerchantName('starbucks coffee')).toBe('Starbucks Coffee')
+  })
+
+  it('should match whole merchant names and prefer the most specific', () => {
+    const mappings: MerchantCategoryMapping[] = [
+      { merchantKey: 'amazon', category: 'Shopping', exampleText: 'AMAZON 999.00' },
+      { merchantKey: 'amazon prime', category: 'Entertainment', exampleText: 'AMAZON PRIME 1499.00' },
+    ]
+
+    expect(findMerchantCategory('POS AMAZON PRIME MUMBAI 1499.00', mappings)).toBe('Entertainment')
+    expect(findMerchantCategory('AMAZON RETAIL 999.00', mappings)).toBe('Shopping')
+    expect(findMerchantCategory('AMAZONIA TRAVELS 999.00', mappings)).toBeNull()
+  })
+
+  it('should only select examples for merchants in the text', () => {
+    const others = Array.from({ length: 10 }, (_, i) => ({
+      merchantKey: `shop ${'x'.repeat(i + 2)}`,
+      category: 'Shopping',
+      exampleText: `SHOP ${'X'.repeat(i + 2)} 100.00`,
+    }))
+
+    expect(selectFewShotExamples('UPI/CHAAYOS/999 180.00', [chaayos, ...others])).toEqual([chaayos])
+
+    const all = others.map((other) => other.exampleText).join(' ')
+    expect(selectFewShotExamples(all, others)).toHaveLength(MAX_FEW_SHOT_EXAMPLES)
+  })
+
+  it('should apply learned categories before keywords in regex parsing', () => {
+    // "upi" alone would categorize this as a Transfer
+    const learned = parseTransactionTextWithRegex('UPI/CHAAYOS/999 ₹180.00', { merchantCategories: [chaayos] })
+    const keyword = parseTransactionTextWithRegex('UPI/CHAAYOS/999 ₹180.00')
+
+    expect(learned.category).toBe('Food & Dining')
+    expect(learned.fieldConfidence.category).toBe(1)
+    expect(keyword.category).toBe('Transfer')
+  })
+
+  it('should apply learned categories to template matches', () => {
+    const result = parseWithBankTemplates('11-12-2025 UPI/P2M/534512345678/CHAAYOS 180.00 DR 25,430.50', {
+      merchantCategories: [chaayos],
+    })
+
+    expect(result?.transaction.category).toBe('Food & Dining')
+    expect(result?.transaction.fieldConfidence.category).toBe(1)
+  })
+
+  it('should include learned categories in the prompt and extractor version', () => {
+    const prompt = buildExtractionPrompt('UPI/CHAAYOS/999 180.00', { merchantCategories: [chaayos] })
+    const regex = getExtractor('regex')!
+
+    expect(prompt).toContain('"UPI/CHAAYOS/534512345678/Payment 250.00" → "Food & Dining"')
+    expect(buildExtractionPrompt('UPI/CHAAYOS/999 180.00')).not.toContain('corrected the category')
+    expect(getExtractorVersion(regex, { merchantCategories: [chaayos] })).not.toBe(getExtractorVersion(regex))
+  })
+})
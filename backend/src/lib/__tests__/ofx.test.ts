@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseOfx, parseOfxAmount, parseOfxDate } from '../ofx.js'
+
+const isoDate = (date: Date | null) => date?.toISOString().slice(0, 10) ?? null
+
+// OFX 1.x (SGML): header lines, leaf elements left unclosed
+const sgmlOfx = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  '',
+  '<OFX>',
+  '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+  '<CURDEF>USD',
+  '<BANKACCTFROM><BANKID>121000248<ACCTID>0012345678<ACCTTYPE>CHECKING</BANKACCTFROM>',
+  '<BANKTRANLIST>',
+  '<STMTTRN>',
+  '<TRNTYPE>POS',
+  '<DTPOSTED>20251211120000.000[-5:EST]',
+  '<TRNAMT>-42.50',
+  '<FITID>2025121101',
+  '<NAME>NETFLIX.COM',
+  '<MEMO>Subscription &amp; streaming',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CHECK',
+  '<DTPOSTED>20251212',
+  '<TRNAMT>-300.00',
+  '<FITID>2025121201',
+  '<CHECKNUM>1042',
+  '<NAME>LANDLORD',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CREDIT',
+  '<DTPOSTED>20251215',
+  '<TRNAMT>2500.00',
+  '<FITID>2025121501',
+  '<NAME>ACME PAYROLL',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+].join('\r\n')
+
+// OFX 2.x (XML): card statement with a transaction in another currency
+const xmlOfx = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>GBP</CURDEF>
+    <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20251203</DTPOSTED>
+        <TRNAMT>-18.99</TRNAMT>
+        <FITID>CC-001</FITID>
+        <NAME>TESCO STORES</NAME>
+      </STMTTRN>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20251205</DTPOSTED>
+        <TRNAMT>-120.00</TRNAMT>
+        <FITID>CC-002</FITID>
+        <NAME>HOTEL PARIS</NAME>
+        <CURRENCY><CURRATE>0.85</CURRATE><CURSYM>EUR</CURSYM></CURRENCY>
+      </STMTTRN>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20251206</DTPOSTED>
+        <NAME>NO FITID</NAME>
+        <TRNAMT>-5.00</TRNAMT>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`
+
+describe('OFX Import', () => {
+  it('should read OFX dates and amounts', () => {
+    expect(isoDate(parseOfxDate('20251211120000.000[-5:EST]'))).toBe('2025-12-11')
+    expect(isoDate(parseOfxDate('20251301'))).toBeNull()
+    expect(parseOfxDate(null)).toBeNull()
+
+    expect(parseOfxAmount('-42.50')).toBe(-42.5)
+    expect(parseOfxAmount('+1,250.00')).toBe(1250)
+    expect(parseOfxAmount('-649,00')).toBe(-649)
+    expect(parseOfxAmount('N/A')).toBeNull()
+  })
+
+  it('should read SGML statements with the sign, date and currency from the file', () => {
+    const statement = parseOfx(sgmlOfx, 'INR')
+    if ('error' in statement) throw new Error(statement.error)
+
+    expect(statement.failures).toEqual([])
+    expect(statement.transactions).toHaveLength(3)
+
+    const [netflix, check, salary] = statement.transactions
+    expect(netflix).toMatchObject({
+      fitId: '2025121101',
+      type: 'POS',
+      amount: 42.5,
+      direction: 'debit',
+      currency: 'USD',
+      name: 'NETFLIX.COM',
+      memo: 'Subscription & streaming',
+      maskedAccount: 'XX5678',
+      text: '20251211120000.000[-5:EST] | POS | NETFLIX.COM | Subscription & streaming | -42.50',
+    })
+    expect(isoDate(netflix.date)).toBe('2025-12-11')
+    expect(check).toMatchObject({ checkNumber: '1042', direction: 'debit', amount: 300 })
+    expect(salary).toMatchObject({ direction: 'credit', amount: 2500 })
+    expect(isoDate(salary.date)).toBe('2025-12-15')
+  })
+
+  it('should read XML statements and a transaction currency that overrides CURDEF', () => {
+    const statement = parseOfx(xmlOfx, 'INR')
+    if ('error' in statement) throw new Error(statement.error)
+
+    expect(statement.transactions.map((transaction) => [transaction.fitId, transaction.currency])).toEqual([
+      ['CC-001', 'GBP'],
+      ['CC-002', 'EUR'],
+    ])
+    expect(statement.transactions[0].maskedAccount).toBe('XX1111')
+    expect(statement.failures).toEqual([
+      { fitId: null, text: '20251206 | DEBIT | NO FITID | -5.00', error: 'Transaction has no FITID' },
+    ])
+  })
+
+  it('should key transactions by account and FITID without storing the account number', () => {
+    const first = parseOfx(sgmlOfx, 'INR')
+    const again = parseOfx(sgmlOfx, 'INR')
+    const otherAccount = parseOfx(sgmlOfx.replace('0012345678', '0099999999'), 'INR')
+    if ('error' in first || 'error' in again || 'error' in otherAccount) throw new Error('Not parsed')
+
+    expect(again.transactions[0].externalId).toBe(first.transactions[0].externalId)
+    expect(otherAccount.transactions[0].externalId).not.toBe(first.transactions[0].externalId)
+    expect(first.transactions[0].externalId).toMatch(/^ofx:[0-9a-f]{16}:2025121101$/)
+    expect(first.transactions[0].externalId).not.toContain('0012345678')
+  })
+
+  it('should fall back to the default currency and reject files that are not OFX', () => {
+    const statement = parseOfx(sgmlOfx.replace('<CURDEF>USD\r\n', ''), 'INR')
+    if ('error' in statement) throw new Error(statement.error)
+
+    expect(statement.transactions[0].currency).toBe('INR')
+    expect(parseOfx('Date,Narration,Amount', 'INR')).toEqual({ error: 'Not an OFX or QFX file' })
+  })
+})
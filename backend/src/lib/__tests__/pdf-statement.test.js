@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { findStatementRows, groupTextLines, readPdfLines } from '../pdf-statement.js';
+/**
+ * Build a one-font PDF with text placed at [x, y] on each page
+ */
+function buildPdf(pages) {
+    const objects = ['<< /Type /Catalog /Pages 2 0 R >>', '', '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'];
+    const kids = [];
+    for (const lines of pages) {
+        const stream = lines.map(([x, y, text]) => `BT /F1 9 Tf ${x} ${y} Td (${text}) Tj ET`).join('\n');
+        objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${objects.length} 0 R >>`);
+        kids.push(`${objects.length} 0 R`);
+    }
+    objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(pdf);
+}
+// HDFC-style statement page: address above the table, wrapped narrations, a footer
+const statementPage = [
+    [40, 800, 'HDFC BANK LTD'],
+    [40, 788, 'Statement of account 01/12/2025 to 31/12/2025'],
+    [40, 760, 'Date'],
+    [90, 760, 'Narration'],
+    [400, 760, 'Withdrawal Amt.'],
+    [480, 760, 'Closing Balance'],
+    [40, 740, '11/12/25'],
+    [90, 740, 'UPI-SWIGGY-SWIGGY@YBL-'],
+    [400, 740, '420.00'],
+    [480, 740, '1,04,580.00'],
+    [90, 729, '534512345678-PAYMENT'],
+    [40, 710, '15/12/25'],
+    [90, 710, 'NEFT CR-ACME PAYROLL'],
+    [400, 710, '85,000.00'],
+    [480, 710, '1,89,580.00'],
+    [40, 680, 'Page 1 of 1'],
+    [40, 668, 'Registered office address: Mumbai'],
+];
+describe('PDF Statements', () => {
+    it('should group text items into lines from top to bottom', () => {
+        expect(groupTextLines([
+            { text: '420.00', x: 400, y: 740.5 },
+            { text: '11/12/25', x: 40, y: 740 },
+            { text: ' ', x: 80, y: 740 },
+            { text: 'SWIGGY', x: 90, y: 739 },
+            { text: 'HDFC BANK', x: 40, y: 800 },
+        ])).toEqual([
+            { text: 'HDFC BANK', x: 40 },
+            { text: '11/12/25 SWIGGY 420.00', x: 40 },
+        ]);
+    });
+    it('should keep dated rows with amounts and join wrapped narrations onto them', () => {
+        const page = [
+            { text: 'Statement of account 01/12/2025 to 31/12/2025', x: 40 },
+            { text: 'Date Narration Withdrawal Amt. Closing Balance', x: 40 },
+            { text: '11/12/25 UPI-SWIGGY-SWIGGY@YBL- 420.00 1,04,580.00', x: 40 },
+            { text: '534512345678-PAYMENT', x: 90 },
+            { text: 'Opening balance 01/12/2025 1,05,000.00', x: 40 },
+            { text: '15/12/25 NEFT CR-ACME PAYROLL 85,000.00 1,89,580.00', x: 40 },
+            { text: 'Registered office address: Mumbai', x: 40 },
+            { text: 'Customer care: 1800 202 6161', x: 90 },
+        ];
+        expect(findStatementRows([page])).toEqual([
+            '11/12/25 UPI-SWIGGY-SWIGGY@YBL- 420.00 1,04,580.00 534512345678-PAYMENT',
+            '15/12/25 NEFT CR-ACME PAYROLL 85,000.00 1,89,580.00',
+        ]);
+    });
+    it('should not continue a row onto the next page', () => {
+        expect(findStatementRows([
+            [{ text: '11/12/25 SWIGGY 420.00', x: 40 }],
+            [{ text: 'Account No XX1234', x: 90 }, { text: '12/12/25 ZOMATO 250.00', x: 40 }],
+        ])).toEqual(['11/12/25 SWIGGY 420.00', '12/12/25 ZOMATO 250.00']);
+    });
+    it('should read the rows of a PDF statement', async () => {
+        const result = await readPdfLines(buildPdf([statementPage, [[40, 800, '20/12/25 NETFLIX 649.00 1,88,931.00']]]));
+        if ('error' in result)
+            throw new Error(result.error);
+        expect(result.pages).toHaveLength(2);
+        expect(findStatementRows(result.pages)).toEqual([
+            '11/12/25 UPI-SWIGGY-SWIGGY@YBL- 420.00 1,04,580.00 534512345678-PAYMENT',
+            '15/12/25 NEFT CR-ACME PAYROLL 85,000.00 1,89,580.00',
+            '20/12/25 NETFLIX 649.00 1,88,931.00',
+        ]);
+    });
+    it('should report files that are not PDFs', async () => {
+        expect(await readPdfLines(new TextEncoder().encode('Date,Narration,Amount'))).toEqual({ error: 'Not a readable PDF file' });
+    });
+});
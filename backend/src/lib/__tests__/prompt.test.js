@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { validateExtractionResponse, extractWithValidation, MAX_EXTRACTION_ATTEMPTS, buildExtractionPrompt, registerPromptTemplate, resolvePromptVersion, DEFAULT_PROMPT_VERSION, } from '../prompt.js';
+const validReply = {
+    amount: 420,
+    date: '2025-12-11',
+    description: 'STARBUCKS COFFEE MUMBAI',
+    category: 'Food & Dining',
+    direction: 'debit',
+    currency: 'INR',
+    fieldConfidence: { amount: 1, date: 1, description: 0.9, category: 0.8 },
+    reasoning: 'Coffee shop transaction',
+};
+describe('Extraction Response Validation', () => {
+    it('should accept bare JSON and fenced JSON', () => {
+        const bare = validateExtractionResponse(JSON.stringify(validReply));
+        const fenced = validateExtractionResponse('```json\n' + JSON.stringify(validReply) + '\n```');
+        expect(bare.valid).toBe(true);
+        expect(fenced.valid).toBe(true);
+    });
+    it('should normalize negative amounts and lowercase currency codes', () => {
+        const result = validateExtractionResponse(JSON.stringify({ ...validReply, amount: -420, currency: 'usd' }));
+        expect(result.valid && result.value.amount).toBe(420);
+        expect(result.valid && result.value.currency).toBe('USD');
+    });
+    it('should reject JSON embedded in prose', () => {
+        const result = validateExtractionResponse(`Here you go: ${JSON.stringify(validReply)}`);
+        expect(result).toEqual({ valid: false, errors: ['Response is not valid JSON'] });
+    });
+    it('should report every schema violation', () => {
+        const result = validateExtractionResponse(JSON.stringify({
+            ...validReply,
+            amount: '420',
+            date: '11/12/2025',
+            category: 'Coffee',
+            fieldConfidence: undefined,
+        }));
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.errors).toHaveLength(4);
+            expect(result.errors.join(' ')).toContain('"category" must be one of');
+        }
+    });
+    it('should derive overall confidence from field scores', () => {
+        const result = validateExtractionResponse(JSON.stringify(validReply));
+        expect(result.valid && result.value.fieldConfidence).toEqual(validReply.fieldConfidence);
+        expect(result.valid && result.value.confidence).toBe(0.94); // 0.3 + 0.3 + 0.18 + 0.16
+    });
+    it('should require a score for every field', () => {
+        const result = validateExtractionResponse(JSON.stringify({ ...validReply, fieldConfidence: { amount: 1, date: 1, description: 1 } }));
+        expect(result).toEqual({
+            valid: false,
+            errors: ['"fieldConfidence.category" must be a number between 0 and 1'],
+        });
+    });
+    it('should accept replies with or without references', () => {
+        const withReferences = validateExtractionResponse(JSON.stringify({ ...validReply, references: { upiRef: '534512345678', vpa: null } }));
+        const invalid = validateExtractionResponse(JSON.stringify({ ...validReply, references: { utr: 123 } }));
+        expect(withReferences.valid && withReferences.value.references).toEqual({ upiRef: '534512345678', vpa: null });
+        expect(validateExtractionResponse(JSON.stringify(validReply)).valid).toBe(true);
+        expect(invalid).toEqual({ valid: false, errors: ['"references.utr" must be a string or null'] });
+    });
+    it('should reject impossible dates', () => {
+        const result = validateExtractionResponse(JSON.stringify({ ...validReply, date: '2025-02-30' }));
+        expect(result.valid).toBe(false);
+    });
+});
+describe('Validated Extraction', () => {
+    it('should re-prompt until the reply is valid', async () => {
+        const replies = ['not json', JSON.stringify(validReply)];
+        const conversations = [];
+        const extracted = await extractWithValidation('Starbucks ₹420.00', async (messages) => {
+            conversations.push([...messages]);
+            return replies.shift();
+        });
+        expect(conversations).toHaveLength(2);
+        expect(conversations[1][1]).toEqual({ role: 'assistant', content: 'not json' });
+        expect(conversations[1][2].content).toContain('Response is not valid JSON');
+        expect(extracted.confidence).toBe(0.94);
+        expect(extracted.rawOutput).toBe(JSON.stringify(validReply));
+    });
+    it('should return zero confidence once attempts are exhausted', async () => {
+        let calls = 0;
+        const extracted = await extractWithValidation('Starbucks ₹420.00', async () => {
+            calls++;
+            return JSON.stringify({ ...validReply, fieldConfidence: { ...validReply.fieldConfidence, date: 5 } });
+        });
+        expect(calls).toBe(MAX_EXTRACTION_ATTEMPTS);
+        expect(extracted.confidence).toBe(0);
+        expect(extracted.amount).toBeNull();
+        expect(extracted.fieldConfidence.date).toBe(0);
+        expect(extracted.reasoning).toContain('"fieldConfidence.date" must be a number between 0 and 1');
+    });
+});
+describe('Prompt Templates', () => {
+    afterEach(() => {
+        delete process.env.EXTRACTION_PROMPT_VERSION;
+    });
+    it('should pick the organization version, then the environment, then the default', () => {
+        registerPromptTemplate({ version: 'test-candidate', description: 'Candidate', build: (text) => `Parse: ${text}` });
+        expect(resolvePromptVersion()).toBe(DEFAULT_PROMPT_VERSION);
+        process.env.EXTRACTION_PROMPT_VERSION = 'test-candidate';
+        expect(resolvePromptVersion()).toBe('test-candidate');
+        expect(resolvePromptVersion(DEFAULT_PROMPT_VERSION)).toBe(DEFAULT_PROMPT_VERSION);
+        expect(resolvePromptVersion('v0')).toBe('test-candidate');
+    });
+    it('should build the prompt from the selected template', () => {
+        registerPromptTemplate({ version: 'test-candidate', description: 'Candidate', build: (text) => `Parse: ${text}` });
+        expect(buildExtractionPrompt('Starbucks ₹420.00', { promptVersion: 'test-candidate' })).toBe('Parse: Starbucks ₹420.00');
+        expect(buildExtractionPrompt('Starbucks ₹420.00')).toContain('Bank Statement Text:\nStarbucks ₹420.00');
+    });
+    it('should add organization instructions only when set', () => {
+        const prompt = buildExtractionPrompt('Starbucks ₹420.00', { instructions: 'Treat coffee as Office Supplies.' });
+        expect(prompt).toContain('Additional instructions from this organization');
+        expect(prompt).toContain('Treat coffee as Office Supplies.');
+        expect(prompt.indexOf('Treat coffee')).toBeLessThan(prompt.indexOf('Return ONLY valid JSON'));
+        expect(buildExtractionPrompt('Starbucks ₹420.00')).not.toContain('Additional instructions');
+    });
+    it('should keep earlier versions unchanged', () => {
+        const context = { instructions: 'Treat coffee as Office Supplies.' };
+        expect(buildExtractionPrompt('Starbucks ₹420.00', { ...context, promptVersion: 'v6' })).not.toContain('Treat coffee');
+        expect(buildExtractionPrompt('Starbucks ₹420.00', { ...context, promptVersion: 'v7' })).toContain('Treat coffee');
+        expect(buildExtractionPrompt('Starbucks ₹420.00', { promptVersion: 'v6' })).toBe(buildExtractionPrompt('Starbucks ₹420.00', { promptVersion: 'v7' }));
+    });
+    it('should describe each category from v8', () => {
+        const prompt = buildExtractionPrompt('Salary credited ₹85,000.00', { promptVersion: 'v8' });
+        expect(prompt).toContain('- Income: salary, refunds, deposits, credits');
+        expect(prompt).toContain("- Other: anything that doesn't fit above");
+        expect(prompt).toContain('- Food & Dining: restaurants, cafes, coffee shops, food delivery; keywords: restaurant, food');
+        expect(buildExtractionPrompt('Salary credited ₹85,000.00', { promptVersion: 'v7' })).not.toContain('salary, refunds');
+    });
+});
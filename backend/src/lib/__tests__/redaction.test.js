@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { maskParsedTransaction, maskText, parseRedactionRules, redactExamples, redactText, restoreParsedTransaction, restoreText, } from '../redaction.js';
+import { parseTransactionTextWithRegex } from '../regex-parser.js';
+describe('PII Redaction', () => {
+    it('should mask card numbers that pass the checksum', () => {
+        const { text, tokens } = redactText('Card 4111 1111 1111 1111 used at CHAAYOS ₹180.00');
+        expect(text).toBe('Card [CARD_1] used at CHAAYOS ₹180.00');
+        expect(tokens).toEqual({ '[CARD_1]': '4111 1111 1111 1111' });
+        expect(redactText('Ref 1234567812345678 ₹180.00').text).toBe('Ref 1234567812345678 ₹180.00');
+    });
+    it('should mask full account numbers but keep masked ones', () => {
+        expect(redactText('NEFT credit to A/c No. 50100123456789 Rs 500').text).toBe('NEFT credit to A/c No. [ACCOUNT_1] Rs 500');
+        expect(redactText('Interest credited to A/c XX1234 Rs. 312.50').text).toBe('Interest credited to A/c XX1234 Rs. 312.50');
+    });
+    it('should mask phone numbers and emails but not payment references', () => {
+        expect(redactText('Paid to 9876543210@ybl ₹99, call +91 98765 43210').text).toBe('Paid to [PHONE_1]@ybl ₹99, call [PHONE_2]');
+        expect(redactText('Receipt sent to rahul.s@gmail.com ₹99').text).toBe('Receipt sent to [EMAIL_1] ₹99');
+        expect(redactText('UPI/SWIGGY/934512345678 Rs.420.00 11/12/2025').text).toBe('UPI/SWIGGY/934512345678 Rs.420.00 11/12/2025');
+    });
+    it('should mask transfer counterparties but not merchants', () => {
+        expect(redactText('NEFT to RAHUL SHARMA ₹25,000.00 15 Dec 2025').text).toBe('NEFT to [NAME_1] ₹25,000.00 15 Dec 2025');
+        expect(redactText('IMPS transfer to priya@okicici Rs.1,500').text).toBe('IMPS transfer to [NAME_1] Rs.1,500');
+        expect(redactText('Zomato order ₹1,250.50 to Swiggy').text).toBe('Zomato order ₹1,250.50 to Swiggy');
+    });
+    it('should only apply the enabled rules', () => {
+        const text = 'NEFT to RAHUL SHARMA 9876543210 ₹500';
+        expect(redactText(text, ['phone']).text).toBe('NEFT to RAHUL SHARMA [PHONE_1] ₹500');
+        expect(redactText(text, [])).toEqual({ text, tokens: {} });
+    });
+    it('should mask learned examples before they reach a prompt', () => {
+        const [example] = redactExamples([
+            { merchantKey: 'swiggy', category: 'Food & Dining', exampleText: 'SWIGGY A/c 50100123456789 priya@example.com ₹420' },
+        ]);
+        expect(example).toEqual({ merchantKey: 'swiggy', category: 'Food & Dining', exampleText: 'SWIGGY A/c [ACCOUNT_1] [EMAIL_1] ₹420' });
+    });
+    it('should give repeated values the same token and reverse the masking', () => {
+        const original = 'Sent from 9876543210 to 9876543210 and 9123456789';
+        const { text, tokens } = redactText(original);
+        expect(text).toBe('Sent from [PHONE_1] to [PHONE_1] and [PHONE_2]');
+        expect(restoreText(text, tokens)).toBe(original);
+        expect(maskText('Transfer 9123456789', tokens)).toBe('Transfer [PHONE_2]');
+    });
+    it('should restore and mask the description and references of a parsed transaction', () => {
+        const { tokens } = redactText('IMPS transfer to priya@okicici Rs.1,500');
+        const parsed = {
+            ...parseTransactionTextWithRegex('IMPS transfer to priya@okicici Rs.1,500'),
+            description: 'Transfer to priya@okicici',
+        };
+        const masked = maskParsedTransaction(parsed, tokens);
+        expect(masked.description).toBe('Transfer to [NAME_1]');
+        expect(masked.references.vpa).toBe('[NAME_1]');
+        expect(restoreParsedTransaction(masked, tokens)).toEqual(parsed);
+    });
+    it('should validate redaction rules from a request', () => {
+        expect(parseRedactionRules(['card', 'phone', 'card'])).toEqual({ value: ['card', 'phone'] });
+        expect(parseRedactionRules([])).toEqual({ value: [] });
+        expect(parseRedactionRules(['passport'])).toHaveProperty('error');
+        expect(parseRedactionRules('card')).toHaveProperty('error');
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals'
+import { extractReferences, mergeReferences, emptyReferences } from '../references.js'
+
+describe('Payment References', () => {
+  it('should read UPI transaction IDs and VPAs', () => {
+    const references = extractReferences('UPI/SWIGGY/534512345678/Payment swiggy@ybl ₹420.00')
+
+    expect(references.upiRef).toBe('534512345678')
+    expect(references.vpa).toBe('swiggy@ybl')
+    expect(references.utr).toBeNull()
+  })
+
+  it('should read NEFT, RTGS and labelled UTRs', () => {
+    expect(extractReferences('NEFT/SBIN425345678901/ACME CORP 50,000.00 CR').utr).toBe('SBIN425345678901')
+    expect(extractReferences('RTGS HDFCR52025121112345678 ACME 5,00,000.00').utr).toBe('HDFCR52025121112345678')
+    expect(extractReferences('Payment received UTR No: hdfcn52025121112345').utr).toBe('HDFCN52025121112345')
+  })
+
+  it('should treat the IMPS reference as the UTR', () => {
+    const references = extractReferences('IMPS/P2A/534512345678/JOHN DOE ₹1,000.00')
+
+    expect(references.utr).toBe('534512345678')
+    expect(references.upiRef).toBeNull()
+  })
+
+  it('should read cheque numbers and masked accounts', () => {
+    expect(extractReferences('CHQ NO. 123456 CLEARING 5,000.00').chequeNumber).toBe('123456')
+    expect(extractReferences('Sent Rs.420.00 From HDFC Bank A/C *1234 To SWIGGY On 11/12/25 Ref 534512345678')).toEqual({
+      upiRef: '534512345678',
+      vpa: null,
+      utr: null,
+      chequeNumber: null,
+      maskedAccount: '*1234',
+    })
+    expect(extractReferences('POS 4521xxxxxxxx1234 STARBUCKS').maskedAccount).toBe('4521XXXXXXXX1234')
+    expect(extractReferences('Spent on card ending 9876 at AMAZON').maskedAccount).toBe('XX9876')
+  })
+
+  it('should not mistake emails for VPAs', () => {
+    expect(extractReferences('Receipt sent to john.doe@gmail.com').vpa).toBeNull()
+  })
+
+  it('should prefer references parsed from the text over AI output', () => {
+    const parsed = { ...emptyReferences(), upiRef: '534512345678' }
+
+    expect(mergeReferences(parsed, { upiRef: '534512345679', vpa: 'swiggy@ybl' })).toEqual({
+      ...emptyReferences(),
+      upiRef: '534512345678',
+      vpa: 'swiggy@ybl',
+    })
+  })
+})
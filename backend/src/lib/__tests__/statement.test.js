@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { splitStatementText, hashStatementText } from '../statement.js';
+describe('Statement Splitting', () => {
+    it('should split one row per dated line', () => {
+        const text = [
+            '01/12/2025 UPI/SWIGGY/123456 ₹420.00',
+            '02/12/2025 AMAZON PAY INDIA ₹1,299.00',
+            '03/12/2025 SALARY CREDIT ₹85,000.00',
+        ].join('\n');
+        const rows = splitStatementText(text);
+        expect(rows).toHaveLength(3);
+        expect(rows[1]).toBe('02/12/2025 AMAZON PAY INDIA ₹1,299.00');
+    });
+    it('should join wrapped narrations with the previous row', () => {
+        const text = [
+            '01 Dec 2025 NEFT TRANSFER TO',
+            'RAJESH KUMAR HDFC0001234',
+            '₹15,000.00',
+            '02 Dec 2025 UBER INDIA ₹350.00',
+        ].join('\n');
+        const rows = splitStatementText(text);
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toBe('01 Dec 2025 NEFT TRANSFER TO\nRAJESH KUMAR HDFC0001234\n₹15,000.00');
+    });
+    it('should keep undated leading lines with the first row', () => {
+        const text = 'Transfer to Rajesh Kumar\nUPI Payment\n12/15/2024\n₹1500.00';
+        const rows = splitStatementText(text);
+        expect(rows).toEqual([text]);
+    });
+    it('should skip column headers and balance lines', () => {
+        const text = [
+            'Date Narration Withdrawal Deposit Balance',
+            'Opening Balance 10,000.00',
+            '2025-12-01 ZOMATO ORDER 250.00 9,750.00',
+            'Closing Balance 9,750.00',
+        ].join('\n');
+        const rows = splitStatementText(text);
+        expect(rows).toEqual(['2025-12-01 ZOMATO ORDER 250.00 9,750.00']);
+    });
+    it('should treat every line as a row when no dates are present', () => {
+        const rows = splitStatementText('Starbucks ₹420.00\n\nUber ₹350.00\n');
+        expect(rows).toEqual(['Starbucks ₹420.00', 'Uber ₹350.00']);
+    });
+    it('should return no rows for blank text', () => {
+        expect(splitStatementText('  \n\n ')).toEqual([]);
+    });
+});
+describe('Statement Text Hashing', () => {
+    it('should ignore whitespace differences', () => {
+        expect(hashStatementText('  Starbucks\n ₹420.00 ')).toBe(hashStatementText('Starbucks ₹420.00'));
+    });
+    it('should distinguish different text', () => {
+        expect(hashStatementText('Starbucks ₹420.00')).not.toBe(hashStatementText('Starbucks ₹450.00'));
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { addTokenUsage, estimateCost, getFailedCallUsage, getMonthStart, parseUsageRange, summarizeUsage, withFailedCallUsage, } from '../token-usage.js';
+describe('Token Usage', () => {
+    it('should add up usage over calls that report it', () => {
+        const first = addTokenUsage(null, { inputTokens: 900, outputTokens: 120 });
+        expect(addTokenUsage(first, { inputTokens: 1100, outputTokens: 80 })).toEqual({ inputTokens: 2000, outputTokens: 200 });
+        expect(addTokenUsage(first, null)).toBe(first);
+        expect(addTokenUsage(null, null)).toBeNull();
+    });
+    it('should carry the usage of calls made before a provider error', () => {
+        const error = withFailedCallUsage(new Error('Request timed out'), 'gpt-4o', { inputTokens: 800, outputTokens: 50 });
+        expect(error).toBeInstanceOf(Error);
+        expect(getFailedCallUsage(error)).toEqual({ modelId: 'gpt-4o', usage: { inputTokens: 800, outputTokens: 50 } });
+        expect(getFailedCallUsage(withFailedCallUsage(new Error('Unauthorized'), 'gpt-4o', null))).toBeNull();
+        expect(getFailedCallUsage('not an error')).toBeNull();
+    });
+    it('should estimate cost from list prices', () => {
+        const usage = { inputTokens: 1_000_000, outputTokens: 100_000 };
+        expect(estimateCost('global.anthropic.claude-sonnet-4-5-20250929-v1:0', usage)).toBeCloseTo(4.5);
+        expect(estimateCost('gpt-4o-mini', usage)).toBeCloseTo(0.21);
+        expect(estimateCost('llama3.1', usage)).toBeNull();
+        expect(estimateCost('gpt-4o', null)).toBeNull();
+    });
+    it('should total usage by day, month and model', () => {
+        const row = (day, modelId, inputTokens) => ({
+            day: new Date(day),
+            extractor: 'bedrock',
+            modelId,
+            requests: 1,
+            inputTokens,
+            outputTokens: 10,
+            costUsd: 0.01,
+        });
+        const summary = summarizeUsage([
+            row('2025-12-01', 'model-a', 100),
+            row('2025-11-30', 'model-a', 200),
+            row('2025-12-01', 'model-b', 300),
+        ]);
+        expect(summary.total).toMatchObject({ requests: 3, inputTokens: 600, outputTokens: 30 });
+        expect(summary.daily.map((day) => [day.date, day.inputTokens])).toEqual([['2025-11-30', 200], ['2025-12-01', 400]]);
+        expect(summary.monthly.map((month) => [month.month, month.requests])).toEqual([['2025-11', 1], ['2025-12', 2]]);
+        expect(summary.byModel.map((model) => [model.modelId, model.inputTokens])).toEqual([['model-a', 300], ['model-b', 300]]);
+    });
+    it('should reset quotas at the start of the UTC month', () => {
+        const now = new Date('2025-12-15T10:00:00Z');
+        expect(getMonthStart(now).toISOString()).toBe('2025-12-01T00:00:00.000Z');
+        expect(getMonthStart(now, 11).toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+    it('should validate usage ranges and default to the last 12 months', () => {
+        const now = new Date('2025-12-15T10:00:00Z');
+        expect(parseUsageRange({}, now)).toEqual({
+            value: { from: new Date('2025-01-01'), to: new Date('2025-12-15') },
+        });
+        expect(parseUsageRange({ from: '2025-12-01', to: '2025-12-31' }, now)).toEqual({
+            value: { from: new Date('2025-12-01'), to: new Date('2025-12-31') },
+        });
+        expect(parseUsageRange({ from: '2025-02-30' }, now)).toHaveProperty('error');
+        expect(parseUsageRange({ from: '2025-12-31', to: '2025-12-01' }, now)).toHaveProperty('error');
+    });
+});
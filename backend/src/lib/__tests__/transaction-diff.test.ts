@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals'
+import { diffTransactionFields, parseAcceptedFields, pickAcceptedChanges, REEXTRACT_FIELDS } from '../transaction-diff.js'
+import { emptyReferences } from '../references.js'
+
+describe('Transaction Diff', () => {
+  const saved = {
+    amount: 1250,
+    date: new Date('2025-12-15'),
+    description: 'ZOMATO ORDER',
+    category: 'Other',
+    direction: 'debit',
+    currency: 'INR',
+    ...emptyReferences(),
+  }
+
+  it('should list only the fields that changed', () => {
+    const changes = diffTransactionFields(saved, {
+      ...saved,
+      date: new Date('2025-12-15'),
+      category: 'Food & Dining',
+      upiRef: '534512345678',
+    })
+
+    expect(changes).toEqual([
+      { field: 'category', current: 'Other', proposed: 'Food & Dining' },
+      { field: 'upiRef', current: null, proposed: '534512345678' },
+    ])
+    expect(diffTransactionFields(saved, { ...saved })).toEqual([])
+  })
+
+  it('should pick the proposed values of accepted changes', () => {
+    const changes = diffTransactionFields(saved, { ...saved, amount: 1250.5, category: 'Food & Dining' })
+
+    expect(pickAcceptedChanges(changes, ['category', 'description'])).toEqual({ category: 'Food & Dining' })
+    expect(pickAcceptedChanges(changes, [])).toEqual({})
+  })
+
+  it('should validate accepted fields from a request', () => {
+    expect(parseAcceptedFields('all')).toEqual({ value: [...REEXTRACT_FIELDS] })
+    expect(parseAcceptedFields(['category', 'amount', 'category'])).toEqual({ value: ['category', 'amount'] })
+    expect(parseAcceptedFields(['confidence'])).toHaveProperty('error')
+    expect(parseAcceptedFields('category')).toHaveProperty('error')
+  })
+})
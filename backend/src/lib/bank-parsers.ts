@@ -0,0 +1,208 @@
+import type { ExtractionContext, ParsedTransaction, TransactionDirection } from './extractor.js'
+import { categorizeText } from './category-taxonomy.js'
+import { DEFAULT_CURRENCY } from './currency.js'
+import { overallConfidence } from './confidence.js'
+import type { FieldConfidence } from './confidence.js'
+import { findMerchantCategory } from './merchant-mapping.js'
+import { extractReferences } from './references.js'
+import { buildDate, parseMonthName } from './dates.js'
+import type { DateFormat } from './dates.js'
+
+// Template matches have a known layout, so amount, date and description are read
+// from fixed positions; only the keyword-based category can be uncertain
+// (categories learned from the organization's corrections score 1)
+export const TEMPLATE_FIELD_CONFIDENCE: FieldConfidence = {
+  amount: 1,
+  date: 1,
+  description: 1,
+  category: 0.75,
+}
+
+// Building blocks shared by the templates below
+const AMOUNT = '(?<amount>\\d{1,3}(?:,\\d{2,3})*(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)'
+const BALANCE = '\\d{1,3}(?:,\\d{2,3})*\\.\\d{2}|\\d+\\.\\d{2}'
+const RUPEES = '(?:Rs\\.?|INR|₹)\\s?'
+const ACCOUNT = '[*Xx]*\\d{3,6}'
+
+type TemplateGroups = Record<string, string | undefined>
+
+/**
+ * A single line layout used by a bank in statements or alerts
+ * Patterns must capture named groups "amount", "date" and "description"
+ */
+export interface StatementTemplate {
+  name: string
+  pattern: RegExp
+  direction: (groups: TemplateGroups) => TransactionDirection
+}
+
+export interface BankParser {
+  bank: string
+  dateFormat?: DateFormat // Order of numeric dates in this bank's lines, defaults to DMY
+  templates: StatementTemplate[]
+}
+
+export interface BankParseResult {
+  bank: string
+  template: string
+  transaction: ParsedTransaction
+}
+
+const debit = () => 'debit' as const
+const credit = () => 'credit' as const
+// "Cr", "CR" or "BY" (SBI) mark money coming in
+const fromMarker = (groups: TemplateGroups): TransactionDirection =>
+  /^(cr|by)$/i.test(groups.marker || '') ? 'credit' : 'debit'
+
+const hdfcParser: BankParser = {
+  bank: 'HDFC',
+  templates: [
+    {
+      // Sent Rs.420.00 From HDFC Bank A/C *1234 To SWIGGY On 11/12/25 Ref 534512345678
+      name: 'UPI debit alert',
+      pattern: new RegExp(`^Sent ${RUPEES}${AMOUNT} From HDFC Bank A/C ${ACCOUNT} To (?<description>.+?) On (?<date>\\d{2}/\\d{2}/\\d{2,4})(?: Ref \\d+)?\\.?$`, 'i'),
+      direction: debit,
+    },
+    {
+      // Credit Alert! Rs.5000.00 credited to HDFC Bank A/c XX1234 on 11-12-25 from VPA john@okhdfc (UPI 534512345678)
+      name: 'credit alert',
+      pattern: new RegExp(`^(?:Credit Alert!\\s*)?${RUPEES}${AMOUNT} credited to HDFC Bank A/c ${ACCOUNT} on (?<date>\\d{2}-\\d{2}-\\d{2,4}) (?:from|by) (?:VPA )?(?<description>.+?)(?: \\(UPI \\d+\\))?\\.?$`, 'i'),
+      direction: credit,
+    },
+  ],
+}
+
+const iciciParser: BankParser = {
+  bank: 'ICICI',
+  templates: [
+    {
+      // ICICI Bank Acct XX123 debited for Rs 420.00 on 11-Dec-25; SWIGGY credited. UPI:534512345678
+      name: 'debit alert',
+      pattern: new RegExp(`^ICICI Bank Acct ${ACCOUNT} debited (?:for|with) ${RUPEES}${AMOUNT} on (?<date>\\d{2}-[A-Za-z]{3}-\\d{2,4}); (?<description>.+?) credited\\.(?: UPI:\\s?\\d+.*)?$`, 'i'),
+      direction: debit,
+    },
+    {
+      // Dear Customer, Acct XX123 is credited with Rs 5000.00 on 11-Dec-25 from JOHN DOE. UPI:534512345678-ICICI Bank.
+      name: 'credit alert',
+      pattern: new RegExp(`^(?:Dear Customer, )?(?:ICICI Bank )?Acct ${ACCOUNT} is credited with ${RUPEES}${AMOUNT} on (?<date>\\d{2}-[A-Za-z]{3}-\\d{2,4}) from (?<description>.+?)\\. .*ICICI Bank\\.?$`, 'i'),
+      direction: credit,
+    },
+  ],
+}
+
+const sbiParser: BankParser = {
+  bank: 'SBI',
+  templates: [
+    {
+      // 11 Dec 2025 11 Dec 2025 TO TRANSFER-UPI/DR/534512345678/SWIGGY/YESB/swiggy@yb 420.00 25,430.50
+      // Narrations start with "BY" for credits and "TO" for debits
+      name: 'statement row',
+      pattern: new RegExp(`^(?<date>\\d{1,2} [A-Za-z]{3} \\d{4}) \\d{1,2} [A-Za-z]{3} \\d{4} (?<marker>BY|TO) (?<description>.+?) ${AMOUNT} (?:${BALANCE})$`),
+      direction: fromMarker,
+    },
+  ],
+}
+
+const kotakParser: BankParser = {
+  bank: 'Kotak',
+  templates: [
+    {
+      // 11-12-2025 UPI/SWIGGY/534512345678/Payment 420.00(Dr) 25,430.50(Cr)
+      name: 'statement row',
+      pattern: new RegExp(`^(?<date>\\d{2}-\\d{2}-\\d{4}) (?<description>.+?) ${AMOUNT}\\((?<marker>Dr|Cr)\\) (?:${BALANCE})\\((?:Dr|Cr)\\)$`),
+      direction: fromMarker,
+    },
+  ],
+}
+
+const axisParser: BankParser = {
+  bank: 'Axis',
+  templates: [
+    {
+      // 11-12-2025 UPI/P2M/534512345678/SWIGGY 420.00 DR 25,430.50
+      name: 'statement row',
+      pattern: new RegExp(`^(?<date>\\d{2}-\\d{2}-\\d{4}) (?<description>.+?) ${AMOUNT} (?<marker>DR|CR) (?:${BALANCE})$`),
+      direction: fromMarker,
+    },
+  ],
+}
+
+// Checked in order; the first matching template wins
+const bankParsers: BankParser[] = [hdfcParser, iciciParser, sbiParser, kotakParser, axisParser]
+
+/**
+ * Register an additional bank parser (checked after the built-in ones)
+ */
+export function registerBankParser(parser: BankParser) {
+  bankParsers.push(parser)
+}
+
+/**
+ * Parse the dates used in bank statements and alerts
+ * Supports 11/12/25, 11-12-2025, 11-Dec-25 and 11 Dec 2025; numeric dates are
+ * read in the bank's order (12/11/25 for MDY banks)
+ */
+export function parseStatementDate(raw: string, dateFormat: DateFormat = 'DMY'): Date | null {
+  const match = raw.match(/^(\d{1,2})[\/\- ]([A-Za-z]{3}|\d{1,2})[\/\- ](\d{2}|\d{4})$/)
+  if (!match) {
+    return null
+  }
+
+  const first = Number(match[1])
+  const year = Number(match[3])
+  if (!/^\d+$/.test(match[2])) {
+    return buildDate(year, parseMonthName(match[2]), first)
+  }
+
+  const second = Number(match[2])
+  // Rejects rollovers such as 31/02 becoming 3 March
+  return dateFormat === 'MDY' ? buildDate(year, first, second) : buildDate(year, second, first)
+}
+
+/**
+ * Parse a statement line with a known bank layout
+ * Returns null when no template matches so the caller can use an AI provider instead
+ */
+export function parseWithBankTemplates(
+  text: string,
+  context: ExtractionContext = {}
+): BankParseResult | null {
+  // Pasted lines often wrap, so compare on collapsed whitespace
+  const line = text.replace(/\s+/g, ' ').trim()
+
+  for (const parser of bankParsers) {
+    for (const template of parser.templates) {
+      const groups = line.match(template.pattern)?.groups
+      if (!groups?.amount || !groups.date || !groups.description) continue
+
+      const date = parseStatementDate(groups.date, parser.dateFormat)
+      if (!date) continue
+
+      const description = groups.description.trim().substring(0, 255)
+      const learned = findMerchantCategory(description, context.merchantCategories || [])
+      const category = learned || categorizeText(description, context.categories)
+      const fieldConfidence = {
+        ...TEMPLATE_FIELD_CONFIDENCE,
+        category: learned ? 1 : category ? TEMPLATE_FIELD_CONFIDENCE.category : 0,
+      }
+
+      return {
+        bank: parser.bank,
+        template: template.name,
+        transaction: {
+          amount: parseFloat(groups.amount.replace(/,/g, '')),
+          date,
+          description,
+          category,
+          direction: template.direction(groups),
+          currency: DEFAULT_CURRENCY,
+          confidence: overallConfidence(fieldConfidence),
+          fieldConfidence,
+          references: extractReferences(line),
+        },
+      }
+    }
+  }
+
+  return null
+}
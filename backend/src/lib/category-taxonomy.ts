@@ -0,0 +1,202 @@
+/**
+ * A transaction category in an organization's taxonomy
+ */
+export interface CategoryDefinition {
+  name: string
+  parent: string | null // Name of the parent category, null for top-level categories
+  color: string // Hex color, e.g. "#ea580c"
+  keywords: string[] // Lowercase words that identify the category in statement text
+  description: string | null // What the category covers, in words, for the AI prompt
+}
+
+/**
+ * Taxonomy new organizations start with, and the one used when no organization is known
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    name: 'Food & Dining',
+    parent: null,
+    color: '#ea580c',
+    keywords: ['restaurant', 'food', 'coffee', 'cafe', 'pizza', 'burger', 'dining', 'lunch', 'dinner', 'breakfast', 'swiggy', 'zomato', 'starbucks', 'mcdonald', 'kfc', 'domino', 'subway'],
+    description: 'restaurants, cafes, coffee shops, food delivery',
+  },
+  {
+    name: 'Shopping',
+    parent: null,
+    color: '#2563eb',
+    keywords: ['amazon', 'flipkart', 'myntra', 'walmart', 'target', 'store', 'shop', 'retail', 'purchase', 'mall', 'market', 'reliance', 'dmart'],
+    description: 'retail stores, online shopping, groceries',
+  },
+  {
+    name: 'Transportation',
+    parent: null,
+    color: '#9333ea',
+    keywords: ['uber', 'ola', 'rapido', 'lyft', 'gas', 'fuel', 'parking', 'transit', 'taxi', 'train', 'bus', 'metro', 'petrol', 'diesel'],
+    description: 'fuel, parking, ride-sharing, public transit',
+  },
+  {
+    name: 'Entertainment',
+    parent: null,
+    color: '#db2777',
+    keywords: ['movie', 'theater', 'netflix', 'hotstar', 'prime', 'spotify', 'game', 'concert', 'ticket', 'bookmyshow', 'pvr', 'inox'],
+    description: 'movies, streaming, games, events',
+  },
+  {
+    name: 'Utilities',
+    parent: null,
+    color: '#4b5563',
+    keywords: ['electric', 'electricity', 'water', 'internet', 'phone', 'utility', 'bill', 'airtel', 'jio', 'bsnl', 'vodafone', 'mseb', 'bescom'],
+    description: 'electricity, water, internet, phone bills',
+  },
+  {
+    name: 'Healthcare',
+    parent: null,
+    color: '#dc2626',
+    keywords: ['pharmacy', 'doctor', 'medical', 'hospital', 'health', 'dental', 'apollo', 'fortis', 'medplus', 'clinic'],
+    description: 'pharmacies, hospitals, medical services',
+  },
+  {
+    name: 'Transfer',
+    parent: null,
+    color: '#4f46e5',
+    keywords: ['transfer', 'payment', 'upi', 'neft', 'imps', 'rtgs', 'paytm', 'phonepe', 'gpay', 'googlepay', 'venmo', 'paypal', 'zelle', 'cashapp'],
+    description: 'peer-to-peer payments, bank transfers',
+  },
+  { name: 'Income', parent: null, color: '#16a34a', keywords: [], description: 'salary, refunds, deposits, credits' },
+  { name: 'Other', parent: null, color: '#6b7280', keywords: [], description: "anything that doesn't fit above" },
+]
+
+/**
+ * Names of the categories in a taxonomy
+ */
+export function getCategoryNames(categories: CategoryDefinition[] = DEFAULT_CATEGORIES): string[] {
+  return categories.map((category) => category.name)
+}
+
+/**
+ * Pick a category from keywords in the text, or null if nothing matches
+ * Subcategories are checked before top-level categories so the most specific one wins
+ */
+export function categorizeText(
+  text: string,
+  categories: CategoryDefinition[] = DEFAULT_CATEGORIES
+): string | null {
+  const lowerText = text.toLowerCase()
+  const ordered = [
+    ...categories.filter((category) => category.parent),
+    ...categories.filter((category) => !category.parent),
+  ]
+
+  for (const category of ordered) {
+    if (category.keywords.some((keyword) => lowerText.includes(keyword))) {
+      return category.name
+    }
+  }
+  return null
+}
+
+/**
+ * One guideline line per category for the extraction prompt
+ * With descriptions set, each line says what the category covers before its keywords
+ */
+export function formatCategoryGuidelines(
+  categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+  options: { descriptions?: boolean } = {}
+): string {
+  return categories
+    .map((category) => {
+      const name = category.parent ? `${category.name} (part of ${category.parent})` : category.name
+      const keywords = category.keywords.join(', ')
+      const guidance = options.descriptions
+        ? [category.description, keywords && `keywords: ${keywords}`].filter(Boolean).join('; ')
+        : keywords
+      return guidance ? `- ${name}: ${guidance}` : `- ${name}`
+    })
+    .join('\n')
+}
+
+export interface CategoryInput {
+  name?: string
+  parent?: string | null
+  color?: string
+  keywords?: string[]
+  description?: string | null
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const DEFAULT_COLOR = '#6b7280'
+const MAX_DESCRIPTION_LENGTH = 200
+
+/**
+ * Validate a category from a request body against the organization's taxonomy
+ * New categories default to gray with no keywords or description; with partial set (updates),
+ * omitted fields are left out of the result. current is the name being updated.
+ */
+export function parseCategoryInput(
+  body: Record<string, unknown>,
+  existing: CategoryDefinition[],
+  options: { partial?: boolean; current?: string } = {}
+): { category: CategoryInput } | { error: string } {
+  const category: CategoryInput = {}
+  const { name, parent, color, keywords, description } = body
+  const others = existing.filter((entry) => entry.name !== options.current)
+
+  if (name !== undefined || !options.partial) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 50) {
+      return { error: 'name must be a non-empty string of at most 50 characters' }
+    }
+    if (others.some((entry) => entry.name.toLowerCase() === name.trim().toLowerCase())) {
+      return { error: 'A category with this name already exists' }
+    }
+    category.name = name.trim()
+  }
+
+  if (parent !== undefined && parent !== null) {
+    if (typeof parent !== 'string') {
+      return { error: 'parent must be a category name or null' }
+    }
+    const parentCategory = others.find((entry) => entry.name === parent)
+    if (!parentCategory) {
+      return { error: 'Parent category not found' }
+    }
+    // Only two levels: a parent cannot itself be a subcategory or have a parent of its own
+    if (parentCategory.parent) {
+      return { error: 'Subcategories cannot have subcategories' }
+    }
+    if (options.current && existing.some((entry) => entry.parent === options.current)) {
+      return { error: 'A category with subcategories cannot become a subcategory' }
+    }
+    category.parent = parent
+  } else if (parent === null || !options.partial) {
+    category.parent = null
+  }
+
+  if (color !== undefined) {
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+      return { error: 'color must be a hex color such as #ea580c' }
+    }
+    category.color = color.toLowerCase()
+  } else if (!options.partial) {
+    category.color = DEFAULT_COLOR
+  }
+
+  if (keywords !== undefined) {
+    if (!Array.isArray(keywords) || !keywords.every((keyword) => typeof keyword === 'string')) {
+      return { error: 'keywords must be an array of strings' }
+    }
+    category.keywords = [...new Set(keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean))]
+  } else if (!options.partial) {
+    category.keywords = []
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string' || description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` }
+    }
+    category.description = description.trim() || null
+  } else if (description === null || !options.partial) {
+    category.description = null
+  }
+
+  return { category }
+}
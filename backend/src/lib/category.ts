@@ -0,0 +1,148 @@
+import { prisma } from './db.js'
+import { DEFAULT_CATEGORIES } from './category-taxonomy.js'
+import type { CategoryDefinition, CategoryInput } from './category-taxonomy.js'
+
+const categoryInclude = {
+  parent: { select: { name: true } },
+}
+
+type CategoryRecord = {
+  name: string
+  color: string
+  keywords: string[]
+  description: string | null
+  parent: { name: string } | null
+}
+
+function toCategoryDefinition(category: CategoryRecord): CategoryDefinition {
+  return {
+    name: category.name,
+    parent: category.parent?.name || null,
+    color: category.color,
+    keywords: category.keywords,
+    description: category.description,
+  }
+}
+
+/**
+ * Get an organization's categories, parents before their subcategories
+ */
+export async function getCategoryRecords(organizationId: string) {
+  return await prisma.category.findMany({
+    where: { organizationId },
+    include: categoryInclude,
+    orderBy: [{ parentId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+  })
+}
+
+/**
+ * Get the taxonomy extraction is constrained to
+ * Falls back to the default categories for organizations that have none
+ */
+export async function getCategories(organizationId: string): Promise<CategoryDefinition[]> {
+  const categories = await getCategoryRecords(organizationId)
+  return categories.length > 0 ? categories.map(toCategoryDefinition) : DEFAULT_CATEGORIES
+}
+
+/**
+ * Get a category by ID (with organization check)
+ */
+export async function getCategoryById(id: string, organizationId: string) {
+  return await prisma.category.findFirst({
+    where: { id, organizationId },
+    include: categoryInclude,
+  })
+}
+
+async function findParentId(organizationId: string, parent: string | null | undefined) {
+  if (parent === undefined) {
+    return undefined
+  }
+  if (parent === null) {
+    return null
+  }
+  const category = await prisma.category.findUnique({
+    where: { organizationId_name: { organizationId, name: parent } },
+  })
+  return category?.id || null
+}
+
+/**
+ * Add a category to an organization's taxonomy
+ */
+export async function createCategory(organizationId: string, input: CategoryInput) {
+  return await prisma.category.create({
+    data: {
+      organizationId,
+      name: input.name!,
+      parentId: await findParentId(organizationId, input.parent),
+      color: input.color!,
+      keywords: input.keywords || [],
+      description: input.description ?? null,
+    },
+    include: categoryInclude,
+  })
+}
+
+/**
+ * Update a category
+ * Renaming also renames it on the organization's transactions and learned merchant mappings
+ */
+export async function updateCategory(params: {
+  organizationId: string
+  id: string
+  currentName: string
+  input: CategoryInput
+}) {
+  const { organizationId, id, currentName, input } = params
+  const renamed = input.name !== undefined && input.name !== currentName
+
+  const [category] = await prisma.$transaction([
+    prisma.category.update({
+      where: { id },
+      data: {
+        name: input.name,
+        parentId: await findParentId(organizationId, input.parent),
+        color: input.color,
+        keywords: input.keywords,
+        description: input.description,
+      },
+      include: categoryInclude,
+    }),
+    ...(renamed
+      ? [
+          prisma.transaction.updateMany({
+            where: { organizationId, category: currentName },
+            data: { category: input.name },
+          }),
+          prisma.merchantCategory.updateMany({
+            where: { organizationId, category: currentName },
+            data: { category: input.name },
+          }),
+        ]
+      : []),
+  ])
+
+  return category
+}
+
+/**
+ * Delete a category and the merchant mappings that point to it
+ * Transactions keep the old category name until they are corrected
+ */
+export async function deleteCategory(params: { organizationId: string; id: string; name: string }) {
+  const { organizationId, id, name } = params
+
+  await prisma.$transaction([
+    prisma.merchantCategory.deleteMany({ where: { organizationId, category: name } }),
+    prisma.category.delete({ where: { id } }),
+  ])
+}
+
+/**
+ * Whether a category has subcategories (which must be deleted or moved first)
+ */
+export async function hasSubcategories(id: string): Promise<boolean> {
+  const count = await prisma.category.count({ where: { parentId: id } })
+  return count > 0
+}
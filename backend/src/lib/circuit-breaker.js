@@ -0,0 +1,99 @@
+/**
+ * Stop calling a failing dependency for a while
+ * After failureThreshold consecutive failures the circuit opens and calls fail
+ * fast without reaching the dependency. Once resetTimeoutMs has passed one trial
+ * call is let through (half open): success closes the circuit, failure reopens it.
+ */
+export function createCircuitBreaker(config) {
+    const { name, failureThreshold, resetTimeoutMs, now = Date.now } = config;
+    let state = 'closed';
+    let consecutiveFailures = 0;
+    let openedAt = null;
+    let trialInFlight = false;
+    let counters = { successes: 0, failures: 0, rejected: 0, retries: 0 };
+    let lastError = null;
+    const transition = (next) => {
+        if (next !== state) {
+            console.warn(`Circuit ${name}: ${state} -> ${next}`);
+            state = next;
+        }
+    };
+    return {
+        async execute(operation) {
+            if (state === 'open' && openedAt !== null && now() - openedAt >= resetTimeoutMs) {
+                transition('half_open');
+            }
+            // Only one trial call at a time while half open
+            if (state === 'open' || (state === 'half_open' && trialInFlight)) {
+                counters.rejected++;
+                throw new Error(`${name} is unavailable (circuit open)`);
+            }
+            const trial = state === 'half_open';
+            trialInFlight = trial;
+            try {
+                const result = await operation();
+                counters.successes++;
+                consecutiveFailures = 0;
+                transition('closed');
+                return result;
+            }
+            catch (error) {
+                counters.failures++;
+                consecutiveFailures++;
+                lastError = error instanceof Error ? error.message : 'Unknown error';
+                if (trial || consecutiveFailures >= failureThreshold) {
+                    openedAt = now();
+                    transition('open');
+                }
+                throw error;
+            }
+            finally {
+                if (trial) {
+                    trialInFlight = false;
+                }
+            }
+        },
+        recordRetry() {
+            counters.retries++;
+        },
+        getMetrics() {
+            return {
+                name,
+                state,
+                consecutiveFailures,
+                openedAt: openedAt !== null ? new Date(openedAt).toISOString() : null,
+                ...counters,
+                lastError,
+            };
+        },
+        reset() {
+            state = 'closed';
+            consecutiveFailures = 0;
+            openedAt = null;
+            trialInFlight = false;
+            counters = { successes: 0, failures: 0, rejected: 0, retries: 0 };
+            lastError = null;
+        },
+    };
+}
+/**
+ * Retry an operation with exponential backoff while shouldRetry accepts the error
+ * Waits baseDelayMs, then twice that, and so on, with up to 50% random jitter
+ */
+export async function withRetry(operation, options) {
+    const { attempts, baseDelayMs, shouldRetry, onRetry } = options;
+    const sleep = options.sleep || ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    for (let attempt = 1;; attempt++) {
+        try {
+            return await operation();
+        }
+        catch (error) {
+            if (attempt >= attempts || !shouldRetry(error)) {
+                throw error;
+            }
+            onRetry?.(error, attempt);
+            const delay = baseDelayMs * 2 ** (attempt - 1);
+            await sleep(delay + Math.random() * delay * 0.5);
+        }
+    }
+}
@@ -0,0 +1,30 @@
+// Organizations can override this with reviewThreshold
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+export const CONFIDENCE_FIELDS = ['amount', 'date', 'description', 'category'];
+// How much each field contributes to the overall score (sums to 1)
+export const CONFIDENCE_WEIGHTS = {
+    amount: 0.3,
+    date: 0.3,
+    description: 0.2,
+    category: 0.2,
+};
+/**
+ * Field confidence with the same score for every field
+ */
+export function uniformConfidence(score) {
+    return { amount: score, date: score, description: score, category: score };
+}
+/**
+ * Derive the overall transaction confidence as a weighted mean of field scores
+ */
+export function overallConfidence(fields) {
+    const total = CONFIDENCE_FIELDS.reduce((sum, field) => sum + CONFIDENCE_WEIGHTS[field] * fields[field], 0);
+    // Round away floating point noise (0.30000000000000004)
+    return Math.round(Math.min(Math.max(total, 0), 1) * 1000) / 1000;
+}
+/**
+ * Transactions below the organization's threshold wait for review before counting as final
+ */
+export function getReviewStatus(confidence, threshold) {
+    return confidence < threshold ? 'needs_review' : 'final';
+}
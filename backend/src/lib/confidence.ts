@@ -0,0 +1,50 @@
+export type TransactionStatus = 'final' | 'needs_review'
+
+// Organizations can override this with reviewThreshold
+export const DEFAULT_REVIEW_THRESHOLD = 0.7
+
+/**
+ * Confidence (0-1) in each extracted field
+ */
+export interface FieldConfidence {
+  amount: number
+  date: number
+  description: number
+  category: number
+}
+
+export const CONFIDENCE_FIELDS = ['amount', 'date', 'description', 'category'] as const
+
+// How much each field contributes to the overall score (sums to 1)
+export const CONFIDENCE_WEIGHTS: FieldConfidence = {
+  amount: 0.3,
+  date: 0.3,
+  description: 0.2,
+  category: 0.2,
+}
+
+/**
+ * Field confidence with the same score for every field
+ */
+export function uniformConfidence(score: number): FieldConfidence {
+  return { amount: score, date: score, description: score, category: score }
+}
+
+/**
+ * Derive the overall transaction confidence as a weighted mean of field scores
+ */
+export function overallConfidence(fields: FieldConfidence): number {
+  const total = CONFIDENCE_FIELDS.reduce(
+    (sum, field) => sum + CONFIDENCE_WEIGHTS[field] * fields[field],
+    0
+  )
+  // Round away floating point noise (0.30000000000000004)
+  return Math.round(Math.min(Math.max(total, 0), 1) * 1000) / 1000
+}
+
+/**
+ * Transactions below the organization's threshold wait for review before counting as final
+ */
+export function getReviewStatus(confidence: number, threshold: number): TransactionStatus {
+  return confidence < threshold ? 'needs_review' : 'final'
+}
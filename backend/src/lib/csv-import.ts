@@ -0,0 +1,301 @@
+import type { TransactionDirection } from './extractor.js'
+import { DATE_FORMATS, detectDateFormat, findDate, isDateFormat } from './dates.js'
+import type { DateFormat, DateResult } from './dates.js'
+import { parseStatementDate } from './bank-parsers.js'
+
+export const MAX_CSV_ROWS = 1000
+export const MAX_CSV_BYTES = 2 * 1024 * 1024
+
+// Columns a CSV export can be mapped to; date, narration and an amount column are required
+export const CSV_COLUMNS = ['date', 'narration', 'debit', 'credit', 'amount', 'balance', 'reference'] as const
+
+export type CsvColumn = (typeof CSV_COLUMNS)[number]
+
+/**
+ * Which header of a bank's CSV export holds each field
+ * Banks split amounts into debit and credit columns; card exports often have one
+ * signed amount column instead (negative is a debit)
+ */
+export interface CsvColumnMapping {
+  date: string
+  narration: string
+  debit?: string
+  credit?: string
+  amount?: string
+  balance?: string
+  reference?: string
+  dateFormat?: DateFormat | null // Order of numeric dates; worked out from the file when not set
+}
+
+/**
+ * One statement row read through a column mapping
+ */
+export interface CsvStatementRow {
+  row: number // Line in the file, counting from 1
+  text: string // The row's cells, for storing as the transaction text
+  date: Date | null
+  dateAmbiguous: boolean
+  description: string
+  amount: number
+  direction: TransactionDirection
+  balance: number | null
+  reference: string | null
+}
+
+/**
+ * Header names banks use for each column, checked against lower-cased headers
+ * without punctuation ("Withdrawal Amt." becomes "withdrawal amt")
+ */
+const HEADER_PATTERNS: Record<CsvColumn, RegExp> = {
+  date: /^(txn |tran |transaction |posting |value )?date$/,
+  narration: /^(narration|description|particulars|details|remarks|transaction details|transaction remarks)$/,
+  debit: /^(debit|debits|withdrawal|withdrawals|withdrawal amt|withdrawal amount|debit amount|dr|dr amount)( inr)?$/,
+  credit: /^(credit|credits|deposit|deposits|deposit amt|deposit amount|credit amount|cr|cr amount)( inr)?$/,
+  amount: /^(amount|transaction amount|amt)( inr)?$/,
+  balance: /^(balance|closing balance|running balance|available balance)( inr)?$/,
+  reference: /^(ref|reference|ref no|reference no|reference number|chq no|chq ref no|cheque no|chequeref no|utr|utr no)$/,
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Pick the delimiter of a CSV file from its first line (comma, semicolon or tab)
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length }))
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+/**
+ * Split CSV text into rows of trimmed cells
+ * Handles quoted cells (with delimiters, line breaks and doubled quotes inside) and
+ * drops blank lines; the delimiter is detected from the first line
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const input = text.replace(/^\uFEFF/, '') // Byte order mark added by Excel
+  const delimiter = detectDelimiter(input)
+  const rows: { line: number; cells: string[] }[] = []
+
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  const endRow = () => {
+    cells.push(cell.trim())
+    if (cells.some((value) => value.length > 0)) {
+      rows.push({ line: rowLine, cells })
+    }
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+  if (cell.length > 0 || cells.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Find the header row (banks put account details above it) and suggest a mapping
+ * from its header names. Returns the first row when no header looks like a date
+ * and narration pair.
+ */
+export function guessCsvMapping(rows: { line: number; cells: string[] }[]): {
+  headerLine: number | null
+  headers: string[]
+  mapping: Partial<CsvColumnMapping>
+} {
+  for (const { line, cells } of rows) {
+    const mapping: Partial<CsvColumnMapping> = {}
+    for (const header of cells) {
+      const normalized = normalizeHeader(header)
+      const column = CSV_COLUMNS.find((name) => HEADER_PATTERNS[name].test(normalized))
+      if (column && !mapping[column]) {
+        mapping[column] = header
+      }
+    }
+    if (mapping.date && mapping.narration) {
+      return { headerLine: line, headers: cells, mapping }
+    }
+  }
+
+  return { headerLine: rows[0]?.line ?? null, headers: rows[0]?.cells ?? [], mapping: {} }
+}
+
+/**
+ * Validate a column mapping from a request body
+ */
+export function parseCsvMapping(value: unknown): { value: CsvColumnMapping } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'mapping must be an object of column names' }
+  }
+
+  const input = value as Record<string, unknown>
+  const mapping: Partial<Record<CsvColumn, string>> = {}
+  for (const column of CSV_COLUMNS) {
+    const header = input[column]
+    if (header === undefined || header === null || header === '') {
+      continue
+    }
+    if (typeof header !== 'string') {
+      return { error: `mapping.${column} must be a column name` }
+    }
+    mapping[column] = header.trim()
+  }
+
+  const { date, narration, ...optional } = mapping
+  if (!date || !narration) {
+    return { error: 'mapping must include the date and narration columns' }
+  }
+  if (!mapping.amount && !mapping.debit && !mapping.credit) {
+    return { error: 'mapping must include an amount column, or debit and credit columns' }
+  }
+
+  const { dateFormat } = input
+  if (dateFormat !== undefined && dateFormat !== null && !isDateFormat(dateFormat)) {
+    return { error: `mapping.dateFormat must be one of ${DATE_FORMATS.join(', ')}` }
+  }
+
+  return { value: { ...optional, date, narration, dateFormat: dateFormat || null } }
+}
+
+/**
+ * Read an amount cell: 1,23,456.78, ₹1,500.00, (250.00) and -250.00 are accepted,
+ * and a trailing Dr or Cr marks the direction. Null for an empty or unreadable cell.
+ */
+export function parseCsvAmount(value: string | undefined): { amount: number; direction: TransactionDirection | null } | null {
+  const match = (value || '')
+    .replace(/(?:₹|Rs\.?|INR)/gi, '')
+    .replace(/[,\s]/g, '')
+    .match(/^(\()?([+-])?(\d+(?:\.\d+)?)\)?(Dr|Cr)?$/i)
+  if (!match) {
+    return null
+  }
+
+  const amount = parseFloat(match[3])
+  const negative = match[1] === '(' || match[2] === '-'
+  const marker = match[4]?.toLowerCase()
+  return {
+    amount,
+    direction: marker === 'cr' ? 'credit' : marker === 'dr' || negative ? 'debit' : null,
+  }
+}
+
+/**
+ * Read a date cell: ISO, "11 Dec 2025", "11-Dec-25" and numeric dates in the given order
+ * Numeric dates without an order are ambiguous unless only one reading is possible
+ */
+function parseCsvDate(value: string, dateFormat: DateFormat | null): DateResult {
+  const found = findDate(value, { dateFormat })
+  if (found.date || found.ambiguous) {
+    return found
+  }
+  return { date: parseStatementDate(value.trim(), dateFormat || 'DMY'), ambiguous: false }
+}
+
+/**
+ * Read a CSV export through a column mapping
+ * Rows above the header are skipped. Rows without an amount (opening balance lines,
+ * totals, notes) are reported in `failures`. Numeric dates use the mapping's order,
+ * then the given default, then the order worked out from the date column.
+ */
+export function readCsvStatement(
+  text: string,
+  mapping: CsvColumnMapping,
+  defaultDateFormat: DateFormat | null = null
+): { rows: CsvStatementRow[]; failures: { row: number; text: string; error: string }[] } | { error: string } {
+  const lines = parseCsv(text)
+  const mapped = CSV_COLUMNS.filter((column) => mapping[column])
+  const normalizedNames = mapped.map((column) => normalizeHeader(mapping[column]!))
+
+  const headerIndex = lines.findIndex(({ cells }) => {
+    const headers = cells.map(normalizeHeader)
+    return normalizedNames.every((name) => headers.includes(name))
+  })
+  if (headerIndex === -1) {
+    return { error: `Columns not found in file: ${mapped.map((column) => mapping[column]).join(', ')}` }
+  }
+
+  const headers = lines[headerIndex].cells.map(normalizeHeader)
+  const indexOf = (column: CsvColumn) => (mapping[column] ? headers.indexOf(normalizeHeader(mapping[column]!)) : -1)
+  const columns = Object.fromEntries(CSV_COLUMNS.map((column) => [column, indexOf(column)])) as Record<CsvColumn, number>
+  const cell = (cells: string[], column: CsvColumn) => (columns[column] === -1 ? '' : cells[columns[column]] || '')
+
+  const dataLines = lines.slice(headerIndex + 1)
+  const dateFormat =
+    mapping.dateFormat || defaultDateFormat || detectDateFormat(dataLines.map(({ cells }) => cell(cells, 'date')))
+
+  const rows: CsvStatementRow[] = []
+  const failures: { row: number; text: string; error: string }[] = []
+
+  for (const { line, cells } of dataLines) {
+    const rowText = cells.filter((value) => value.length > 0).join(' | ')
+    const debit = parseCsvAmount(cell(cells, 'debit'))
+    const credit = parseCsvAmount(cell(cells, 'credit'))
+    const signed = parseCsvAmount(cell(cells, 'amount'))
+
+    // Banks fill one of the two columns and leave the other empty or zero
+    let amount: { amount: number; direction: TransactionDirection } | null = null
+    if (debit && debit.amount > 0) {
+      amount = { amount: debit.amount, direction: 'debit' }
+    } else if (credit && credit.amount > 0) {
+      amount = { amount: credit.amount, direction: 'credit' }
+    } else if (signed && signed.amount > 0) {
+      amount = { amount: signed.amount, direction: signed.direction || 'credit' }
+    }
+
+    if (!amount) {
+      failures.push({ row: line, text: rowText, error: 'No amount found in row' })
+      continue
+    }
+
+    const { date, ambiguous } = parseCsvDate(cell(cells, 'date'), dateFormat)
+
+    rows.push({
+      row: line,
+      text: rowText,
+      date,
+      dateAmbiguous: ambiguous,
+      description: cell(cells, 'narration').substring(0, 255),
+      amount: amount.amount,
+      direction: amount.direction,
+      balance: parseCsvAmount(cell(cells, 'balance'))?.amount ?? null,
+      reference: cell(cells, 'reference') || null,
+    })
+  }
+
+  return { rows, failures }
+}
@@ -0,0 +1,71 @@
+import { prisma } from './db.js';
+import { hasOrganizationRole } from './organization.js';
+/**
+ * Get the organization's saved CSV column mappings, by bank name
+ */
+export async function getCsvMappings(organizationId) {
+    return await prisma.csvMapping.findMany({
+        where: {
+            organizationId,
+        },
+        orderBy: {
+            bank: 'asc',
+        },
+    });
+}
+/**
+ * Get the column mapping saved for a bank, or null if there is none
+ */
+export async function getCsvMapping(organizationId, bank) {
+    const saved = await prisma.csvMapping.findUnique({
+        where: {
+            organizationId_bank: { organizationId, bank },
+        },
+    });
+    return saved ? saved.mapping : null;
+}
+/**
+ * Save a bank's column mapping, replacing the one saved before
+ */
+export async function saveCsvMapping(params) {
+    const { organizationId, bank } = params;
+    const mapping = JSON.parse(JSON.stringify(params.mapping));
+    return await prisma.csvMapping.upsert({
+        where: {
+            organizationId_bank: { organizationId, bank },
+        },
+        create: {
+            organizationId,
+            bank,
+            mapping,
+        },
+        update: {
+            mapping,
+        },
+    });
+}
+/**
+ * Save the mapping sent with an import for the bank's next import
+ * Saved mappings are an organization setting, so only admins and owners replace them;
+ * other members' mappings are used for their import only. Returns whether it was saved.
+ */
+export async function rememberCsvMapping(params) {
+    if (!(await hasOrganizationRole(params.userId, params.organizationId, 'admin'))) {
+        return false;
+    }
+    await saveCsvMapping(params);
+    return true;
+}
+/**
+ * Delete a bank's saved column mapping
+ * Returns false if there was none
+ */
+export async function deleteCsvMapping(organizationId, bank) {
+    const deleted = await prisma.csvMapping.deleteMany({
+        where: {
+            organizationId,
+            bank,
+        },
+    });
+    return deleted.count > 0;
+}
@@ -0,0 +1,84 @@
+import { prisma } from './db.js'
+import { hasOrganizationRole } from './organization.js'
+import type { CsvColumnMapping } from './csv-import.js'
+
+/**
+ * Get the organization's saved CSV column mappings, by bank name
+ */
+export async function getCsvMappings(organizationId: string) {
+  return await prisma.csvMapping.findMany({
+    where: {
+      organizationId,
+    },
+    orderBy: {
+      bank: 'asc',
+    },
+  })
+}
+
+/**
+ * Get the column mapping saved for a bank, or null if there is none
+ */
+export async function getCsvMapping(organizationId: string, bank: string): Promise<CsvColumnMapping | null> {
+  const saved = await prisma.csvMapping.findUnique({
+    where: {
+      organizationId_bank: { organizationId, bank },
+    },
+  })
+  return saved ? (saved.mapping as unknown as CsvColumnMapping) : null
+}
+
+/**
+ * Save a bank's column mapping, replacing the one saved before
+ */
+export async function saveCsvMapping(params: { organizationId: string; bank: string; mapping: CsvColumnMapping }) {
+  const { organizationId, bank } = params
+  const mapping = JSON.parse(JSON.stringify(params.mapping))
+
+  return await prisma.csvMapping.upsert({
+    where: {
+      organizationId_bank: { organizationId, bank },
+    },
+    create: {
+      organizationId,
+      bank,
+      mapping,
+    },
+    update: {
+      mapping,
+    },
+  })
+}
+
+/**
+ * Save the mapping sent with an import for the bank's next import
+ * Saved mappings are an organization setting, so only admins and owners replace them;
+ * other members' mappings are used for their import only. Returns whether it was saved.
+ */
+export async function rememberCsvMapping(params: {
+  organizationId: string
+  userId: string
+  bank: string
+  mapping: CsvColumnMapping
+}): Promise<boolean> {
+  if (!(await hasOrganizationRole(params.userId, params.organizationId, 'admin'))) {
+    return false
+  }
+
+  await saveCsvMapping(params)
+  return true
+}
+
+/**
+ * Delete a bank's saved column mapping
+ * Returns false if there was none
+ */
+export async function deleteCsvMapping(organizationId: string, bank: string): Promise<boolean> {
+  const deleted = await prisma.csvMapping.deleteMany({
+    where: {
+      organizationId,
+      bank,
+    },
+  })
+  return deleted.count > 0
+}
@@ -0,0 +1,93 @@
+export const DEFAULT_CURRENCY = 'INR';
+// Symbols and abbreviations mapped to ISO 4217 codes (longest first so "US$" wins over "$")
+const CURRENCY_SYMBOLS = [
+    ['US$', 'USD'],
+    ['S$', 'SGD'],
+    ['A$', 'AUD'],
+    ['C$', 'CAD'],
+    ['Rs.', 'INR'],
+    ['Rs', 'INR'],
+    ['₹', 'INR'],
+    ['$', 'USD'],
+    ['€', 'EUR'],
+    ['£', 'GBP'],
+    ['¥', 'JPY'],
+];
+// ISO codes commonly seen on Indian card and bank statements
+export const KNOWN_CURRENCY_CODES = [
+    'INR', 'USD', 'EUR', 'GBP', 'AED', 'SGD', 'AUD', 'CAD', 'JPY', 'CHF', 'HKD', 'THB', 'MYR', 'SAR', 'NZD',
+];
+/**
+ * Check if a value looks like an ISO 4217 currency code
+ */
+export function isCurrencyCode(value) {
+    return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+/**
+ * Detect the currency of a statement line from ISO codes or symbols
+ * Codes win over symbols ("USD $12.00" is USD); returns INR when nothing is found
+ */
+export function detectCurrency(text) {
+    const codeMatch = text.match(new RegExp(`\\b(${KNOWN_CURRENCY_CODES.join('|')})\\b`));
+    if (codeMatch) {
+        return codeMatch[1];
+    }
+    // Symbols must sit next to a number to count ("Rs 500", "$12.00", "12.00€")
+    for (const [symbol, code] of CURRENCY_SYMBOLS) {
+        const escaped = symbol.replace(/[.$]/g, '\\$&');
+        const pattern = /^[A-Za-z]/.test(symbol)
+            ? new RegExp(`\\b${escaped}\\s*-?\\d`)
+            : new RegExp(`${escaped}\\s*-?\\d|\\d\\s*${escaped}`);
+        if (pattern.test(text)) {
+            return code;
+        }
+    }
+    return DEFAULT_CURRENCY;
+}
+/**
+ * Parse an FX rate table upload
+ * CSV columns: currency,rate,effectiveDate (header row optional)
+ */
+export function parseFxRateCsv(csv) {
+    return csv
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !/^currency\s*,/i.test(line))
+        .map((line) => {
+        const [currency = '', rate = '', effectiveDate = ''] = line.split(',').map((cell) => cell.trim());
+        return {
+            currency: currency.toUpperCase(),
+            rate: Number(rate),
+            effectiveDate,
+        };
+    });
+}
+/**
+ * Validate uploaded FX rates
+ * Returns an error message for the first invalid row, or null if all rows are valid
+ */
+export function validateFxRates(rates, baseCurrency) {
+    if (!Array.isArray(rates) || rates.length === 0) {
+        return 'At least one FX rate is required';
+    }
+    for (const [index, rate] of rates.entries()) {
+        if (!rate || typeof rate !== 'object') {
+            return `Row ${index + 1}: invalid rate`;
+        }
+        if (!isCurrencyCode(rate.currency)) {
+            return `Row ${index + 1}: currency must be a 3-letter ISO code`;
+        }
+        if (rate.currency === baseCurrency) {
+            return `Row ${index + 1}: currency must differ from base currency ${baseCurrency}`;
+        }
+        if (typeof rate.rate !== 'number' || !isFinite(rate.rate) || rate.rate <= 0) {
+            return `Row ${index + 1}: rate must be a positive number`;
+        }
+        if (typeof rate.effectiveDate !== 'string' ||
+            !/^\d{4}-\d{2}-\d{2}$/.test(rate.effectiveDate) ||
+            isNaN(new Date(rate.effectiveDate).getTime())) {
+            return `Row ${index + 1}: effectiveDate must be YYYY-MM-DD`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,247 @@
+/**
+ * Order of day and month in numeric dates: DMY (11/12/2025 is 11 December,
+ * usual in India) or MDY (12/11/2025 is 11 December, used by some card exports)
+ */
+export type DateFormat = 'DMY' | 'MDY'
+
+export const DATE_FORMATS: DateFormat[] = ['DMY', 'MDY']
+
+/**
+ * Dates the statement's transactions fall between (inclusive)
+ */
+export interface StatementPeriod {
+  from: Date
+  to: Date
+}
+
+/**
+ * What is known about how a statement writes its dates
+ * Without a date format, numeric dates that read as valid either way are ambiguous
+ * unless only one reading falls inside the statement period
+ */
+export interface DateHints {
+  dateFormat?: DateFormat | null
+  statementPeriod?: StatementPeriod | null
+}
+
+export interface DateResult {
+  date: Date | null
+  ambiguous: boolean // Could be DD/MM or MM/DD; needs review
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+/**
+ * Check if a value is a supported date format
+ */
+export function isDateFormat(value: unknown): value is DateFormat {
+  return typeof value === 'string' && DATE_FORMATS.includes(value as DateFormat)
+}
+
+/**
+ * Build a UTC date, or null if the day does not exist in that month
+ * (new Date() would silently roll 31/02 over to 3 March). Two-digit years are 20xx.
+ */
+export function buildDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? 2000 + year : year
+  if (month < 1 || month > 12 || day < 1) {
+    return null
+  }
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date
+}
+
+/**
+ * Month number (1-12) from a full name or three-letter abbreviation (also "Sept"), 0 if not a month
+ */
+export function parseMonthName(name: string): number {
+  const lower = name.toLowerCase()
+  return MONTHS.findIndex((month) => month === lower || month.slice(0, 3) === lower || (lower === 'sept' && month === 'september')) + 1
+}
+
+function isInPeriod(date: Date, period: StatementPeriod): boolean {
+  return date.getTime() >= period.from.getTime() && date.getTime() <= period.to.getTime()
+}
+
+/**
+ * Read a numeric date whose first two parts could be day/month or month/day
+ * A configured format decides; otherwise an order that gives an impossible date is
+ * ruled out, then readings outside the statement period. Anything left with two
+ * readings is ambiguous and has no date.
+ */
+export function resolveNumericDate(
+  first: number,
+  second: number,
+  year: number,
+  hints: DateHints = {}
+): DateResult {
+  const dayFirst = buildDate(year, second, first)
+  const monthFirst = buildDate(year, first, second)
+
+  if (hints.dateFormat) {
+    return { date: hints.dateFormat === 'DMY' ? dayFirst : monthFirst, ambiguous: false }
+  }
+
+  let readings = [dayFirst, monthFirst].filter((date): date is Date => date !== null)
+  if (readings.length === 2 && readings[0].getTime() === readings[1].getTime()) {
+    readings = [readings[0]] // 05/05/2025
+  }
+
+  const period = hints.statementPeriod
+  if (readings.length === 2 && period) {
+    const inPeriod = readings.filter((date) => isInPeriod(date, period))
+    if (inPeriod.length === 1) {
+      readings = inPeriod
+    }
+  }
+
+  if (readings.length === 2) {
+    return { date: null, ambiguous: true }
+  }
+  return { date: readings[0] || null, ambiguous: false }
+}
+
+/**
+ * Find the first NN/NN/NNNN (or NN-NN-NN) date in text and read it with the hints
+ * Returns null when there is no numeric date, or none that is valid in either order
+ */
+export function findNumericDate(text: string, hints: DateHints = {}): DateResult | null {
+  const pattern = /(?<!\d)(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})(?!\d)/g
+
+  for (const match of text.matchAll(pattern)) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    // Skip numbers that are not dates in either order (e.g. 31/31/2025)
+    if (!buildDate(year, second, first) && !buildDate(year, first, second)) {
+      continue
+    }
+    return resolveNumericDate(first, second, year, hints)
+  }
+  return null
+}
+
+/**
+ * Find the first date in text
+ * Checks "11 Dec 2025", "Dec 11, 2025" and ISO 2025-12-11 before numeric dates,
+ * which are read with the hints. Impossible dates (31 Feb) are skipped.
+ */
+export function findDate(text: string, hints: DateHints = {}): DateResult {
+  const named = [
+    { pattern: /(?<!\d)(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})(?!\d)/g, day: 1, month: 2 }, // 11 Dec 2025
+    { pattern: /\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?!\d)/g, day: 2, month: 1 }, // Dec 11, 2025
+  ]
+
+  for (const { pattern, day, month } of named) {
+    for (const match of text.matchAll(pattern)) {
+      const monthNumber = parseMonthName(match[month])
+      const date = monthNumber ? buildDate(Number(match[3]), monthNumber, Number(match[day])) : null
+      if (date) {
+        return { date, ambiguous: false }
+      }
+    }
+  }
+
+  for (const match of text.matchAll(/(?<!\d)(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})(?!\d)/g)) {
+    const date = buildDate(Number(match[1]), Number(match[2]), Number(match[3]))
+    if (date) {
+      return { date, ambiguous: false }
+    }
+  }
+
+  return findNumericDate(text, hints) || { date: null, ambiguous: false }
+}
+
+/**
+ * Work out the order of a column of numeric dates, e.g. the date column of a CSV export
+ * A first part above 12 means DD/MM and a second part above 12 means MM/DD; null when
+ * no date gives the order away (or the column mixes both)
+ */
+export function detectDateFormat(values: string[]): DateFormat | null {
+  let dayFirst = false
+  let monthFirst = false
+
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})(?!\d)/)
+    if (!match) {
+      continue
+    }
+    dayFirst ||= Number(match[1]) > 12
+    monthFirst ||= Number(match[2]) > 12
+  }
+
+  if (dayFirst === monthFirst) {
+    return null
+  }
+  return dayFirst ? 'DMY' : 'MDY'
+}
+
+/**
+ * Validate a statement period from a request body ({ from, to } as YYYY-MM-DD)
+ */
+export function parseStatementPeriod(value: unknown): { value: StatementPeriod | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { value: null }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'statementPeriod must be an object with from and to dates' }
+  }
+
+  const { from, to } = value as Record<string, unknown>
+  const parse = (date: unknown) => {
+    const match = typeof date === 'string' ? date.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null
+    return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null
+  }
+
+  const period = { from: parse(from), to: parse(to) }
+  if (!period.from || !period.to) {
+    return { error: 'statementPeriod from and to must be dates (YYYY-MM-DD)' }
+  }
+  if (period.from.getTime() > period.to.getTime()) {
+    return { error: 'statementPeriod from must not be after to' }
+  }
+  return { value: { from: period.from, to: period.to } }
+}
+
+/**
+ * Validate the date hints sent with an extraction request
+ * dateFormat overrides the organization's for this statement (e.g. a card that exports MM/DD)
+ */
+export function parseDateHints(input: {
+  dateFormat?: unknown
+  statementPeriod?: unknown
+}): { value: DateHints } | { error: string } {
+  const { dateFormat } = input
+  if (dateFormat !== undefined && dateFormat !== null && !isDateFormat(dateFormat)) {
+    return { error: `dateFormat must be one of ${DATE_FORMATS.join(', ')}` }
+  }
+
+  const period = parseStatementPeriod(input.statementPeriod)
+  if ('error' in period) {
+    return period
+  }
+
+  return { value: { dateFormat: dateFormat || null, statementPeriod: period.value } }
+}
+
+/**
+ * Date hints as sent in a request ({ dateFormat, statementPeriod: { from, to } }),
+ * so they can be stored as JSON and read back with parseDateHints
+ */
+export function formatDateHints(hints: DateHints): {
+  dateFormat: DateFormat | null
+  statementPeriod: { from: string; to: string } | null
+} {
+  const period = hints.statementPeriod
+  return {
+    dateFormat: hints.dateFormat || null,
+    statementPeriod: period
+      ? { from: period.from.toISOString().slice(0, 10), to: period.to.toISOString().slice(0, 10) }
+      : null,
+  }
+}
@@ -0,0 +1,70 @@
+import { prisma } from './db.js'
+import type { ParsedTransaction } from './extractor.js'
+import { hashStatementText } from './statement.js'
+
+/**
+ * Look up a cached extraction result for an organization
+ * Returns null on a miss, or when the result came from a different extractor version
+ */
+export async function getCachedExtraction(params: {
+  organizationId: string
+  text: string
+  version: string
+}): Promise<ParsedTransaction | null> {
+  const where = {
+    organizationId_textHash_version: {
+      organizationId: params.organizationId,
+      textHash: hashStatementText(params.text),
+      version: params.version,
+    },
+  }
+
+  const entry = await prisma.extractionCache.findUnique({ where })
+  if (!entry) {
+    return null
+  }
+
+  await prisma.extractionCache.update({
+    where,
+    data: { hits: { increment: 1 } },
+  })
+
+  // Dates are stored as ISO strings in the JSON column
+  const result = entry.result as Omit<ParsedTransaction, 'date'> & { date: string | null }
+  return {
+    ...result,
+    date: result.date ? new Date(result.date) : null,
+  }
+}
+
+/**
+ * Store an extraction result for an organization
+ * Entries for the same text from older extractor versions are removed
+ */
+export async function cacheExtraction(params: {
+  organizationId: string
+  text: string
+  version: string
+  result: ParsedTransaction
+}) {
+  const { organizationId, version } = params
+  const textHash = hashStatementText(params.text)
+  const result = JSON.parse(JSON.stringify(params.result))
+
+  return await prisma.$transaction([
+    prisma.extractionCache.deleteMany({
+      where: {
+        organizationId,
+        textHash,
+        version: { not: version },
+      },
+    }),
+    prisma.extractionCache.upsert({
+      where: {
+        organizationId_textHash_version: { organizationId, textHash, version },
+      },
+      create: { organizationId, textHash, version, result },
+      update: { result },
+    }),
+  ])
+}
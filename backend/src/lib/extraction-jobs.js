@@ -0,0 +1,237 @@
+import { prisma } from './db.js';
+import { extractStatement, extractTransaction, importCsvStatement } from './extraction.js';
+import { JOB_LOCK_REFRESH_MS, JOB_LOCK_TIMEOUT_MS, JOB_RETENTION_MS, MAX_JOB_ATTEMPTS, getNextRunAt } from './jobs.js';
+import { formatDateHints, parseDateHints } from './dates.js';
+// How often the worker looks for due jobs
+const WORKER_INTERVAL_MS = 1000;
+// How often the worker deletes expired jobs
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const jobSelect = {
+    id: true,
+    organizationId: true,
+    kind: true,
+    status: true,
+    attempts: true,
+    maxAttempts: true,
+    error: true,
+    result: true,
+    runAt: true,
+    completedAt: true,
+    createdAt: true,
+    updatedAt: true,
+};
+/**
+ * Queue statement text for extraction
+ * The text is kept only until the job finishes. dateHints are validated ones, stored in
+ * request form ({ dateFormat, statementPeriod: { from, to } }); CSV imports carry the
+ * bank and column mapping in options
+ */
+export async function enqueueExtractionJob(params) {
+    return await prisma.extractionJob.create({
+        data: {
+            organizationId: params.organizationId,
+            userId: params.userId,
+            kind: params.kind,
+            text: params.text,
+            dateHints: params.dateHints && formatDateHints(params.dateHints),
+            options: params.options && JSON.parse(JSON.stringify(params.options)),
+            maxAttempts: MAX_JOB_ATTEMPTS,
+        },
+        select: jobSelect,
+    });
+}
+/**
+ * Get a job by ID (with organization check)
+ */
+export async function getExtractionJob(id, organizationId) {
+    return await prisma.extractionJob.findFirst({
+        where: { id, organizationId },
+        select: jobSelect,
+    });
+}
+/**
+ * Claim the next due job for this worker
+ * Due jobs are pending jobs past their runAt and processing jobs whose lock went stale.
+ * Stale jobs with no attempts left are failed instead of run again.
+ * The claim only succeeds if the job is unchanged since it was read, so concurrent
+ * workers (several servers or Lambda instances) never run the same attempt twice.
+ */
+export async function claimExtractionJob() {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+    await prisma.extractionJob.updateMany({
+        where: {
+            status: 'processing',
+            lockedAt: { lt: staleBefore },
+            attempts: { gte: prisma.extractionJob.fields.maxAttempts },
+        },
+        data: { status: 'failed', error: 'Job timed out', text: '', lockedAt: null, completedAt: now },
+    });
+    const candidate = await prisma.extractionJob.findFirst({
+        where: {
+            OR: [
+                { status: 'pending', runAt: { lte: now } },
+                {
+                    status: 'processing',
+                    lockedAt: { lt: staleBefore },
+                    attempts: { lt: prisma.extractionJob.fields.maxAttempts },
+                },
+            ],
+        },
+        orderBy: { runAt: 'asc' },
+    });
+    if (!candidate) {
+        return null;
+    }
+    const claimed = await prisma.extractionJob.updateMany({
+        where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+        data: { status: 'processing', lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+        return null;
+    }
+    return { ...candidate, status: 'processing', lockedAt: now, attempts: candidate.attempts + 1 };
+}
+/**
+ * Refresh a running job's lock until released, so it is not taken over as stale
+ * A refresh only succeeds while the lock is still ours; lockedAt always holds our current lock
+ */
+function holdJobLock(id, lockedAt) {
+    const lock = { lockedAt };
+    let refreshing = Promise.resolve();
+    const timer = setInterval(() => {
+        refreshing = refreshing.then(async () => {
+            const now = new Date();
+            const refreshed = await prisma.extractionJob.updateMany({
+                where: { id, status: 'processing', lockedAt: lock.lockedAt },
+                data: { lockedAt: now },
+            });
+            if (refreshed.count > 0) {
+                lock.lockedAt = now;
+            }
+        }).catch((error) => {
+            console.error(`Failed to refresh lock of extraction job ${id}:`, error);
+        });
+    }, JOB_LOCK_REFRESH_MS);
+    return {
+        lock,
+        release: async () => {
+            clearInterval(timer);
+            await refreshing;
+        },
+    };
+}
+/**
+ * Run a claimed job and record the outcome
+ * Failed attempts are retried with backoff until maxAttempts is reached.
+ * The outcome is only recorded while the job still holds the lock it was claimed with,
+ * so a worker whose job was taken over as stale cannot overwrite the newer run.
+ */
+export async function runExtractionJob(job) {
+    const { lock, release } = holdJobLock(job.id, job.lockedAt);
+    try {
+        const organization = await prisma.organization.findUnique({ where: { id: job.organizationId } });
+        if (!organization) {
+            throw new Error('Organization not found');
+        }
+        const dateHints = parseDateHints((job.dateHints || {}));
+        if ('error' in dateHints) {
+            throw new Error(dateHints.error);
+        }
+        // Keyed on the job so a retry after the save reuses what was saved
+        const params = {
+            text: job.text,
+            organization,
+            userId: job.userId,
+            dateHints: dateHints.value,
+            externalId: `job:${job.id}`,
+        };
+        let result;
+        if (job.kind === 'csv') {
+            const options = job.options;
+            result = await importCsvStatement({ ...params, bank: options.bank, mapping: options.mapping });
+        }
+        else if (job.kind === 'statement') {
+            result = await extractStatement(params);
+        }
+        else {
+            result = await extractTransaction(params);
+        }
+        await release();
+        await prisma.extractionJob.updateMany({
+            where: { id: job.id, lockedAt: lock.lockedAt },
+            // Round-trip through JSON so dates are stored as ISO strings
+            data: {
+                status: 'completed',
+                result: JSON.parse(JSON.stringify(result)),
+                error: null,
+                text: '',
+                lockedAt: null,
+                completedAt: new Date(),
+            },
+        });
+    }
+    catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Extraction job ${job.id} failed (attempt ${job.attempts}):`, error);
+        const runAt = getNextRunAt(job.attempts, job.maxAttempts);
+        await release();
+        await prisma.extractionJob.updateMany({
+            where: { id: job.id, lockedAt: lock.lockedAt },
+            data: runAt
+                ? { status: 'pending', runAt, error: message, lockedAt: null }
+                : { status: 'failed', error: message, text: '', lockedAt: null, completedAt: new Date() },
+        });
+    }
+}
+/**
+ * Delete jobs that finished more than JOB_RETENTION_MS ago
+ */
+export async function deleteExpiredExtractionJobs(now = new Date()) {
+    return await prisma.extractionJob.deleteMany({
+        where: {
+            status: { in: ['completed', 'failed'] },
+            completedAt: { lt: new Date(now.getTime() - JOB_RETENTION_MS) },
+        },
+    });
+}
+let processing = false;
+/**
+ * Run due jobs until none are left
+ * Calls while a run is in progress return immediately
+ */
+export async function processExtractionJobs() {
+    if (processing) {
+        return;
+    }
+    processing = true;
+    try {
+        let job = await claimExtractionJob();
+        while (job) {
+            await runExtractionJob(job);
+            job = await claimExtractionJob();
+        }
+    }
+    catch (error) {
+        console.error('Extraction worker error:', error);
+    }
+    finally {
+        processing = false;
+    }
+}
+/**
+ * Poll for due jobs in the background (retries and jobs left by other instances)
+ * and delete expired jobs every hour. Returns a function that stops the worker
+ */
+export function startExtractionWorker(intervalMs = WORKER_INTERVAL_MS) {
+    const timer = setInterval(() => void processExtractionJobs(), intervalMs);
+    const cleanupTimer = setInterval(() => {
+        deleteExpiredExtractionJobs().catch((error) => {
+            console.error('Failed to delete expired extraction jobs:', error);
+        });
+    }, CLEANUP_INTERVAL_MS);
+    return () => {
+        clearInterval(timer);
+        clearInterval(cleanupTimer);
+    };
+}
@@ -0,0 +1,594 @@
+import { parseTransactionText, createTransaction, createTransactions, getTransactionsBelowConfidence, getImportedTransactionIds, getTransactionById, getTransactionsByExternalIds, updateReextractedTransaction, } from './transaction.js';
+import { splitStatementText } from './statement.js';
+import { withBaseAmount } from './fx.js';
+import { CONFIDENCE_FIELDS, getReviewStatus } from './confidence.js';
+import { getMerchantCategories } from './merchant-categories.js';
+import { getCategories } from './category.js';
+import { isDateFormat } from './dates.js';
+import { readCsvStatement } from './csv-import.js';
+import { TEMPLATE_FIELD_CONFIDENCE } from './bank-parsers.js';
+import { findMerchantCategory } from './merchant-mapping.js';
+import { categorizeText } from './category-taxonomy.js';
+import { overallConfidence } from './confidence.js';
+import { extractReferences } from './references.js';
+import { maskParsedTransaction, redactText, restoreText } from './redaction.js';
+import { resolveMerchantId } from './merchant.js';
+import { diffTransactionFields, pickAcceptedChanges } from './transaction-diff.js';
+/**
+ * Date hints for a request, falling back to the organization's date format
+ */
+function withOrganizationDateFormat(hints, organization) {
+    return {
+        dateFormat: hints.dateFormat || (isDateFormat(organization.dateFormat) ? organization.dateFormat : null),
+        statementPeriod: hints.statementPeriod,
+    };
+}
+/**
+ * Extraction options taken from the organization's settings
+ */
+function getParseOptions(organization) {
+    return {
+        extractor: organization.extractor,
+        organizationId: organization.id,
+        redactionRules: organization.redactionRules,
+        monthlyTokenQuota: organization.monthlyTokenQuota,
+        promptVersion: organization.promptVersion,
+        promptInstructions: organization.promptInstructions,
+    };
+}
+/**
+ * Shape a parsed transaction for saving, converted to the organization's base currency
+ * Ambiguous dates always need review, whatever the confidence. Organizations that
+ * redact stored text get the text, description and references masked, and keep the
+ * token map only if they opted in.
+ */
+async function toTransactionInput(text, parsed, organization, userId) {
+    const redaction = organization.redactStoredText ? redactText(text, organization.redactionRules) : null;
+    const saved = redaction ? maskParsedTransaction(parsed, redaction.tokens) : parsed;
+    return await withBaseAmount({
+        text: redaction ? redaction.text : text,
+        amount: parsed.amount,
+        date: parsed.date,
+        description: saved.description,
+        category: parsed.category,
+        direction: parsed.direction,
+        currency: parsed.currency,
+        confidence: parsed.confidence,
+        fieldConfidence: parsed.fieldConfidence,
+        status: parsed.dateAmbiguous ? 'needs_review' : getReviewStatus(parsed.confidence, organization.reviewThreshold),
+        provenance: parsed.provenance,
+        references: saved.references,
+        // A masked counterparty is a person, not a merchant to link
+        ...(saved.description !== parsed.description && { merchantId: null }),
+        ...(redaction && organization.keepRedactionMap && Object.keys(redaction.tokens).length > 0 && {
+            redactionTokens: redaction.tokens,
+        }),
+        organizationId: organization.id,
+        userId,
+    }, organization.baseCurrency);
+}
+/**
+ * What extracting one line returns: the saved transaction and how it was extracted
+ */
+function toExtractionResult(transaction, flags) {
+    return {
+        id: transaction.id,
+        text: transaction.text,
+        amount: transaction.amount,
+        date: transaction.date,
+        description: transaction.description,
+        category: transaction.category,
+        direction: transaction.direction,
+        currency: transaction.currency,
+        baseAmount: transaction.baseAmount,
+        fxRate: transaction.fxRate,
+        confidence: transaction.confidence,
+        amountConfidence: transaction.amountConfidence,
+        dateConfidence: transaction.dateConfidence,
+        descriptionConfidence: transaction.descriptionConfidence,
+        categoryConfidence: transaction.categoryConfidence,
+        status: transaction.status,
+        merchantId: transaction.merchantId,
+        upiRef: transaction.upiRef,
+        vpa: transaction.vpa,
+        utr: transaction.utr,
+        chequeNumber: transaction.chequeNumber,
+        maskedAccount: transaction.maskedAccount,
+        cached: flags.cached, // Served from the extraction cache
+        dateAmbiguous: flags.dateAmbiguous, // Date left empty for review
+        organizationId: transaction.organizationId,
+        userId: transaction.userId,
+        createdAt: transaction.createdAt,
+        updatedAt: transaction.updatedAt,
+    };
+}
+/**
+ * Parse one line of statement text with the organization's extractor and save it
+ * Repeated text reuses the organization's cached AI result. With externalId set,
+ * the transaction is saved once: a later call returns the one already saved,
+ * without extracting the line again.
+ */
+export async function extractTransaction(params) {
+    const { text, organization, userId, externalId } = params;
+    const savedId = externalId && (await getImportedTransactionIds(organization.id, [externalId])).get(externalId);
+    const saved = savedId ? await getTransactionById(savedId, organization.id) : null;
+    if (saved) {
+        return toExtractionResult(saved, { cached: false, dateAmbiguous: false });
+    }
+    const parsed = await parseTransactionText(text, {
+        ...getParseOptions(organization),
+        ...withOrganizationDateFormat(params.dateHints || {}, organization),
+    });
+    const transaction = await createTransaction({ ...(await toTransactionInput(text, parsed, organization, userId)), externalId });
+    return toExtractionResult(transaction, {
+        cached: parsed.provenance?.cached === true,
+        dateAmbiguous: parsed.dateAmbiguous === true,
+    });
+}
+/**
+ * Mask the text of rows that failed, for organizations that redact stored text
+ * Results are stored with their jobs, so failed rows are masked like saved ones
+ */
+function maskFailures(failures, organization) {
+    if (!organization.redactStoredText) {
+        return failures;
+    }
+    return failures.map((failure) => ({ ...failure, text: redactText(failure.text, organization.redactionRules).text }));
+}
+/**
+ * Rows saved before under `<externalId>:<row>` keys, by row number
+ */
+async function getSavedRows(organizationId, externalId, rows) {
+    const saved = externalId
+        ? await getTransactionsByExternalIds(organizationId, rows.map((row) => `${externalId}:${row}`))
+        : [];
+    const byKey = new Map(saved.map((transaction) => [transaction.externalId, transaction]));
+    const savedRows = new Map();
+    for (const row of rows) {
+        const transaction = byKey.get(`${externalId}:${row}`);
+        if (transaction) {
+            savedRows.set(row, transaction);
+        }
+    }
+    return savedRows;
+}
+/**
+ * Split a pasted statement into rows, extract each row and save them together
+ * Rows that cannot be extracted are reported in `failures` instead of failing the statement.
+ * With externalId set, each row is saved once under `<externalId>:<row>`: rows saved by
+ * an earlier call are returned as they are, without extracting them again.
+ */
+export async function extractStatement(params) {
+    const { organization, userId, externalId } = params;
+    const rows = splitStatementText(params.text);
+    const dateHints = withOrganizationDateFormat(params.dateHints || {}, organization);
+    const savedRows = await getSavedRows(organization.id, externalId, rows.map((_, index) => index));
+    // Load categories and learned merchant categories once for the whole statement
+    const categories = await getCategories(organization.id);
+    const merchantCategories = await getMerchantCategories(organization.id);
+    // Extract rows one at a time so a single bad row only fails itself
+    const extracted = [];
+    const failures = [];
+    for (const [index, rowText] of rows.entries()) {
+        if (savedRows.has(index)) {
+            continue;
+        }
+        try {
+            const parsed = await parseTransactionText(rowText, {
+                ...getParseOptions(organization),
+                categories,
+                merchantCategories,
+                ...dateHints,
+            });
+            if (parsed.amount === null) {
+                failures.push({ row: index, text: rowText, error: 'No amount found in row' });
+                continue;
+            }
+            extracted.push({ row: index, text: rowText, parsed });
+        }
+        catch (error) {
+            failures.push({
+                row: index,
+                text: rowText,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+    const rowsToSave = [];
+    for (const { row, text, parsed } of extracted) {
+        rowsToSave.push({
+            ...(await toTransactionInput(text, parsed, organization, userId)),
+            ...(externalId && { externalId: `${externalId}:${row}` }),
+        });
+    }
+    // Save all successfully extracted rows together
+    const transactions = await createTransactions(rowsToSave);
+    const items = [
+        ...[...savedRows].map(([row, transaction]) => ({ row, ...transaction })),
+        ...transactions.map((transaction, i) => ({ row: extracted[i].row, ...transaction })),
+    ].sort((a, b) => a.row - b.row);
+    return {
+        items,
+        failures: maskFailures(failures, organization),
+        total: rows.length,
+        createdCount: items.length,
+        failedCount: failures.length,
+    };
+}
+/**
+ * Category from the organization's learned merchant categories, then its category keywords
+ */
+function categorizeByRules(description, categories, merchantCategories) {
+    const learned = findMerchantCategory(description, merchantCategories);
+    if (learned) {
+        return { category: learned, confidence: 1 };
+    }
+    const category = categorizeText(description, categories);
+    return { category, confidence: category ? TEMPLATE_FIELD_CONFIDENCE.category : 0 };
+}
+/**
+ * Import a bank's CSV export through a column mapping and save the rows together
+ * Amount, direction and date are read from the file. Categories come from the
+ * organization's learned merchant categories and category keywords, and only rows
+ * neither matches are sent to the organization's extractor to be categorized.
+ * Rows without an amount are reported in `failures`. With externalId set, rows are
+ * saved once, as in extractStatement.
+ */
+export async function importCsvStatement(params) {
+    const { organization, userId, externalId } = params;
+    const dateFormat = isDateFormat(organization.dateFormat) ? organization.dateFormat : null;
+    const statement = readCsvStatement(params.text, params.mapping, dateFormat);
+    if ('error' in statement) {
+        throw new Error(statement.error);
+    }
+    // Load categories and learned merchant categories once for the whole file
+    const categories = await getCategories(organization.id);
+    const merchantCategories = await getMerchantCategories(organization.id);
+    const savedRows = await getSavedRows(organization.id, externalId, statement.rows.map((row) => row.row));
+    const imported = [];
+    const failures = [...statement.failures];
+    let aiCategorizedCount = 0;
+    for (const row of statement.rows) {
+        if (savedRows.has(row.row)) {
+            continue;
+        }
+        const startedAt = Date.now();
+        try {
+            let { category, confidence: categoryConfidence } = categorizeByRules(row.description, categories, merchantCategories);
+            let provenance = {
+                extractor: 'csv',
+                modelId: null,
+                promptVersion: null,
+                reasoning: `Imported from ${params.bank} CSV`,
+                latencyMs: null,
+                rawOutput: null,
+            };
+            if (!category) {
+                const categorized = await parseTransactionText(row.text, {
+                    ...getParseOptions(organization),
+                    categories,
+                    merchantCategories,
+                    dateFormat,
+                });
+                const source = categorized.provenance;
+                category = categorized.category;
+                categoryConfidence = category ? categorized.fieldConfidence.category : 0;
+                provenance = {
+                    ...provenance,
+                    modelId: source?.modelId ?? null,
+                    promptVersion: source?.promptVersion ?? null,
+                    reasoning: `Imported from ${params.bank} CSV; category from ${source?.extractor}`,
+                    rawOutput: source?.rawOutput ?? null,
+                    cached: source?.cached,
+                    inputTokens: source?.inputTokens,
+                    outputTokens: source?.outputTokens,
+                    costUsd: source?.costUsd,
+                };
+                if (source?.extractor !== 'regex' && source?.extractor !== 'template') {
+                    aiCategorizedCount++;
+                }
+            }
+            const fieldConfidence = {
+                ...TEMPLATE_FIELD_CONFIDENCE,
+                date: row.date ? 1 : 0,
+                category: categoryConfidence,
+            };
+            imported.push({
+                row: row.row,
+                text: row.text,
+                parsed: {
+                    amount: row.amount,
+                    date: row.date,
+                    description: row.description || null,
+                    category,
+                    direction: row.direction,
+                    // Exports are in the account's currency
+                    currency: organization.baseCurrency,
+                    confidence: overallConfidence(fieldConfidence),
+                    fieldConfidence,
+                    references: extractReferences([row.description, row.reference].filter(Boolean).join(' ')),
+                    ...(row.dateAmbiguous && { dateAmbiguous: true }),
+                    provenance: { ...provenance, latencyMs: Date.now() - startedAt },
+                },
+            });
+        }
+        catch (error) {
+            failures.push({
+                row: row.row,
+                text: row.text,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+    const rowsToSave = [];
+    for (const { row, text, parsed } of imported) {
+        rowsToSave.push({
+            ...(await toTransactionInput(text, parsed, organization, userId)),
+            ...(externalId && { externalId: `${externalId}:${row}` }),
+        });
+    }
+    // Save all imported rows together
+    const transactions = await createTransactions(rowsToSave);
+    const items = [
+        ...[...savedRows].map(([row, transaction]) => ({ row, ...transaction })),
+        ...transactions.map((transaction, i) => ({ row: imported[i].row, ...transaction })),
+    ].sort((a, b) => a.row - b.row);
+    return {
+        items,
+        failures: maskFailures(failures.sort((a, b) => a.row - b.row), organization),
+        total: statement.rows.length + statement.failures.length,
+        createdCount: items.length,
+        failedCount: failures.length,
+        aiCategorizedCount, // Rows no rule matched, categorized by an AI provider
+    };
+}
+/**
+ * Save the new transactions of an OFX or QFX statement together
+ * Amount, direction, date and currency are taken from the file and nothing is sent to
+ * an AI provider: categories come from the organization's learned merchant categories
+ * and category keywords only. Transactions imported before (same account and FITID)
+ * are skipped, so a file can be imported again safely, even while another import of it runs.
+ */
+export async function importOfxStatement(params) {
+    const { statement, organization, userId } = params;
+    const imported = await getImportedTransactionIds(organization.id, statement.transactions.map((transaction) => transaction.externalId));
+    const categories = await getCategories(organization.id);
+    const merchantCategories = await getMerchantCategories(organization.id);
+    const toImport = [];
+    const skipped = [];
+    const failures = [...statement.failures];
+    const seen = new Set();
+    for (const transaction of statement.transactions) {
+        const existingId = imported.get(transaction.externalId);
+        if (existingId) {
+            skipped.push({ fitId: transaction.fitId, id: existingId });
+        }
+        else if (seen.has(transaction.externalId)) {
+            failures.push({ fitId: transaction.fitId, text: transaction.text, error: 'Duplicate FITID in file' });
+        }
+        else {
+            seen.add(transaction.externalId);
+            toImport.push(transaction);
+        }
+    }
+    const rowsToSave = [];
+    for (const transaction of toImport) {
+        const startedAt = Date.now();
+        const description = transaction.name || transaction.memo;
+        const details = [transaction.name, transaction.memo].filter(Boolean).join(' ');
+        const { category, confidence: categoryConfidence } = categorizeByRules(details, categories, merchantCategories);
+        const fieldConfidence = {
+            ...TEMPLATE_FIELD_CONFIDENCE,
+            date: transaction.date ? 1 : 0,
+            category: categoryConfidence,
+        };
+        const references = extractReferences(details);
+        const parsed = {
+            amount: transaction.amount,
+            date: transaction.date,
+            description: description ? description.substring(0, 255) : null,
+            category,
+            direction: transaction.direction,
+            currency: transaction.currency,
+            confidence: overallConfidence(fieldConfidence),
+            fieldConfidence,
+            references: {
+                ...references,
+                chequeNumber: transaction.checkNumber || references.chequeNumber,
+                maskedAccount: transaction.maskedAccount || references.maskedAccount,
+            },
+            provenance: {
+                extractor: 'ofx',
+                modelId: null,
+                promptVersion: null,
+                reasoning: `Imported from OFX statement (FITID ${transaction.fitId})`,
+                latencyMs: Date.now() - startedAt,
+                rawOutput: null,
+            },
+        };
+        rowsToSave.push({
+            ...(await toTransactionInput(transaction.text, parsed, organization, userId)),
+            externalId: transaction.externalId,
+        });
+    }
+    // Save all new transactions together
+    let saving = toImport.map((transaction, i) => ({ transaction, input: rowsToSave[i] }));
+    let transactions;
+    try {
+        transactions = await createTransactions(rowsToSave);
+    }
+    catch (error) {
+        if (!(error && typeof error === 'object' && 'code' in error && error.code === 'P2002')) {
+            throw error;
+        }
+        // A concurrent import of the same file saved some of them first: skip those and save the rest
+        const saved = await getImportedTransactionIds(organization.id, toImport.map((transaction) => transaction.externalId));
+        for (const { transaction } of saving) {
+            const existingId = saved.get(transaction.externalId);
+            if (existingId) {
+                skipped.push({ fitId: transaction.fitId, id: existingId });
+            }
+        }
+        saving = saving.filter(({ transaction }) => !saved.has(transaction.externalId));
+        transactions = await createTransactions(saving.map(({ input }) => input));
+    }
+    const items = transactions.map((transaction, i) => ({
+        fitId: saving[i].transaction.fitId,
+        ...transaction,
+    }));
+    return {
+        items,
+        skipped,
+        failures: maskFailures(failures, organization),
+        total: statement.transactions.length + statement.failures.length,
+        createdCount: items.length,
+        skippedCount: skipped.length,
+        failedCount: failures.length,
+    };
+}
+// Extractors that read amounts and dates from an imported file; bulk re-extraction leaves their rows alone
+const FILE_IMPORT_EXTRACTORS = ['csv', 'ofx'];
+/**
+ * Field confidence of a transaction after a re-extraction
+ * Fields now holding the new extraction's value (accepted or unchanged) take its score;
+ * rejected changes keep the saved score (the overall one for older transactions)
+ */
+function mergeFieldConfidence(transaction, proposed, rejected) {
+    const saved = {
+        amount: transaction.amountConfidence ?? transaction.confidence,
+        date: transaction.dateConfidence ?? transaction.confidence,
+        description: transaction.descriptionConfidence ?? transaction.confidence,
+        category: transaction.categoryConfidence ?? transaction.confidence,
+    };
+    const merged = { ...proposed };
+    for (const field of CONFIDENCE_FIELDS) {
+        if (rejected.includes(field)) {
+            merged[field] = saved[field];
+        }
+    }
+    return merged;
+}
+/**
+ * Run the organization's current extractor on a saved transaction's text again and
+ * compare the result field by field with the saved values
+ * Accepted fields are saved (with the base amount recalculated and a changed
+ * description linked to its merchant again). Confidence is recalculated from the
+ * accepted fields' new scores and the rejected fields' saved ones; a reviewed
+ * transaction stays reviewed, others get the status the new confidence gives.
+ * Provenance is replaced only when every change is accepted, since the saved
+ * values otherwise still partly come from the earlier extraction.
+ * With onlyIfMoreConfident, changes are only saved when the new extraction is more
+ * confident than the saved one.
+ * Text stored redacted is restored first when the token map was kept.
+ * The same text and prompt are served from the extraction cache, so previewing the
+ * changes and then accepting them calls the AI provider once.
+ */
+export async function reextractTransaction(params) {
+    const { transaction, organization } = params;
+    const text = transaction.redaction
+        ? restoreText(transaction.text, transaction.redaction.tokens)
+        : transaction.text;
+    const parsed = await parseTransactionText(text, {
+        ...getParseOptions(organization),
+        ...withOrganizationDateFormat({}, organization),
+    });
+    const input = await toTransactionInput(text, parsed, organization, transaction.userId);
+    const changes = diffTransactionFields(transaction, {
+        amount: input.amount,
+        date: input.date,
+        description: input.description,
+        category: input.category,
+        direction: input.direction,
+        currency: input.currency,
+        ...input.references,
+    });
+    const canApply = !params.onlyIfMoreConfident || input.confidence > transaction.confidence;
+    const accepted = canApply && params.accept ? pickAcceptedChanges(changes, params.accept) : {};
+    const applied = Object.keys(accepted);
+    let updated = null;
+    if (applied.length > 0) {
+        const rejected = changes.map((change) => change.field).filter((field) => !applied.includes(field));
+        const fieldConfidence = mergeFieldConfidence(transaction, parsed.fieldConfidence, rejected);
+        const confidence = overallConfidence(fieldConfidence);
+        const status = transaction.reviewedAt
+            ? transaction.status
+            : parsed.dateAmbiguous && applied.includes('date')
+                ? 'needs_review'
+                : getReviewStatus(confidence, organization.reviewThreshold);
+        const converted = await withBaseAmount({
+            amount: accepted.amount !== undefined ? accepted.amount : transaction.amount,
+            date: accepted.date !== undefined ? accepted.date : transaction.date,
+            currency: accepted.currency || transaction.currency,
+            organizationId: transaction.organizationId,
+        }, organization.baseCurrency);
+        updated = await updateReextractedTransaction(transaction.id, {
+            values: {
+                ...accepted,
+                ...(accepted.description !== undefined && {
+                    // A masked counterparty is a person, not a merchant to link
+                    merchantId: input.merchantId === null
+                        ? null
+                        : await resolveMerchantId(transaction.organizationId, accepted.description),
+                }),
+                baseAmount: converted.baseAmount,
+                fxRate: converted.fxRate,
+            },
+            confidence,
+            fieldConfidence,
+            status,
+            ...(rejected.length === 0 && { provenance: input.provenance }),
+        });
+    }
+    return {
+        id: transaction.id,
+        changes,
+        applied,
+        confidence: input.confidence, // Of the new extraction
+        status: input.status, // The new extraction would get
+        provenance: parsed.provenance,
+        transaction: updated, // Null when nothing was saved
+    };
+}
+/**
+ * Re-extract a page of the organization's transactions below a confidence threshold
+ * Transactions imported from CSV or OFX files are skipped, as their amounts and dates
+ * came from the file. Accepted changes are only saved for transactions the new
+ * extraction is more confident about; transactions that cannot be re-extracted are reported in
+ * `failures` instead of failing the page
+ */
+export async function reextractTransactions(params) {
+    const { organization } = params;
+    const page = await getTransactionsBelowConfidence({
+        organizationId: organization.id,
+        maxConfidence: params.maxConfidence,
+        limit: params.limit,
+        cursor: params.cursor,
+        excludeExtractors: FILE_IMPORT_EXTRACTORS,
+    });
+    const items = [];
+    const failures = [];
+    for (const transaction of page.items) {
+        try {
+            items.push(await reextractTransaction({
+                transaction,
+                organization,
+                accept: params.accept,
+                onlyIfMoreConfident: true,
+            }));
+        }
+        catch (error) {
+            failures.push({
+                id: transaction.id,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+    return {
+        items,
+        failures,
+        changedCount: items.filter((item) => item.changes.length > 0).length,
+        appliedCount: items.filter((item) => item.applied.length > 0).length,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+    };
+}
@@ -0,0 +1,185 @@
+import { createHash } from 'node:crypto';
+import { extractTransactionWithBedrock, getBedrockModelId, isBedrockConfigured } from './bedrock.js';
+import { extractTransactionWithOpenAI, isOpenAIConfigured } from './openai.js';
+import { parseTransactionTextWithRegex } from './regex-parser.js';
+import { resolvePromptVersion } from './prompt.js';
+import { overallConfidence, uniformConfidence } from './confidence.js';
+import { extractReferences, mergeReferences } from './references.js';
+import { findNumericDate } from './dates.js';
+import { estimateCost } from './token-usage.js';
+/**
+ * Convert an LLM result (ISO date string) into a parsed transaction
+ * References the model missed are filled in from the text. Numeric dates in the
+ * text are read with the context's date format instead of trusting the model's
+ * guess, and ones that could be DD/MM or MM/DD are left empty for review.
+ */
+export function toParsedTransaction(extracted, extractor, text, context = {}) {
+    // Convert date string to Date object
+    let dateObj = null;
+    if (extracted.date) {
+        dateObj = new Date(extracted.date);
+        if (isNaN(dateObj.getTime())) {
+            dateObj = null;
+        }
+    }
+    let fieldConfidence = extracted.fieldConfidence;
+    let confidence = extracted.confidence;
+    const textDate = findNumericDate(text, context);
+    if (textDate) {
+        dateObj = textDate.date;
+        if (!textDate.date) {
+            fieldConfidence = { ...fieldConfidence, date: 0 };
+            confidence = overallConfidence(fieldConfidence);
+        }
+    }
+    return {
+        amount: extracted.amount,
+        date: dateObj,
+        description: extracted.description,
+        category: extracted.category,
+        direction: extracted.direction,
+        currency: extracted.currency,
+        confidence,
+        fieldConfidence,
+        references: mergeReferences(extractReferences(text), extracted.references),
+        ...(textDate?.ambiguous && { dateAmbiguous: true }),
+        provenance: {
+            extractor,
+            modelId: extracted.modelId || null,
+            promptVersion: resolvePromptVersion(context.promptVersion),
+            reasoning: extracted.reasoning || null,
+            latencyMs: null,
+            rawOutput: extracted.rawOutput || null,
+            inputTokens: extracted.usage?.inputTokens ?? null,
+            outputTokens: extracted.usage?.outputTokens ?? null,
+            costUsd: estimateCost(extracted.modelId, extracted.usage),
+        },
+    };
+}
+const bedrockExtractor = {
+    name: 'bedrock',
+    isConfigured: isBedrockConfigured,
+    modelId: getBedrockModelId,
+    extract: async (text, context = {}) => toParsedTransaction(await extractTransactionWithBedrock(text, context), 'bedrock', text, context),
+};
+const openAIExtractor = {
+    name: 'openai',
+    isConfigured: isOpenAIConfigured,
+    modelId: () => process.env.OPENAI_MODEL || null,
+    extract: async (text, context = {}) => toParsedTransaction(await extractTransactionWithOpenAI(text, context), 'openai', text, context),
+};
+const regexExtractor = {
+    name: 'regex',
+    isConfigured: () => true,
+    extract: async (text, context) => parseTransactionTextWithRegex(text, context),
+};
+// Canned results for the fake extractor, keyed by exact input text
+const fakeResponses = new Map();
+/**
+ * Deterministic offline extractor for tests and local development
+ * Returns a registered response for known text, otherwise the regex result
+ * with a fixed confidence so output never depends on network or credentials
+ */
+const fakeExtractor = {
+    name: 'fake',
+    isConfigured: () => true,
+    extract: async (text, context) => {
+        const canned = fakeResponses.get(text);
+        if (canned) {
+            return { ...canned };
+        }
+        const parsed = parseTransactionTextWithRegex(text, context);
+        const score = parsed.amount !== null ? 0.9 : 0;
+        return {
+            ...parsed,
+            confidence: score,
+            fieldConfidence: uniformConfidence(score),
+        };
+    },
+};
+const extractors = new Map([
+    [bedrockExtractor.name, bedrockExtractor],
+    [openAIExtractor.name, openAIExtractor],
+    [regexExtractor.name, regexExtractor],
+    [fakeExtractor.name, fakeExtractor],
+]);
+/**
+ * Register (or replace) an extraction provider
+ */
+export function registerExtractor(extractor) {
+    extractors.set(extractor.name, extractor);
+}
+/**
+ * Get an extraction provider by name
+ */
+export function getExtractor(name) {
+    return extractors.get(name) || null;
+}
+/**
+ * Check if a name refers to a registered extraction provider
+ */
+export function isExtractorName(name) {
+    return typeof name === 'string' && extractors.has(name);
+}
+/**
+ * Pick the extractor to use for a request
+ * Order: explicit preference (organization setting), TRANSACTION_EXTRACTOR env,
+ * then Bedrock if configured. Unknown or unconfigured providers fall back to regex.
+ */
+export function resolveExtractor(preferred) {
+    for (const name of [preferred, process.env.TRANSACTION_EXTRACTOR]) {
+        if (!name)
+            continue;
+        const extractor = extractors.get(name);
+        if (extractor?.isConfigured()) {
+            return extractor;
+        }
+        console.warn(`Extractor "${name}" is not available, falling back`);
+    }
+    if (bedrockExtractor.isConfigured()) {
+        return bedrockExtractor;
+    }
+    return regexExtractor;
+}
+function fingerprint(lines) {
+    return createHash('sha256').update(lines.join('\n')).digest('hex').slice(0, 12);
+}
+/**
+ * Identify what produced an extraction result (provider, model, prompt version,
+ * the organization's categories, any learned merchant categories and custom
+ * instructions in the prompt, and the date hints numeric dates were read with)
+ * Cached results are only reused while this stays the same
+ */
+export function getExtractorVersion(extractor, context = {}) {
+    const parts = [extractor.name, extractor.modelId?.() || 'none', resolvePromptVersion(context.promptVersion)];
+    if (context.categories) {
+        parts.push(fingerprint(context.categories.map((category) => JSON.stringify(category))));
+    }
+    const examples = context.merchantCategories || [];
+    if (examples.length > 0) {
+        parts.push(fingerprint(examples.map((example) => `${example.merchantKey}=${example.category}`)));
+    }
+    if (context.instructions) {
+        parts.push(fingerprint([context.instructions]));
+    }
+    if (context.dateFormat || context.statementPeriod) {
+        const period = context.statementPeriod;
+        parts.push(fingerprint([
+            context.dateFormat || 'auto',
+            period ? `${period.from.toISOString()}/${period.to.toISOString()}` : 'none',
+        ]));
+    }
+    return parts.join(':');
+}
+/**
+ * Register a canned response for the fake extractor (useful for testing)
+ */
+export function setFakeExtractorResponse(text, result) {
+    fakeResponses.set(text, result);
+}
+/**
+ * Clear all canned fake extractor responses (useful for testing)
+ */
+export function clearFakeExtractorResponses() {
+    fakeResponses.clear();
+}
@@ -0,0 +1,281 @@
+import { createHash } from 'node:crypto'
+import { extractTransactionWithBedrock, getBedrockModelId, isBedrockConfigured } from './bedrock.js'
+import { extractTransactionWithOpenAI, isOpenAIConfigured } from './openai.js'
+import { parseTransactionTextWithRegex } from './regex-parser.js'
+import { resolvePromptVersion } from './prompt.js'
+import type { ExtractedTransaction } from './prompt.js'
+import { overallConfidence, uniformConfidence } from './confidence.js'
+import type { FieldConfidence } from './confidence.js'
+import type { MerchantCategoryMapping } from './merchant-mapping.js'
+import type { CategoryDefinition } from './category-taxonomy.js'
+import { extractReferences, mergeReferences } from './references.js'
+import type { TransactionReferences } from './references.js'
+import { findNumericDate } from './dates.js'
+import type { DateFormat, StatementPeriod } from './dates.js'
+import { estimateCost } from './token-usage.js'
+
+export type TransactionDirection = 'debit' | 'credit'
+
+export interface ParsedTransaction {
+  amount: number | null // Always positive, see direction
+  date: Date | null
+  description: string | null
+  category: string | null
+  direction: TransactionDirection
+  currency: string // ISO 4217 code
+  confidence: number // Derived from fieldConfidence
+  fieldConfidence: FieldConfidence
+  references: TransactionReferences // UPI IDs, UTRs, cheque and account numbers
+  dateAmbiguous?: boolean // Numeric date reads as DD/MM or MM/DD and was left empty for review
+  provenance?: ExtractionProvenance
+}
+
+/**
+ * How a transaction was extracted, stored alongside it for auditing
+ */
+export interface ExtractionProvenance {
+  extractor: string // Provider that produced the result
+  modelId: string | null
+  promptVersion: string | null
+  reasoning: string | null
+  latencyMs: number | null // Set by the extraction pipeline
+  rawOutput: string | null // Unparsed model reply
+  cached?: boolean // Served from the extraction cache
+  inputTokens?: number | null // Model usage over all attempts; null if not reported
+  outputTokens?: number | null
+  costUsd?: number | null // Estimated from list prices; null for unknown models
+}
+
+/**
+ * Organization knowledge passed to a provider along with the text
+ */
+export interface ExtractionContext {
+  categories?: CategoryDefinition[] // Taxonomy results must use, defaults to DEFAULT_CATEGORIES
+  merchantCategories?: MerchantCategoryMapping[] // Learned mappings for merchants in the text
+  dateFormat?: DateFormat | null // Order of numeric dates, null when unknown
+  statementPeriod?: StatementPeriod | null // Dates the statement covers, to tell DD/MM from MM/DD
+  promptVersion?: string | null // Prompt template to use, see resolvePromptVersion
+  instructions?: string | null // The organization's own instructions, added to the prompt
+}
+
+/**
+ * A provider that turns raw statement text into a parsed transaction
+ */
+export interface TransactionExtractor {
+  name: string
+  isConfigured(): boolean
+  extract(text: string, context?: ExtractionContext): Promise<ParsedTransaction>
+  modelId?(): string | null
+}
+
+/**
+ * Convert an LLM result (ISO date string) into a parsed transaction
+ * References the model missed are filled in from the text. Numeric dates in the
+ * text are read with the context's date format instead of trusting the model's
+ * guess, and ones that could be DD/MM or MM/DD are left empty for review.
+ */
+export function toParsedTransaction(
+  extracted: ExtractedTransaction,
+  extractor: string,
+  text: string,
+  context: ExtractionContext = {}
+): ParsedTransaction {
+  // Convert date string to Date object
+  let dateObj: Date | null = null
+  if (extracted.date) {
+    dateObj = new Date(extracted.date)
+    if (isNaN(dateObj.getTime())) {
+      dateObj = null
+    }
+  }
+
+  let fieldConfidence = extracted.fieldConfidence
+  let confidence = extracted.confidence
+  const textDate = findNumericDate(text, context)
+  if (textDate) {
+    dateObj = textDate.date
+    if (!textDate.date) {
+      fieldConfidence = { ...fieldConfidence, date: 0 }
+      confidence = overallConfidence(fieldConfidence)
+    }
+  }
+
+  return {
+    amount: extracted.amount,
+    date: dateObj,
+    description: extracted.description,
+    category: extracted.category,
+    direction: extracted.direction,
+    currency: extracted.currency,
+    confidence,
+    fieldConfidence,
+    references: mergeReferences(extractReferences(text), extracted.references),
+    ...(textDate?.ambiguous && { dateAmbiguous: true }),
+    provenance: {
+      extractor,
+      modelId: extracted.modelId || null,
+      promptVersion: resolvePromptVersion(context.promptVersion),
+      reasoning: extracted.reasoning || null,
+      latencyMs: null,
+      rawOutput: extracted.rawOutput || null,
+      inputTokens: extracted.usage?.inputTokens ?? null,
+      outputTokens: extracted.usage?.outputTokens ?? null,
+      costUsd: estimateCost(extracted.modelId, extracted.usage),
+    },
+  }
+}
+
+const bedrockExtractor: TransactionExtractor = {
+  name: 'bedrock',
+  isConfigured: isBedrockConfigured,
+  modelId: getBedrockModelId,
+  extract: async (text, context = {}) =>
+    toParsedTransaction(await extractTransactionWithBedrock(text, context), 'bedrock', text, context),
+}
+
+const openAIExtractor: TransactionExtractor = {
+  name: 'openai',
+  isConfigured: isOpenAIConfigured,
+  modelId: () => process.env.OPENAI_MODEL || null,
+  extract: async (text, context = {}) =>
+    toParsedTransaction(await extractTransactionWithOpenAI(text, context), 'openai', text, context),
+}
+
+const regexExtractor: TransactionExtractor = {
+  name: 'regex',
+  isConfigured: () => true,
+  extract: async (text, context) => parseTransactionTextWithRegex(text, context),
+}
+
+// Canned results for the fake extractor, keyed by exact input text
+const fakeResponses = new Map<string, ParsedTransaction>()
+
+/**
+ * Deterministic offline extractor for tests and local development
+ * Returns a registered response for known text, otherwise the regex result
+ * with a fixed confidence so output never depends on network or credentials
+ */
+const fakeExtractor: TransactionExtractor = {
+  name: 'fake',
+  isConfigured: () => true,
+  extract: async (text, context) => {
+    const canned = fakeResponses.get(text)
+    if (canned) {
+      return { ...canned }
+    }
+
+    const parsed = parseTransactionTextWithRegex(text, context)
+    const score = parsed.amount !== null ? 0.9 : 0
+    return {
+      ...parsed,
+      confidence: score,
+      fieldConfidence: uniformConfidence(score),
+    }
+  },
+}
+
+const extractors = new Map<string, TransactionExtractor>([
+  [bedrockExtractor.name, bedrockExtractor],
+  [openAIExtractor.name, openAIExtractor],
+  [regexExtractor.name, regexExtractor],
+  [fakeExtractor.name, fakeExtractor],
+])
+
+/**
+ * Register (or replace) an extraction provider
+ */
+export function registerExtractor(extractor: TransactionExtractor) {
+  extractors.set(extractor.name, extractor)
+}
+
+/**
+ * Get an extraction provider by name
+ */
+export function getExtractor(name: string): TransactionExtractor | null {
+  return extractors.get(name) || null
+}
+
+/**
+ * Check if a name refers to a registered extraction provider
+ */
+export function isExtractorName(name: unknown): name is string {
+  return typeof name === 'string' && extractors.has(name)
+}
+
+/**
+ * Pick the extractor to use for a request
+ * Order: explicit preference (organization setting), TRANSACTION_EXTRACTOR env,
+ * then Bedrock if configured. Unknown or unconfigured providers fall back to regex.
+ */
+export function resolveExtractor(preferred?: string | null): TransactionExtractor {
+  for (const name of [preferred, process.env.TRANSACTION_EXTRACTOR]) {
+    if (!name) continue
+
+    const extractor = extractors.get(name)
+    if (extractor?.isConfigured()) {
+      return extractor
+    }
+
+    console.warn(`Extractor "${name}" is not available, falling back`)
+  }
+
+  if (bedrockExtractor.isConfigured()) {
+    return bedrockExtractor
+  }
+
+  return regexExtractor
+}
+
+function fingerprint(lines: string[]): string {
+  return createHash('sha256').update(lines.join('\n')).digest('hex').slice(0, 12)
+}
+
+/**
+ * Identify what produced an extraction result (provider, model, prompt version,
+ * the organization's categories, any learned merchant categories and custom
+ * instructions in the prompt, and the date hints numeric dates were read with)
+ * Cached results are only reused while this stays the same
+ */
+export function getExtractorVersion(
+  extractor: TransactionExtractor,
+  context: ExtractionContext = {}
+): string {
+  const parts = [extractor.name, extractor.modelId?.() || 'none', resolvePromptVersion(context.promptVersion)]
+
+  if (context.categories) {
+    parts.push(fingerprint(context.categories.map((category) => JSON.stringify(category))))
+  }
+
+  const examples = context.merchantCategories || []
+  if (examples.length > 0) {
+    parts.push(fingerprint(examples.map((example) => `${example.merchantKey}=${example.category}`)))
+  }
+
+  if (context.instructions) {
+    parts.push(fingerprint([context.instructions]))
+  }
+
+  if (context.dateFormat || context.statementPeriod) {
+    const period = context.statementPeriod
+    parts.push(fingerprint([
+      context.dateFormat || 'auto',
+      period ? `${period.from.toISOString()}/${period.to.toISOString()}` : 'none',
+    ]))
+  }
+
+  return parts.join(':')
+}
+
+/**
+ * Register a canned response for the fake extractor (useful for testing)
+ */
+export function setFakeExtractorResponse(text: string, result: ParsedTransaction) {
+  fakeResponses.set(text, result)
+}
+
+/**
+ * Clear all canned fake extractor responses (useful for testing)
+ */
+export function clearFakeExtractorResponses() {
+  fakeResponses.clear()
+}
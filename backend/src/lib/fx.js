@@ -0,0 +1,91 @@
+import { prisma } from './db.js';
+/**
+ * Insert or replace FX rates for an organization
+ * A rate for the same currency pair and effective date is overwritten
+ */
+export async function upsertFxRates(params) {
+    const { organizationId, baseCurrency, rates } = params;
+    return await prisma.$transaction(rates.map((rate) => {
+        const effectiveDate = new Date(rate.effectiveDate);
+        return prisma.fxRate.upsert({
+            where: {
+                organizationId_currency_baseCurrency_effectiveDate: {
+                    organizationId,
+                    currency: rate.currency,
+                    baseCurrency,
+                    effectiveDate,
+                },
+            },
+            create: {
+                organizationId,
+                currency: rate.currency,
+                baseCurrency,
+                rate: rate.rate,
+                effectiveDate,
+            },
+            update: {
+                rate: rate.rate,
+            },
+        });
+    }));
+}
+/**
+ * Get all FX rates for an organization, newest first per currency
+ */
+export async function getFxRates(organizationId) {
+    return await prisma.fxRate.findMany({
+        where: {
+            organizationId,
+        },
+        orderBy: [
+            { currency: 'asc' },
+            { effectiveDate: 'desc' },
+        ],
+    });
+}
+/**
+ * Find the rate in effect on a date (latest rate on or before it)
+ */
+export async function findFxRate(params) {
+    return await prisma.fxRate.findFirst({
+        where: {
+            organizationId: params.organizationId,
+            currency: params.currency,
+            baseCurrency: params.baseCurrency,
+            effectiveDate: {
+                lte: params.date,
+            },
+        },
+        orderBy: {
+            effectiveDate: 'desc',
+        },
+    });
+}
+/**
+ * Fill in baseAmount and fxRate for a new or corrected transaction
+ * Uses the rate effective on the transaction date (or today if unknown).
+ * Leaves both null when the organization has no rate for the currency.
+ */
+export async function withBaseAmount(data, baseCurrency) {
+    const currency = data.currency || baseCurrency;
+    if (data.amount === null) {
+        return { ...data, baseAmount: null, fxRate: null };
+    }
+    if (currency === baseCurrency) {
+        return { ...data, baseAmount: data.amount, fxRate: 1 };
+    }
+    const fxRate = await findFxRate({
+        organizationId: data.organizationId,
+        currency,
+        baseCurrency,
+        date: data.date || new Date(),
+    });
+    if (!fxRate) {
+        return { ...data, baseAmount: null, fxRate: null };
+    }
+    return {
+        ...data,
+        baseAmount: Math.round(data.amount * fxRate.rate * 100) / 100,
+        fxRate: fxRate.rate,
+    };
+}
@@ -0,0 +1,43 @@
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export type ExtractionJobKind = 'transaction' | 'statement' | 'csv'
+
+export const MAX_JOB_ATTEMPTS = 3
+
+// A job still processing after this long is assumed lost (crashed worker, frozen Lambda) and is picked up again
+export const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000
+
+// A running job refreshes its lock this often, well inside the timeout
+export const JOB_LOCK_REFRESH_MS = 60 * 1000
+
+// Finished jobs and their results are deleted after this long
+export const JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+const BASE_RETRY_DELAY_MS = 5 * 1000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+/**
+ * How long to wait before retrying a job that failed on the given attempt
+ * Doubles each attempt (5s, 10s, 20s...) up to five minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Whether a job has reached a status it will not leave
+ */
+export function isJobFinished(status: string): boolean {
+  return status === 'completed' || status === 'failed'
+}
+
+/**
+ * Decide what happens to a job after a failed attempt
+ * Returns the retry time, or null when the job has used all its attempts
+ */
+export function getNextRunAt(attempts: number, maxAttempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= maxAttempts) {
+    return null
+  }
+  return new Date(now.getTime() + getRetryDelay(attempts))
+}
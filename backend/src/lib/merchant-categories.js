@@ -0,0 +1,34 @@
+import { prisma } from './db.js';
+import { normalizeMerchantKey } from './merchant-mapping.js';
+/**
+ * Get the merchant → category mappings an organization has learned
+ */
+export async function getMerchantCategories(organizationId) {
+    return await prisma.merchantCategory.findMany({
+        where: { organizationId },
+        select: { merchantKey: true, category: true, exampleText: true },
+        orderBy: { updatedAt: 'desc' },
+    });
+}
+/**
+ * Remember the category a member corrected a transaction to, keyed by its merchant
+ * Returns null when the description has no merchant name to key on
+ */
+export async function rememberMerchantCategory(params) {
+    const merchantKey = normalizeMerchantKey(params.description);
+    if (!merchantKey) {
+        return null;
+    }
+    const data = {
+        category: params.category,
+        exampleText: params.text,
+        createdBy: params.userId,
+    };
+    return await prisma.merchantCategory.upsert({
+        where: {
+            organizationId_merchantKey: { organizationId: params.organizationId, merchantKey },
+        },
+        create: { organizationId: params.organizationId, merchantKey, ...data },
+        update: data,
+    });
+}
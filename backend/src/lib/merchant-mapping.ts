@@ -0,0 +1,84 @@
+/**
+ * A merchant → category mapping learned from a member's correction
+ */
+export interface MerchantCategoryMapping {
+  merchantKey: string // See normalizeMerchantKey
+  category: string
+  exampleText: string // Statement text of the corrected transaction
+}
+
+// Most mappings an extraction prompt includes as few-shot examples
+export const MAX_FEW_SHOT_EXAMPLES = 5
+
+// Payment rails, statement jargon and bank codes that never identify a merchant
+const NOISE_WORDS = new Set([
+  'upi', 'neft', 'imps', 'rtgs', 'nach', 'ach', 'ecs', 'pos', 'atm',
+  'dr', 'cr', 'to', 'by', 'from', 'transfer', 'trf', 'payment', 'ref', 'txn', 'vpa',
+  'debit', 'credit', 'card', 'inr', 'rs', 'via', 'the', 'pvt', 'ltd', 'limited',
+  'yesb', 'hdfc', 'icic', 'sbin', 'utib', 'kkbk', 'punb', 'barb', 'ybl', 'okaxis', 'oksbi', 'okicici', 'okhdfcbank',
+  'www', 'com', 'in', 'co',
+])
+
+// Branch and terminal locations appended to card and POS descriptions ("POS SWIGGY BANGALORE")
+const LOCATION_WORDS = new Set([
+  'india', 'mumbai', 'bombay', 'delhi', 'bangalore', 'bengaluru', 'chennai', 'hyderabad',
+  'kolkata', 'pune', 'gurgaon', 'gurugram', 'noida', 'ahmedabad', 'jaipur', 'kochi', 'lucknow',
+])
+
+/**
+ * Reduce a description or statement line to the words that name the merchant
+ * "UPI/SWIGGY/534512345678/Payment", "POS SWIGGY BANGALORE" and "swiggy@yb SWIGGY"
+ * all become "swiggy"
+ */
+export function normalizeMerchantKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\w.-]+@[\w.-]+/g, ' ') // VPAs and emails
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    // Words with digits are references or masked card and account numbers
+    .filter((word) => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word) && !LOCATION_WORDS.has(word))
+    .join(' ')
+}
+
+/**
+ * Display name for a merchant first seen under a normalized key ("starbucks coffee" → "Starbucks Coffee")
+ */
+export function formatMerchantName(merchantKey: string): string {
+  return merchantKey.replace(/\b[a-z]/g, (letter) => letter.toUpperCase())
+}
+
+/**
+ * Mappings whose merchant appears in the text, most specific (longest key) first
+ */
+export function matchMerchantCategories(
+  text: string,
+  mappings: MerchantCategoryMapping[]
+): MerchantCategoryMapping[] {
+  const normalized = ` ${normalizeMerchantKey(text)} `
+  return mappings
+    .filter((mapping) => mapping.merchantKey && normalized.includes(` ${mapping.merchantKey} `))
+    .sort((a, b) => b.merchantKey.length - a.merchantKey.length)
+}
+
+/**
+ * Category learned for the merchant in the text, or null if none applies
+ */
+export function findMerchantCategory(
+  text: string,
+  mappings: MerchantCategoryMapping[]
+): string | null {
+  return matchMerchantCategories(text, mappings)[0]?.category || null
+}
+
+/**
+ * Pick the learned mappings to show an AI provider as few-shot examples
+ * Only merchants that appear in the text are included, so the prompt (and the
+ * extraction cache key) only changes when a relevant correction is made
+ */
+export function selectFewShotExamples(
+  text: string,
+  mappings: MerchantCategoryMapping[]
+): MerchantCategoryMapping[] {
+  return matchMerchantCategories(text, mappings).slice(0, MAX_FEW_SHOT_EXAMPLES)
+}
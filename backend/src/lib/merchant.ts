@@ -0,0 +1,134 @@
+import { randomUUID } from 'node:crypto'
+import { prisma } from './db.js'
+import { formatMerchantName, normalizeMerchantKey } from './merchant-mapping.js'
+
+const merchantInclude = {
+  aliases: {
+    select: { alias: true },
+    orderBy: { alias: 'asc' as const },
+  },
+  _count: {
+    select: { transactions: true },
+  },
+}
+
+/**
+ * Get an organization's merchants with their aliases and transaction counts
+ */
+export async function getMerchants(organizationId: string) {
+  return await prisma.merchant.findMany({
+    where: { organizationId },
+    include: merchantInclude,
+    orderBy: { name: 'asc' },
+  })
+}
+
+/**
+ * Get a merchant by ID (with organization check)
+ */
+export async function getMerchantById(id: string, organizationId: string) {
+  return await prisma.merchant.findFirst({
+    where: { id, organizationId },
+    include: merchantInclude,
+  })
+}
+
+/**
+ * Find the merchant for a transaction description, creating one on first sight
+ * Returns null when the description has no merchant name to key on
+ */
+export async function resolveMerchantId(
+  organizationId: string,
+  description: string | null
+): Promise<string | null> {
+  const alias = description ? normalizeMerchantKey(description) : ''
+  if (!alias) {
+    return null
+  }
+
+  const where = { organizationId_alias: { organizationId, alias } }
+
+  const existing = await prisma.merchantAlias.findUnique({ where })
+  if (existing) {
+    return existing.merchantId
+  }
+
+  try {
+    const merchant = await prisma.merchant.create({
+      data: {
+        organizationId,
+        name: formatMerchantName(alias),
+        aliases: { create: { organizationId, alias } },
+      },
+    })
+    return merchant.id
+  } catch (error) {
+    // Another request created the alias first
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      const created = await prisma.merchantAlias.findUnique({ where })
+      return created?.merchantId || null
+    }
+    throw error
+  }
+}
+
+/**
+ * Merge merchants into a target merchant
+ * Aliases and transactions move to the target and the merged merchants are deleted
+ */
+export async function mergeMerchants(params: {
+  organizationId: string
+  targetId: string
+  sourceIds: string[]
+}) {
+  const { organizationId, targetId, sourceIds } = params
+  const sources = { organizationId, merchantId: { in: sourceIds } }
+
+  await prisma.$transaction([
+    prisma.merchantAlias.updateMany({ where: sources, data: { merchantId: targetId } }),
+    prisma.transaction.updateMany({ where: sources, data: { merchantId: targetId } }),
+    prisma.merchant.deleteMany({ where: { organizationId, id: { in: sourceIds } } }),
+  ])
+
+  return await getMerchantById(targetId, organizationId)
+}
+
+/**
+ * Split aliases off a merchant into a new merchant
+ * Transactions whose description normalizes to a moved alias move with it
+ */
+export async function splitMerchant(params: {
+  organizationId: string
+  merchantId: string
+  aliases: string[]
+  name: string
+}) {
+  const { organizationId, merchantId, aliases } = params
+
+  const transactions = await prisma.transaction.findMany({
+    where: { organizationId, merchantId },
+    select: { id: true, description: true },
+  })
+  const movedIds = transactions
+    .filter((transaction) => aliases.includes(normalizeMerchantKey(transaction.description || '')))
+    .map((transaction) => transaction.id)
+
+  // Generate the ID up front so the merchant and the moves commit together
+  const id = randomUUID()
+
+  await prisma.$transaction([
+    prisma.merchant.create({
+      data: { id, organizationId, name: params.name },
+    }),
+    prisma.merchantAlias.updateMany({
+      where: { organizationId, merchantId, alias: { in: aliases } },
+      data: { merchantId: id },
+    }),
+    prisma.transaction.updateMany({
+      where: { id: { in: movedIds } },
+      data: { merchantId: id },
+    }),
+  ])
+
+  return await getMerchantById(id, organizationId)
+}
@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto'
+import type { TransactionDirection } from './extractor.js'
+import { buildDate } from './dates.js'
+import { isCurrencyCode } from './currency.js'
+
+export const MAX_OFX_BYTES = 5 * 1024 * 1024
+export const MAX_OFX_TRANSACTIONS = 2000
+
+/**
+ * One STMTTRN record of an OFX/QFX statement
+ */
+export interface OfxTransaction {
+  externalId: string // Hashed account id and FITID, unique per organization so re-imports can be skipped
+  fitId: string
+  maskedAccount: string | null // Last four characters of ACCTID, e.g. "XX1234"
+  type: string | null // TRNTYPE, e.g. "DEBIT", "POS", "CHECK"
+  date: Date | null // DTPOSTED (the time and time zone are ignored)
+  amount: number // Always positive, see direction
+  direction: TransactionDirection // From the sign of TRNAMT
+  currency: string
+  name: string | null // Payee
+  memo: string | null
+  checkNumber: string | null
+  text: string // The record's fields, for storing as the transaction text
+}
+
+export interface OfxStatement {
+  transactions: OfxTransaction[]
+  failures: { fitId: string | null; text: string; error: string }[]
+}
+
+/**
+ * Value of a leaf element, closed (XML) or not (SGML: "<TRNAMT>-20.00" up to the next tag or line)
+ */
+function readElement(block: string, tag: string): string | null {
+  const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]
+  return value?.trim() ? decodeEntities(value.trim()) : null
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Contents of every <TAG>...</TAG> aggregate (aggregates are closed in both variants)
+ */
+function readAggregates(text: string, tag: string): string[] {
+  return [...text.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi'))].map((match) => match[1])
+}
+
+/**
+ * Read an OFX date (YYYYMMDD, optionally followed by a time and [offset:TZ])
+ */
+export function parseOfxDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null
+}
+
+/**
+ * Read an OFX amount; some exporters write a decimal comma
+ */
+export function parseOfxAmount(value: string | null): number | null {
+  if (!value) {
+    return null
+  }
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.')
+  const amount = Number(normalized.replace(/^\+/, ''))
+  return isFinite(amount) && /^[+-]?\d/.test(normalized) ? amount : null
+}
+
+/**
+ * Read the transactions of an OFX or QFX file (SGML 1.x or XML 2.x)
+ * Each bank (STMTRS) or card (CCSTMTRS) statement in the file uses its own account
+ * id and default currency (CURDEF); a transaction's own CURRENCY overrides the latter.
+ * Records without a FITID or a readable amount are reported in `failures`.
+ */
+export function parseOfx(text: string, defaultCurrency: string): OfxStatement | { error: string } {
+  if (!/<OFX>/i.test(text)) {
+    return { error: 'Not an OFX or QFX file' }
+  }
+
+  const statements = [...readAggregates(text, 'STMTRS'), ...readAggregates(text, 'CCSTMTRS')]
+  const transactions: OfxTransaction[] = []
+  const failures: OfxStatement['failures'] = []
+
+  for (const statement of statements.length > 0 ? statements : [text]) {
+    const curdef = readElement(statement, 'CURDEF')?.toUpperCase()
+    const statementCurrency = curdef && isCurrencyCode(curdef) ? curdef : defaultCurrency
+    const accountId = readElement(statement, 'ACCTID')
+    // FITIDs are only unique within an account; the account number itself is not stored
+    const accountKey = createHash('sha256').update(accountId || '').digest('hex').substring(0, 16)
+
+    for (const record of readAggregates(statement, 'STMTTRN')) {
+      const fitId = readElement(record, 'FITID')
+      const type = readElement(record, 'TRNTYPE')
+      const rawDate = readElement(record, 'DTPOSTED')
+      const rawAmount = readElement(record, 'TRNAMT')
+      const name = readElement(record, 'NAME')
+      const memo = readElement(record, 'MEMO')
+      const recordText = [rawDate, type, name, memo, rawAmount].filter(Boolean).join(' | ')
+
+      const amount = parseOfxAmount(rawAmount)
+      if (!fitId) {
+        failures.push({ fitId: null, text: recordText, error: 'Transaction has no FITID' })
+        continue
+      }
+      if (amount === null) {
+        failures.push({ fitId, text: recordText, error: 'Transaction has no readable TRNAMT' })
+        continue
+      }
+
+      const currencyAggregate = readAggregates(record, 'CURRENCY')[0]
+      const cursym = currencyAggregate ? readElement(currencyAggregate, 'CURSYM')?.toUpperCase() : null
+
+      transactions.push({
+        externalId: `ofx:${accountKey}:${fitId}`,
+        fitId,
+        maskedAccount: accountId && accountId.length > 4 ? `XX${accountId.slice(-4)}` : null,
+        type,
+        date: parseOfxDate(rawDate),
+        amount: Math.abs(amount),
+        direction: amount < 0 ? 'debit' : 'credit',
+        currency: cursym && isCurrencyCode(cursym) ? cursym : statementCurrency,
+        name,
+        memo,
+        checkNumber: readElement(record, 'CHECKNUM'),
+        text: recordText,
+      })
+    }
+  }
+
+  return { transactions, failures }
+}
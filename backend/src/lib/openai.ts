@@ -0,0 +1,80 @@
+import { extractWithValidation } from './prompt.js'
+import type { ExtractedTransaction } from './prompt.js'
+import type { ExtractionContext } from './extractor.js'
+import { addTokenUsage, withFailedCallUsage } from './token-usage.js'
+import type { TokenUsage } from './token-usage.js'
+
+// OpenAI-compatible chat completions endpoint
+// Works with OpenAI, Azure OpenAI proxies, vLLM, LM Studio and Ollama (http://localhost:11434/v1)
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+/**
+ * Extract transaction details using an OpenAI-compatible chat completions API
+ * Throws on network or response errors so the caller can fall back to regex parsing,
+ * with the usage of earlier calls attached; invalid replies are re-prompted and end
+ * in a zero-confidence result
+ */
+export async function extractTransactionWithOpenAI(
+  text: string,
+  context: ExtractionContext = {}
+): Promise<ExtractedTransaction> {
+  const baseUrl = process.env.OPENAI_BASE_URL!.replace(/\/+$/, '')
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  }
+  // Local servers such as Ollama do not require an API key
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`
+  }
+
+  let usage: TokenUsage | null = null
+
+  const extracted = await extractWithValidation(text, async (messages) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: process.env.OPENAI_MODEL,
+        temperature: 0.1, // Low temperature for consistent extraction
+        messages,
+      }),
+      signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API returned ${response.status}`)
+    }
+
+    const responseBody = await response.json()
+    // Some local servers leave usage out
+    if (responseBody.usage) {
+      usage = addTokenUsage(usage, {
+        inputTokens: responseBody.usage.prompt_tokens || 0,
+        outputTokens: responseBody.usage.completion_tokens || 0,
+      })
+    }
+    const responseText = responseBody.choices?.[0]?.message?.content?.trim()
+
+    if (!responseText) {
+      throw new Error('OpenAI-compatible API returned an empty response')
+    }
+
+    return responseText
+  }, context).catch((error) => {
+    throw withFailedCallUsage(error, process.env.OPENAI_MODEL, usage)
+  })
+
+  return {
+    ...extracted,
+    modelId: process.env.OPENAI_MODEL,
+    usage,
+  }
+}
+
+/**
+ * Check if an OpenAI-compatible endpoint is configured
+ */
+export function isOpenAIConfigured(): boolean {
+  return !!(process.env.OPENAI_BASE_URL && process.env.OPENAI_MODEL)
+}
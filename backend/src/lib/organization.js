@@ -1,6 +1,7 @@
 import { prisma } from './db.js';
+import { DEFAULT_CATEGORIES } from './category-taxonomy.js';
 /**
- * Create a new organization with the creator as owner
+ * Create a new organization with the creator as owner and the default categories
  */
 export async function createOrganization(params) {
     const { name, slug, description, logo, creatorUserId } = params;
@@ -17,6 +18,9 @@ export async function createOrganization(params) {
                     role: 'owner',
                 },
             },
+            categories: {
+                create: DEFAULT_CATEGORIES.map(({ name, color, keywords, description }) => ({ name, color, keywords, description })),
+            },
         },
         include: {
             members: {
@@ -1,9 +1,10 @@
 import { prisma } from './db.js'
+import { DEFAULT_CATEGORIES } from './category-taxonomy.js'
 
 export type OrganizationRole = 'owner' | 'admin' | 'member'
 
 /**
- * Create a new organization with the creator as owner
+ * Create a new organization with the creator as owner and the default categories
  */
 export async function createOrganization(params: {
   name: string
@@ -27,6 +28,9 @@ export async function createOrganization(params: {
           role: 'owner',
         },
       },
+      categories: {
+        create: DEFAULT_CATEGORIES.map(({ name, color, keywords, description }) => ({ name, color, keywords, description })),
+      },
     },
     include: {
       members: {
@@ -285,6 +289,16 @@ export async function updateOrganization(params: {
   slug?: string
   description?: string
   logo?: string
+  extractor?: string | null
+  baseCurrency?: string
+  reviewThreshold?: number
+  dateFormat?: string | null
+  redactionRules?: string[]
+  redactStoredText?: boolean
+  keepRedactionMap?: boolean
+  monthlyTokenQuota?: number | null
+  promptVersion?: string | null
+  promptInstructions?: string | null
 }) {
   const { organizationId, ...data } = params
 
@@ -0,0 +1,129 @@
+import { hasRowDate, isSkippedLine } from './statement.js';
+export const MAX_PDF_BYTES = 10 * 1024 * 1024;
+// Baselines closer than this are on the same line (cells of one row are rarely exactly level)
+const LINE_TOLERANCE = 2;
+// A wrapped narration starts right of the row's first column
+const INDENT_TOLERANCE = 5;
+// Statement amounts carry two decimals: 420.00, 1,04,580.00
+const AMOUNT_PATTERN = /\d[\d,]*\.\d{2}\b/;
+/**
+ * Read a PDF's text as lines, page by page, decrypting it with the password if it has one
+ * Text is extracted locally with pdf.js; nothing is sent anywhere. Scanned statements
+ * have no text and come back as empty pages.
+ */
+export async function readPdfLines(data, password) {
+    const pdfjs = await loadPdfjs();
+    let document;
+    try {
+        document = await pdfjs.getDocument({
+            data,
+            password,
+            isEvalSupported: false,
+            disableFontFace: true,
+            verbosity: pdfjs.VerbosityLevel.ERRORS,
+        }).promise;
+    }
+    catch (error) {
+        const { name, code } = (error || {});
+        if (name === 'PasswordException') {
+            return code === pdfjs.PasswordResponses.INCORRECT_PASSWORD
+                ? { error: 'Incorrect PDF password', passwordRequired: true }
+                : { error: 'PDF is password protected; send password', passwordRequired: true };
+        }
+        if (name === 'InvalidPDFException') {
+            return { error: 'Not a readable PDF file' };
+        }
+        throw error;
+    }
+    try {
+        const pages = [];
+        for (let number = 1; number <= document.numPages; number++) {
+            const page = await document.getPage(number);
+            const content = await page.getTextContent();
+            const items = [];
+            for (const item of content.items) {
+                if ('str' in item) {
+                    items.push({ text: item.str, x: item.transform[4], y: item.transform[5] });
+                }
+            }
+            pages.push(groupTextLines(items));
+        }
+        return { pages };
+    }
+    finally {
+        await document.destroy();
+    }
+}
+/**
+ * Load pdf.js with its worker running on the main thread
+ * Importing the worker module here, rather than letting pdf.js load it from a file
+ * path, keeps it in the esbuild bundle
+ */
+async function loadPdfjs() {
+    if (!('pdfjsWorker' in globalThis)) {
+        // @ts-expect-error The worker build ships without type declarations
+        const worker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+        Object.assign(globalThis, { pdfjsWorker: worker });
+    }
+    return await import('pdfjs-dist/legacy/build/pdf.mjs');
+}
+/**
+ * Group the text items of a page into lines, top to bottom
+ * Items on one line are joined left to right with a space.
+ */
+export function groupTextLines(items) {
+    const sorted = items
+        .filter((item) => item.text.trim().length > 0)
+        .sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines = [];
+    for (const item of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line.y - item.y) <= LINE_TOLERANCE) {
+            line.items.push(item);
+        }
+        else {
+            lines.push({ y: item.y, items: [item] });
+        }
+    }
+    return lines.map((line) => {
+        const ordered = line.items.sort((a, b) => a.x - b.x);
+        return {
+            text: ordered.map((item) => item.text.trim()).join(' ').replace(/\s+/g, ' '),
+            x: ordered[0].x,
+        };
+    });
+}
+/**
+ * Find the transaction table rows of a statement's pages
+ * A row is a line with a date and an amount; lines indented past its start that
+ * follow it (wrapped narrations) are joined onto it, so each row is one line.
+ * Everything else (addresses, summaries, headers, footers) is dropped.
+ */
+export function findStatementRows(pages) {
+    const rows = [];
+    for (const lines of pages) {
+        let current = null;
+        const endRow = () => {
+            if (current)
+                rows.push(current.text);
+            current = null;
+        };
+        for (const line of lines) {
+            if (isSkippedLine(line.text)) {
+                endRow();
+            }
+            else if (hasRowDate(line.text) && AMOUNT_PATTERN.test(line.text)) {
+                endRow();
+                current = { ...line };
+            }
+            else if (current && line.x > current.x + INDENT_TOLERANCE) {
+                current.text = `${current.text} ${line.text}`;
+            }
+            else {
+                endRow();
+            }
+        }
+        endRow();
+    }
+    return rows;
+}
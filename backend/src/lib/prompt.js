@@ -0,0 +1,321 @@
+import { DEFAULT_CURRENCY, isCurrencyCode } from './currency.js';
+import { CONFIDENCE_FIELDS, overallConfidence, uniformConfidence } from './confidence.js';
+import { DEFAULT_CATEGORIES, formatCategoryGuidelines, getCategoryNames } from './category-taxonomy.js';
+import { REFERENCE_FIELDS } from './references.js';
+// Used unless the organization or EXTRACTION_PROMPT_VERSION picks another template
+export const DEFAULT_PROMPT_VERSION = 'v8';
+// Longest organization instructions accepted, to keep prompts (and cost) bounded
+export const MAX_PROMPT_INSTRUCTIONS_LENGTH = 2000;
+/**
+ * Quote category names for the prompt and validation errors
+ */
+function formatCategoryList(categories) {
+    return getCategoryNames(categories).map((name) => `"${name}"`).join(', ');
+}
+/**
+ * List an organization's category corrections as few-shot examples
+ */
+function buildExamplesSection(examples) {
+    if (examples.length === 0) {
+        return '';
+    }
+    const lines = examples.map((example) => `- ${JSON.stringify(example.exampleText.replace(/\s+/g, ' ').trim())} → ${JSON.stringify(example.category)}`);
+    return `
+This organization has corrected the category of these transactions before. Use the same category when the same merchant appears:
+${lines.join('\n')}
+`;
+}
+/**
+ * Add the organization's own instructions, below the built-in rules
+ */
+function buildInstructionsSection(instructions) {
+    if (!instructions) {
+        return '';
+    }
+    return `
+Additional instructions from this organization (follow them unless they conflict with the JSON format below):
+${instructions}
+`;
+}
+/**
+ * Prompt shared by v6 and later versions: categories from the organization's taxonomy
+ * and learned merchant categories relevant to the text as examples
+ * Published versions build on this text, so it must not change; later versions add
+ * their sections through `extraSections`, placed just before the JSON format, and
+ * describeCategories adds what each category covers to its guideline
+ */
+function buildTaxonomyPrompt(text, context, options = {}) {
+    const categories = context.categories || DEFAULT_CATEGORIES;
+    const guidelinesHeader = options.describeCategories
+        ? 'Categories guidelines (category: what it covers; typical keywords):'
+        : 'Categories guidelines (category: typical keywords):';
+    return `You are a financial transaction parser for Indian bank statements. Extract transaction details from the following bank statement text and return ONLY a valid JSON object with no additional text or markdown.
+
+Bank Statement Text:
+${text}
+
+Extract the following information:
+1. amount (number, always as positive value, null if not found)
+   - Recognize Indian Rupee (₹, Rs, INR, Rs.)
+   - Handle Indian number formats with commas (e.g., ₹1,00,000.00)
+   - Extract only the absolute value (e.g., -420.00 should be extracted as 420.00)
+   - Record the sign or debit/credit indicator in "direction" instead
+   - Amounts may be in foreign currencies (e.g., $45.00 card charges); do not convert them
+2. date (ISO 8601 format YYYY-MM-DD, null if not found)
+   - Support DD/MM/YYYY, DD-MM-YYYY formats common in India
+   - Support "DD Mon YYYY" format (e.g., 11 Dec 2025)
+3. description (merchant or transaction description, max 255 chars, null if not found)
+4. category (one of: ${formatCategoryList(categories)}, null if uncertain)
+   - Prefer the most specific subcategory that fits
+5. direction ("debit" for money leaving the account, "credit" for money coming in)
+   - Negative amounts, "Dr", "debited", "withdrawal", purchases and payments are debits
+   - "Cr", "credited", refunds, reversals, cashback, salary and deposits are credits
+   - A purchase made with a credit card is a debit
+   - Use "debit" if there is no indication either way
+6. currency (ISO 4217 code of the amount, e.g., "INR", "USD", "EUR")
+   - ₹, Rs, Rs. and INR are "INR"; $ is "USD" unless another dollar is stated (S$, A$, C$)
+   - Use "INR" if no currency is shown
+7. fieldConfidence (object with a number between 0 and 1 for each of "amount", "date", "description" and "category" indicating how certain that field is)
+8. references (object; copy each value exactly as written, null if not present)
+   - upiRef: 12-digit UPI transaction ID / RRN
+   - vpa: UPI address of the payee or payer (e.g., swiggy@ybl)
+   - utr: NEFT/RTGS UTR or IMPS reference number
+   - chequeNumber: 6-digit cheque number
+   - maskedAccount: masked account or card number (e.g., XX1234, 4521XXXXXXXX1234)
+9. reasoning (brief explanation of categorization)
+
+${guidelinesHeader}
+${formatCategoryGuidelines(categories, { descriptions: options.describeCategories })}
+${buildExamplesSection(context.merchantCategories || [])}${options.extraSections || ''}
+Return ONLY valid JSON in this exact format:
+{
+  "amount": 420.00,
+  "date": "2025-12-11",
+  "description": "STARBUCKS COFFEE MUMBAI",
+  "category": "Food & Dining",
+  "direction": "debit",
+  "currency": "INR",
+  "fieldConfidence": {
+    "amount": 0.98,
+    "date": 0.95,
+    "description": 0.9,
+    "category": 0.85
+  },
+  "references": {
+    "upiRef": null,
+    "vpa": null,
+    "utr": null,
+    "chequeNumber": null,
+    "maskedAccount": null
+  },
+  "reasoning": "Coffee shop transaction"
+}`;
+}
+const promptTemplates = new Map([
+    [
+        'v6',
+        {
+            version: 'v6',
+            description: 'Organization taxonomy, learned merchant examples and payment references',
+            build: (text, context) => buildTaxonomyPrompt(text, context),
+        },
+    ],
+    [
+        'v7',
+        {
+            version: 'v7',
+            description: 'Adds the organization\'s custom instructions',
+            build: (text, context) => buildTaxonomyPrompt(text, context, { extraSections: buildInstructionsSection(context.instructions) }),
+        },
+    ],
+    [
+        'v8',
+        {
+            version: 'v8',
+            description: 'Adds what each category covers, from the category descriptions',
+            build: (text, context) => buildTaxonomyPrompt(text, context, {
+                extraSections: buildInstructionsSection(context.instructions),
+                describeCategories: true,
+            }),
+        },
+    ],
+]);
+/**
+ * Register a prompt template (e.g. a candidate to compare against the default)
+ */
+export function registerPromptTemplate(template) {
+    promptTemplates.set(template.version, template);
+}
+/**
+ * Get all registered prompt templates
+ */
+export function getPromptTemplates() {
+    return [...promptTemplates.values()];
+}
+/**
+ * Check if a version names a registered prompt template
+ */
+export function isPromptVersion(version) {
+    return typeof version === 'string' && promptTemplates.has(version);
+}
+/**
+ * Pick the prompt version to use
+ * Order: explicit preference (organization setting), EXTRACTION_PROMPT_VERSION env,
+ * then DEFAULT_PROMPT_VERSION. Versions that are not registered are skipped.
+ */
+export function resolvePromptVersion(preference) {
+    for (const version of [preference, process.env.EXTRACTION_PROMPT_VERSION]) {
+        if (isPromptVersion(version)) {
+            return version;
+        }
+    }
+    return DEFAULT_PROMPT_VERSION;
+}
+/**
+ * Build the extraction prompt shared by all LLM providers with the context's
+ * prompt version (see resolvePromptVersion)
+ */
+export function buildExtractionPrompt(text, context = {}) {
+    return promptTemplates.get(resolvePromptVersion(context.promptVersion)).build(text, context);
+}
+// Initial attempt plus re-prompts with the validation errors
+export const MAX_EXTRACTION_ATTEMPTS = 3;
+function isIsoDate(value) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value))
+        return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+/**
+ * Validate a model reply against the extraction schema
+ * The reply must be a JSON object, optionally inside a single markdown code block,
+ * and its category must belong to the given taxonomy
+ */
+export function validateExtractionResponse(responseText, categories = DEFAULT_CATEGORIES) {
+    const categoryNames = getCategoryNames(categories);
+    const fenced = responseText.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    let raw;
+    try {
+        raw = JSON.parse(fenced ? fenced[1] : responseText);
+    }
+    catch (e) {
+        return { valid: false, errors: ['Response is not valid JSON'] };
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { valid: false, errors: ['Response must be a JSON object'] };
+    }
+    const extracted = raw;
+    const errors = [];
+    const { amount, date, description, category, direction, currency, fieldConfidence, references, reasoning } = extracted;
+    if (amount !== null && (typeof amount !== 'number' || !isFinite(amount))) {
+        errors.push('"amount" must be a number or null');
+    }
+    if (date !== null && (typeof date !== 'string' || !isIsoDate(date))) {
+        errors.push('"date" must be an ISO 8601 date (YYYY-MM-DD) or null');
+    }
+    if (description !== null && typeof description !== 'string') {
+        errors.push('"description" must be a string or null');
+    }
+    if (category !== null && (typeof category !== 'string' || !categoryNames.includes(category))) {
+        errors.push(`"category" must be one of ${formatCategoryList(categories)} or null`);
+    }
+    if (direction !== 'debit' && direction !== 'credit') {
+        errors.push('"direction" must be "debit" or "credit"');
+    }
+    if (typeof currency !== 'string' || !isCurrencyCode(currency.toUpperCase())) {
+        errors.push('"currency" must be a 3-letter ISO 4217 code');
+    }
+    if (!fieldConfidence || typeof fieldConfidence !== 'object') {
+        errors.push('"fieldConfidence" must be an object');
+    }
+    else {
+        for (const field of CONFIDENCE_FIELDS) {
+            const score = fieldConfidence[field];
+            if (typeof score !== 'number' || score < 0 || score > 1) {
+                errors.push(`"fieldConfidence.${field}" must be a number between 0 and 1`);
+            }
+        }
+    }
+    if (references !== undefined && references !== null) {
+        if (typeof references !== 'object' || Array.isArray(references)) {
+            errors.push('"references" must be an object');
+        }
+        else {
+            for (const field of REFERENCE_FIELDS) {
+                const value = references[field];
+                if (value !== undefined && value !== null && typeof value !== 'string') {
+                    errors.push(`"references.${field}" must be a string or null`);
+                }
+            }
+        }
+    }
+    if (reasoning !== undefined && reasoning !== null && typeof reasoning !== 'string') {
+        errors.push('"reasoning" must be a string');
+    }
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+    const scores = fieldConfidence;
+    const fields = {
+        amount: scores.amount,
+        date: scores.date,
+        description: scores.description,
+        category: scores.category,
+    };
+    return {
+        valid: true,
+        value: {
+            amount: amount === null ? null : Math.abs(amount), // Always return positive amount
+            date: date,
+            description: description === null ? null : description.substring(0, 255),
+            category: category,
+            direction: direction,
+            currency: currency.toUpperCase(),
+            confidence: overallConfidence(fields),
+            fieldConfidence: fields,
+            references: (references || {}),
+            reasoning: typeof reasoning === 'string' ? reasoning : undefined,
+        },
+    };
+}
+/**
+ * Build the follow-up message asking the model to fix an invalid reply
+ */
+export function buildCorrectionPrompt(errors) {
+    return `Your previous response did not match the required format:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Return ONLY the corrected JSON object with no additional text or markdown.`;
+}
+/**
+ * Run the extraction prompt and validate the reply, re-prompting with the
+ * validation errors up to MAX_EXTRACTION_ATTEMPTS times
+ * Returns a zero-confidence result once attempts are exhausted; errors thrown
+ * by complete() (network, HTTP) are passed through to the caller
+ */
+export async function extractWithValidation(text, complete, context = {}) {
+    const messages = [{ role: 'user', content: buildExtractionPrompt(text, context) }];
+    let responseText = '';
+    let errors = [];
+    for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+        responseText = await complete(messages);
+        const result = validateExtractionResponse(responseText, context.categories);
+        if (result.valid) {
+            return { ...result.value, rawOutput: responseText };
+        }
+        errors = result.errors;
+        messages.push({ role: 'assistant', content: responseText }, { role: 'user', content: buildCorrectionPrompt(errors) });
+    }
+    return {
+        amount: null,
+        date: null,
+        description: null,
+        category: null,
+        direction: 'debit',
+        currency: DEFAULT_CURRENCY,
+        confidence: 0,
+        fieldConfidence: uniformConfidence(0),
+        reasoning: `Invalid model output after ${MAX_EXTRACTION_ATTEMPTS} attempts: ${errors.join('; ')}`,
+        rawOutput: responseText,
+    };
+}
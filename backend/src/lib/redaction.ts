@@ -0,0 +1,210 @@
+import type { ParsedTransaction } from './extractor.js'
+import type { MerchantCategoryMapping } from './merchant-mapping.js'
+import { REFERENCE_FIELDS } from './references.js'
+
+/**
+ * A kind of personal data masked out of statement text
+ * Matches are replaced with a numbered token such as [CARD_1]
+ */
+export interface RedactionRule {
+  name: string // Also the token label, e.g. "card" -> [CARD_1]
+  pattern: RegExp // Must be global; the whole match is masked
+  validate?: (match: string) => boolean // Rejects look-alikes (e.g. numbers failing the card checksum)
+}
+
+/**
+ * Redacted text and the token to original value map needed to reverse it
+ */
+export interface RedactionResult {
+  text: string
+  tokens: Record<string, string>
+}
+
+/**
+ * Luhn checksum, so 16-digit references are not mistaken for card numbers
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// A capitalized word that is part of a name, not a currency or reference label after it
+const NAME_WORD = String.raw`(?!(?:Rs|INR|USD|Ref|UTR|A\/c)\b)[A-Z][A-Za-z.'&]*(?![\w\/])`
+const NAME = String.raw`(?:[\w.-]{2,}@[a-z]{2,}(?![\w.@])|${NAME_WORD}(?:\s+${NAME_WORD}){0,2})`
+
+// Applied in this order; earlier rules win where patterns overlap
+const rules = new Map<string, RedactionRule>()
+
+for (const rule of [
+  {
+    name: 'email',
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  },
+  {
+    // Full account numbers after an A/c label (checked before cards, which they can look like);
+    // masked ones (XX1234) are left alone
+    name: 'account',
+    pattern: /(?<=\b(?:A\/c|Acct|Account)(?:\s*(?:No|Number)\.?)?\s*[:#-]?\s*)\d{6,18}\b/gi,
+  },
+  {
+    // 13-19 digits, optionally grouped with spaces or dashes
+    name: 'card',
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    validate: isLuhnValid,
+  },
+  {
+    // Indian mobile numbers: +91 98765 43210, 09876543210, 9876543210
+    name: 'phone',
+    pattern: /(?<![\w+])(?:\+91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g,
+  },
+  {
+    // Counterparties of transfers ("NEFT to RAHUL SHARMA") and greetings ("Dear Priya")
+    // Merchant names elsewhere in the line are kept for categorization
+    name: 'name',
+    pattern: new RegExp(
+      String.raw`(?<=\b(?:(?:NEFT|IMPS|RTGS|[Tt]ransfer(?:red)?|TRANSFER(?:RED)?|[Ss]ent|SENT|[Rr]eceived|RECEIVED)\s+(?:to|from|TO|FROM|To|From)|Dear|DEAR)\s+)${NAME}`,
+      'g'
+    ),
+  },
+] satisfies RedactionRule[]) {
+  rules.set(rule.name, rule)
+}
+
+export const DEFAULT_REDACTION_RULES = ['email', 'account', 'card', 'phone', 'name']
+
+/**
+ * Register a redaction rule (e.g. for an identifier specific to one bank)
+ * Organizations opt into it by adding its name to their redaction rules
+ */
+export function registerRedactionRule(rule: RedactionRule) {
+  rules.set(rule.name, rule)
+}
+
+/**
+ * Check if a name is a registered redaction rule
+ */
+export function isRedactionRuleName(name: unknown): name is string {
+  return typeof name === 'string' && rules.has(name)
+}
+
+/**
+ * Mask the enabled kinds of personal data in text
+ * The same value always gets the same token, and the same text always gives the
+ * same result, so a redacted line can be re-created to restore a cached reply
+ */
+export function redactText(text: string, ruleNames: string[] = DEFAULT_REDACTION_RULES): RedactionResult {
+  const tokens: Record<string, string> = {}
+  const tokenByValue = new Map<string, string>()
+  let redacted = text
+
+  for (const rule of rules.values()) {
+    if (!ruleNames.includes(rule.name)) {
+      continue
+    }
+
+    let count = 0
+    redacted = redacted.replace(rule.pattern, (match) => {
+      if (rule.validate && !rule.validate(match)) {
+        return match
+      }
+
+      let token = tokenByValue.get(match)
+      if (!token) {
+        token = `[${rule.name.toUpperCase()}_${++count}]`
+        tokenByValue.set(match, token)
+        tokens[token] = match
+      }
+      return token
+    })
+  }
+
+  return { text: redacted, tokens }
+}
+
+/**
+ * Mask learned example lines (past statement text) before they are shown to a provider
+ * Their tokens are not kept, as nothing in a reply is restored from them
+ */
+export function redactExamples(
+  examples: MerchantCategoryMapping[],
+  ruleNames: string[] = DEFAULT_REDACTION_RULES
+): MerchantCategoryMapping[] {
+  return examples.map((example) => ({ ...example, exampleText: redactText(example.exampleText, ruleNames).text }))
+}
+
+/**
+ * Put the original values back in place of their tokens
+ */
+export function restoreText(text: string, tokens: Record<string, string>): string {
+  let restored = text
+  for (const [token, value] of Object.entries(tokens)) {
+    restored = restored.split(token).join(value)
+  }
+  return restored
+}
+
+/**
+ * Replace the original values with their tokens, e.g. in a description copied from the line
+ * Longer values go first so a value inside another is not masked on its own
+ */
+export function maskText(text: string, tokens: Record<string, string>): string {
+  let masked = text
+  const entries = Object.entries(tokens).sort(([, a], [, b]) => b.length - a.length)
+  for (const [token, value] of entries) {
+    masked = masked.split(value).join(token)
+  }
+  return masked
+}
+
+/**
+ * Apply a text transform to the fields of a parsed transaction copied from the line
+ * (description and references); the provider's reasoning and raw reply are left as sent
+ */
+function mapTextFields(parsed: ParsedTransaction, transform: (text: string) => string): ParsedTransaction {
+  const references = { ...parsed.references }
+  for (const field of REFERENCE_FIELDS) {
+    const value = references[field]
+    references[field] = value === null ? null : transform(value)
+  }
+
+  return {
+    ...parsed,
+    description: parsed.description === null ? null : transform(parsed.description),
+    references,
+  }
+}
+
+/**
+ * Restore the values a provider saw as tokens in a parsed transaction
+ */
+export function restoreParsedTransaction(parsed: ParsedTransaction, tokens: Record<string, string>): ParsedTransaction {
+  return Object.keys(tokens).length > 0 ? mapTextFields(parsed, (text) => restoreText(text, tokens)) : parsed
+}
+
+/**
+ * Mask redacted values in a parsed transaction before it is stored
+ */
+export function maskParsedTransaction(parsed: ParsedTransaction, tokens: Record<string, string>): ParsedTransaction {
+  return Object.keys(tokens).length > 0 ? mapTextFields(parsed, (text) => maskText(text, tokens)) : parsed
+}
+
+/**
+ * Validate redaction rule names from a request body
+ */
+export function parseRedactionRules(value: unknown): { value: string[] } | { error: string } {
+  if (!Array.isArray(value) || !value.every(isRedactionRuleName)) {
+    return { error: `redactionRules must be a list of: ${[...rules.keys()].join(', ')}` }
+  }
+  return { value: [...new Set(value)] }
+}
@@ -0,0 +1,66 @@
+// Column order used when storing and searching references
+export const REFERENCE_FIELDS = [
+    'upiRef',
+    'vpa',
+    'utr',
+    'chequeNumber',
+    'maskedAccount',
+];
+/**
+ * References for a line that carries none
+ */
+export function emptyReferences() {
+    return { upiRef: null, vpa: null, utr: null, chequeNumber: null, maskedAccount: null };
+}
+// Handles have no dot after the provider ("john@okhdfc"), which keeps emails out
+const VPA_PATTERN = /\b([\w.-]{2,}@[a-z]{2,})(?![\w.@])/i;
+// "UTR: HDFCN52025121112345", "UTR No. 534512345678"
+const LABELLED_UTR_PATTERN = /\bUTR\s*(?:No\.?|Number)?\s*[:\-]?\s*([A-Z0-9]{12,22})\b/i;
+// NEFT (16 characters) and RTGS (22 characters) UTRs start with the bank's IFSC prefix
+const NEFT_UTR_PATTERN = /\b([A-Z]{4}[A-Z0-9]\d[A-Z0-9]{10,16})\b/;
+const RRN_PATTERN = /\b(\d{12})\b/;
+const CHEQUE_PATTERN = /\b(?:CHQ|CHEQUE|CHECK|CLG)\.?\s*(?:No\.?|#)?\s*[:\-]?\s*(\d{6})\b/i;
+// XX1234, *1234, 4521XXXXXXXX1234
+const MASKED_PATTERN = /(?:^|[\s/:(])((?:\d{2,6})?[Xx*]{1,12}\d{3,6})(?=$|[\s/.,;:)])/;
+const CARD_ENDING_PATTERN = /\bending\s*(?:with|in)?\s*(\d{4})\b/i;
+/**
+ * Pull payment references out of a statement line
+ * Fields that are not present are null
+ */
+export function extractReferences(text) {
+    const references = emptyReferences();
+    const isUpi = /\bUPI\b/i.test(text);
+    const isImps = /\bIMPS\b/i.test(text);
+    references.vpa = text.match(VPA_PATTERN)?.[1].toLowerCase() || null;
+    const labelled = text.match(LABELLED_UTR_PATTERN)?.[1];
+    if (labelled) {
+        references.utr = labelled.toUpperCase();
+    }
+    else if (/\b(NEFT|RTGS)\b/i.test(text)) {
+        references.utr = text.match(NEFT_UTR_PATTERN)?.[1] || null;
+    }
+    // A bare 12-digit number is the IMPS reference or the UPI transaction ID
+    const rrn = text.match(RRN_PATTERN)?.[1] || null;
+    if (isImps && !references.utr) {
+        references.utr = rrn;
+    }
+    else if (rrn && (isUpi || references.vpa || /\bRef\b/i.test(text)) && rrn !== references.utr) {
+        references.upiRef = rrn;
+    }
+    references.chequeNumber = text.match(CHEQUE_PATTERN)?.[1] || null;
+    const masked = text.match(MASKED_PATTERN)?.[1];
+    const ending = text.match(CARD_ENDING_PATTERN)?.[1];
+    references.maskedAccount = masked ? masked.toUpperCase() : ending ? `XX${ending}` : null;
+    return references;
+}
+/**
+ * Fill references an AI provider did not return with the ones parsed from the text
+ * Parsed values win because they are copied verbatim from the statement
+ */
+export function mergeReferences(parsed, extracted = {}) {
+    const merged = emptyReferences();
+    for (const field of REFERENCE_FIELDS) {
+        merged[field] = parsed[field] || extracted[field] || null;
+    }
+    return merged;
+}
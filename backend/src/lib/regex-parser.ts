@@ -0,0 +1,120 @@
+import type { ExtractionContext, ParsedTransaction, TransactionDirection } from './extractor.js'
+import { detectCurrency } from './currency.js'
+import { overallConfidence } from './confidence.js'
+import type { FieldConfidence } from './confidence.js'
+import { findMerchantCategory } from './merchant-mapping.js'
+import { categorizeText } from './category-taxonomy.js'
+import { extractReferences } from './references.js'
+import { findDate } from './dates.js'
+
+/**
+ * Legacy regex-based parsing (fallback)
+ * Uses regex patterns to identify amounts, dates, and descriptions
+ * Categories learned from the organization's corrections win over matching the
+ * keywords of its categories
+ */
+export function parseTransactionTextWithRegex(
+  text: string,
+  context: ExtractionContext = {}
+): ParsedTransaction {
+  // Each field scores 1 when a pattern matched and 0 when it was not found; amounts
+  // score by how clearly the matching pattern marks a number as money
+  const fieldConfidence: FieldConfidence = { amount: 0, date: 0, description: 0, category: 0 }
+  
+  // Extract amount - look for Indian Rupee and other currency symbols
+  let amount: number | null = null
+  let signedAmount: number | null = null
+  // Numbers use Indian (1,00,000.00) or international (100,000.00) grouping, or none (1500.50)
+  // A bare number without decimals may be a day, a count or part of a reference, so it
+  // scores below the default review threshold
+  const amountPatterns = [
+    { pattern: /(?:₹|Rs\.?)\s*(-?(?:\d{1,3}(?:,\d{2})*(?:,\d{3})+|\d+)(?:\.\d{1,2})?)/, confidence: 1 },  // ₹1,00,000.00 or Rs. 1,234.56
+    { pattern: /(-?(?:\d{1,3}(?:,\d{2})*(?:,\d{3})+|\d+)(?:\.\d{1,2})?)\s*(?:INR|Rs|₹|USD|EUR|GBP|AED|SGD|AUD|CAD|[€£])/i, confidence: 1 },  // 1,234.56 INR, Rs or USD
+    { pattern: /Amount:\s*(-?(?:\d{1,3}(?:,\d{2})*(?:,\d{3})+|\d+)(?:\.\d{1,2})?)/i, confidence: 1 },  // Amount: -420.00
+    { pattern: /(?:[$€£¥]|\b(?:USD|EUR|GBP|AED|SGD|AUD|CAD|JPY|CHF)\b)\s*(-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?)/, confidence: 1 },  // $1,234.56, USD 45.00 or €12.50
+    { pattern: /(?:^|\s)(-?\d{1,3}(?:,\d{2})*(?:,\d{3})*\.\d{2})(?:\s|$)/, confidence: 0.9 },  // -1,234.56
+    { pattern: /(?:^|\s)(-?\d{1,3}(?:,\d{2})*(?:,\d{3})*)(?:\s|$)/, confidence: 0.3 },  // 1,234
+  ]
+  
+  for (const { pattern, confidence } of amountPatterns) {
+    const match = text.match(pattern)
+    if (match) {
+      signedAmount = parseFloat(match[1].replace(/,/g, ''))
+      // A minus sign before the currency symbol (-₹1,000.00) also marks a debit
+      if (signedAmount > 0 && text.slice(0, match.index).trimEnd().endsWith('-')) {
+        signedAmount = -signedAmount
+      }
+      amount = Math.abs(signedAmount) // Amount is always positive, sign goes to direction
+      fieldConfidence.amount = confidence
+      break
+    }
+  }
+
+  const direction = detectDirection(text, signedAmount)
+  const currency = detectCurrency(text)
+  
+  // Extract date - numeric dates follow the organization's date format, and ones
+  // that could be read either way are left empty and flagged for review
+  const { date, ambiguous: dateAmbiguous } = findDate(text, context)
+  if (date) {
+    fieldConfidence.date = 1
+  }
+  
+  // Extract description - try to identify merchant or transaction description
+  let description: string | null = null
+  const lines = text.split('\n').filter(line => line.trim().length > 0)
+  
+  // Look for lines that aren't just numbers or dates
+  for (const line of lines) {
+    const trimmed = line.trim()
+    // Skip lines that are only numbers, dates, or amounts
+    if (trimmed.match(/^[\d\$\.,\/\-\s]+$/)) continue
+    
+    // Found a descriptive line
+    description = trimmed.substring(0, 255) // Limit length
+    fieldConfidence.description = 1
+    break
+  }
+  
+  // If we didn't find a description, use the first non-empty line
+  if (!description && lines.length > 0) {
+    description = lines[0].substring(0, 255)
+    fieldConfidence.description = 0.5
+  }
+  
+  // Extract category - learned merchant mappings, then keyword matching with Indian brands
+  const category =
+    findMerchantCategory(text, context.merchantCategories || []) || categorizeText(text, context.categories)
+  if (category) {
+    fieldConfidence.category = 1
+  }
+  
+  return {
+    amount,
+    date,
+    description,
+    category,
+    direction,
+    currency,
+    confidence: overallConfidence(fieldConfidence),
+    fieldConfidence,
+    references: extractReferences(text),
+    ...(dateAmbiguous && { dateAmbiguous }),
+  }
+}
+
+// Markers that money came into the account ("credit card" is a spend, not a credit)
+const CREDIT_MARKERS = /\b(cr|credited|credit(?!\s*card)|refund(ed)?|reversal|cashback|salary|deposit(ed)?|received)\b/i
+const DEBIT_MARKERS = /\b(dr|debited|debit|withdrawal|withdrawn|purchase|paid|spent)\b/i
+
+/**
+ * Decide whether a statement line is a debit or a credit
+ * Explicit markers win over signs; unmarked lines are treated as debits
+ */
+function detectDirection(text: string, signedAmount: number | null): TransactionDirection {
+  if (CREDIT_MARKERS.test(text)) return 'credit'
+  if (DEBIT_MARKERS.test(text)) return 'debit'
+  if (signedAmount !== null && signedAmount < 0) return 'debit'
+  if (/(?:^|\s)\+\s*(?:₹|Rs\.?|INR)?\s*\d/i.test(text)) return 'credit'
+  return 'debit'
+}
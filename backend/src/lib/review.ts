@@ -0,0 +1,148 @@
+import { prisma } from './db.js'
+import { withBaseAmount } from './fx.js'
+import { isCurrencyCode } from './currency.js'
+import { getCategoryNames } from './category-taxonomy.js'
+import { rememberMerchantCategory } from './merchant-categories.js'
+import { resolveMerchantId } from './merchant.js'
+import type { TransactionDirection } from './extractor.js'
+
+export interface TransactionCorrection {
+  amount?: number | null
+  date?: Date | null
+  description?: string | null
+  category?: string | null
+  direction?: TransactionDirection
+  currency?: string
+}
+
+/**
+ * Validate reviewer corrections from a request body
+ * Only fields present in the body are returned; omitted fields keep their extracted value.
+ * Categories must belong to the organization's taxonomy.
+ */
+export function parseTransactionCorrection(
+  body: Record<string, unknown>,
+  categories: string[] = getCategoryNames()
+): { corrections: TransactionCorrection } | { error: string } {
+  const corrections: TransactionCorrection = {}
+  const { amount, date, description, category, direction, currency } = body
+
+  if (amount !== undefined) {
+    if (amount !== null && (typeof amount !== 'number' || !isFinite(amount) || amount < 0)) {
+      return { error: 'amount must be a positive number or null' }
+    }
+    corrections.amount = amount
+  }
+
+  if (date !== undefined) {
+    if (date !== null && (typeof date !== 'string' || isNaN(new Date(date).getTime()))) {
+      return { error: 'date must be an ISO 8601 date or null' }
+    }
+    corrections.date = date === null ? null : new Date(date)
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      return { error: 'description must be a string or null' }
+    }
+    corrections.description = description === null ? null : description.substring(0, 255)
+  }
+
+  if (category !== undefined) {
+    if (category !== null && (typeof category !== 'string' || !categories.includes(category))) {
+      return { error: 'Unknown category' }
+    }
+    corrections.category = category
+  }
+
+  if (direction !== undefined) {
+    if (direction !== 'debit' && direction !== 'credit') {
+      return { error: 'direction must be "debit" or "credit"' }
+    }
+    corrections.direction = direction
+  }
+
+  if (currency !== undefined) {
+    if (!isCurrencyCode(currency)) {
+      return { error: 'currency must be a 3-letter ISO code' }
+    }
+    corrections.currency = currency
+  }
+
+  return { corrections }
+}
+
+/**
+ * Mark a transaction in the review queue as final, keeping the extracted values
+ */
+export async function approveTransaction(id: string, userId: string) {
+  return await prisma.transaction.update({
+    where: { id },
+    data: {
+      status: 'final',
+      reviewedAt: new Date(),
+      reviewedBy: userId,
+    },
+  })
+}
+
+/**
+ * Apply reviewer corrections and mark the transaction as final
+ * The base currency amount is recalculated from the corrected amount, currency and date,
+ * and a corrected description is linked to its merchant again.
+ * A changed category is remembered for the merchant so later extractions use it.
+ */
+export async function correctTransaction(params: {
+  transaction: {
+    id: string
+    text: string
+    amount: number | null
+    date: Date | null
+    description: string | null
+    category: string | null
+    currency: string
+    organizationId: string
+  }
+  corrections: TransactionCorrection
+  baseCurrency: string
+  userId: string
+}) {
+  const { transaction, corrections } = params
+
+  const converted = await withBaseAmount(
+    {
+      amount: corrections.amount !== undefined ? corrections.amount : transaction.amount,
+      date: corrections.date !== undefined ? corrections.date : transaction.date,
+      currency: corrections.currency || transaction.currency,
+      organizationId: transaction.organizationId,
+    },
+    params.baseCurrency
+  )
+
+  const corrected = await prisma.transaction.update({
+    where: { id: transaction.id },
+    data: {
+      ...corrections,
+      ...(corrections.description !== undefined && {
+        merchantId: await resolveMerchantId(transaction.organizationId, corrections.description),
+      }),
+      baseAmount: converted.baseAmount,
+      fxRate: converted.fxRate,
+      status: 'final',
+      reviewedAt: new Date(),
+      reviewedBy: params.userId,
+    },
+  })
+
+  if (corrected.category && corrected.description && corrected.category !== transaction.category) {
+    await rememberMerchantCategory({
+      organizationId: transaction.organizationId,
+      description: corrected.description,
+      text: transaction.text,
+      category: corrected.category,
+      userId: params.userId,
+    })
+  }
+
+  return corrected
+}
@@ -0,0 +1,88 @@
+import { createHash } from 'node:crypto'
+
+/**
+ * Maximum number of rows accepted from a single statement paste
+ */
+export const MAX_STATEMENT_ROWS = 100
+
+// Dates that typically start a statement row (11/12/2025, 2025-12-11, 11 Dec 2025, 11-Dec-25, Dec 11, 2025)
+const ROW_DATE_PATTERNS = [
+  /\b\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}\b/,
+  /\b\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}\b/,
+  /\b\d{1,2}[\s\-](Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*[\s\-]\d{2,4}\b/i,
+  /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}\b/i,
+]
+
+// Column headers and balance summaries that are not transactions
+const SKIP_LINE_PATTERNS = [
+  /^(txn\s+|transaction\s+|value\s+)?date\b.*\b(narration|description|particulars|details|debit|credit|withdrawal|deposit|balance)\b/i,
+  /^(opening|closing)\s+balance\b/i,
+  /^(statement|account)\s+(summary|period|of account)\b/i,
+  /^page\s+\d+(\s+of\s+\d+)?$/i,
+]
+
+/**
+ * Whether a line carries a date, as the first line of a statement row does
+ */
+export function hasRowDate(line: string): boolean {
+  return ROW_DATE_PATTERNS.some((pattern) => pattern.test(line))
+}
+
+/**
+ * Whether a line is a column header, balance summary or page number rather than a transaction
+ */
+export function isSkippedLine(line: string): boolean {
+  return SKIP_LINE_PATTERNS.some((pattern) => pattern.test(line))
+}
+
+/**
+ * Split a pasted bank statement into individual transaction rows
+ * A line containing a date starts a new row; undated lines are treated as
+ * continuations of the previous row (wrapped narrations). If no line carries
+ * a date, every non-empty line is its own row.
+ */
+export function splitStatementText(text: string): string[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !isSkippedLine(line))
+
+  if (!lines.some(hasRowDate)) {
+    return lines
+  }
+
+  const rows: string[] = []
+  let current: string[] = []
+  let currentHasDate = false
+
+  for (const line of lines) {
+    if (hasRowDate(line) && currentHasDate) {
+      rows.push(current.join('\n'))
+      current = []
+    }
+
+    current.push(line)
+    // Undated lines before the first date belong to the first row
+    currentHasDate = currentHasDate || hasRowDate(line)
+  }
+
+  if (current.length > 0) {
+    rows.push(current.join('\n'))
+  }
+
+  return rows
+}
+
+/**
+ * Normalize statement text so copies that differ only in whitespace compare equal
+ */
+export function normalizeStatementText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Hash normalized statement text for use as a cache key
+ */
+export function hashStatementText(text: string): string {
+  return createHash('sha256').update(normalizeStatementText(text)).digest('hex')
+}
@@ -0,0 +1,123 @@
+import { buildDate } from './dates.js';
+// Update when providers change their prices; models not listed have no cost estimate
+export const MODEL_PRICING = {
+    'global.anthropic.claude-sonnet-4-5-20250929-v1:0': { inputPerMillion: 3, outputPerMillion: 15 },
+    'anthropic.claude-sonnet-4-5-20250929-v1:0': { inputPerMillion: 3, outputPerMillion: 15 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+};
+/**
+ * Add the usage a provider reported for one call to a running total
+ * Calls that report nothing leave the total as it was
+ */
+export function addTokenUsage(total, usage) {
+    if (!usage) {
+        return total;
+    }
+    return {
+        inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+        outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+    };
+}
+/**
+ * Attach the usage of the calls made so far to an error a provider throws,
+ * so tokens billed before the failure (e.g. a re-prompt that timed out) are still counted
+ * Errors thrown before any call reported usage are returned unchanged
+ */
+export function withFailedCallUsage(error, modelId, usage) {
+    if (usage && error && typeof error === 'object') {
+        const failed = { modelId: modelId || null, usage };
+        Object.assign(error, { tokenUsage: failed });
+    }
+    return error;
+}
+/**
+ * Usage attached to a provider error by withFailedCallUsage, or null
+ */
+export function getFailedCallUsage(error) {
+    if (!error || typeof error !== 'object' || !('tokenUsage' in error)) {
+        return null;
+    }
+    return error.tokenUsage;
+}
+/**
+ * Estimated cost in USD, or null when the model has no known price (e.g. a local model)
+ */
+export function estimateCost(modelId, usage) {
+    const pricing = modelId ? MODEL_PRICING[modelId] : undefined;
+    if (!pricing || !usage) {
+        return null;
+    }
+    return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+}
+/**
+ * Midnight UTC on the given date, the key usage is counted under
+ */
+export function getUsageDay(date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+/**
+ * Midnight UTC on the first of the month, `monthsBack` months before the given date
+ * Quotas reset at the start of each UTC calendar month
+ */
+export function getMonthStart(date, monthsBack = 0) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1));
+}
+function emptyTotals() {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+function addTotals(totals, row) {
+    totals.requests += row.requests;
+    totals.inputTokens += row.inputTokens;
+    totals.outputTokens += row.outputTokens;
+    totals.costUsd += row.costUsd;
+}
+/**
+ * Total usage rows by day, month and model, each list in ascending order
+ */
+export function summarizeUsage(rows) {
+    const total = emptyTotals();
+    const daily = new Map();
+    const monthly = new Map();
+    const byModel = new Map();
+    const bucket = (map, key, create) => {
+        if (!map.has(key)) {
+            map.set(key, create());
+        }
+        return map.get(key);
+    };
+    for (const row of rows) {
+        const date = row.day.toISOString().slice(0, 10);
+        addTotals(total, row);
+        addTotals(bucket(daily, date, emptyTotals), row);
+        addTotals(bucket(monthly, date.slice(0, 7), emptyTotals), row);
+        addTotals(bucket(byModel, `${row.extractor}:${row.modelId}`, () => ({ extractor: row.extractor, modelId: row.modelId, ...emptyTotals() })), row);
+    }
+    const sorted = (map) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+    return {
+        total,
+        daily: sorted(daily).map(([date, totals]) => ({ date, ...totals })),
+        monthly: sorted(monthly).map(([month, totals]) => ({ month, ...totals })),
+        byModel: sorted(byModel).map(([, totals]) => totals),
+    };
+}
+/**
+ * Validate the date range of a usage request (from and to as YYYY-MM-DD, inclusive)
+ * Defaults to the current month and the 11 before it
+ */
+export function parseUsageRange(input, now = new Date()) {
+    const parse = (value) => {
+        const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+    };
+    const from = input.from ? parse(input.from) : getMonthStart(now, 11);
+    const to = input.to ? parse(input.to) : getUsageDay(now);
+    if (!from || !to) {
+        return { error: 'from and to must be dates (YYYY-MM-DD)' };
+    }
+    if (from.getTime() > to.getTime()) {
+        return { error: 'from must not be after to' };
+    }
+    return { value: { from, to } };
+}
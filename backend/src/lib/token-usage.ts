@@ -0,0 +1,192 @@
+import { buildDate } from './dates.js'
+
+/**
+ * Tokens consumed by the model calls behind one extraction
+ */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * List price in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+// Update when providers change their prices; models not listed have no cost estimate
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'global.anthropic.claude-sonnet-4-5-20250929-v1:0': { inputPerMillion: 3, outputPerMillion: 15 },
+  'anthropic.claude-sonnet-4-5-20250929-v1:0': { inputPerMillion: 3, outputPerMillion: 15 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+}
+
+/**
+ * Add the usage a provider reported for one call to a running total
+ * Calls that report nothing leave the total as it was
+ */
+export function addTokenUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!usage) {
+    return total
+  }
+  return {
+    inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  }
+}
+
+/**
+ * Usage of the model calls an extraction made before it failed
+ */
+export interface FailedCallUsage {
+  modelId: string | null
+  usage: TokenUsage
+}
+
+/**
+ * Attach the usage of the calls made so far to an error a provider throws,
+ * so tokens billed before the failure (e.g. a re-prompt that timed out) are still counted
+ * Errors thrown before any call reported usage are returned unchanged
+ */
+export function withFailedCallUsage(error: unknown, modelId: string | null | undefined, usage: TokenUsage | null): unknown {
+  if (usage && error && typeof error === 'object') {
+    const failed: FailedCallUsage = { modelId: modelId || null, usage }
+    Object.assign(error, { tokenUsage: failed })
+  }
+  return error
+}
+
+/**
+ * Usage attached to a provider error by withFailedCallUsage, or null
+ */
+export function getFailedCallUsage(error: unknown): FailedCallUsage | null {
+  if (!error || typeof error !== 'object' || !('tokenUsage' in error)) {
+    return null
+  }
+  return (error as { tokenUsage: FailedCallUsage }).tokenUsage
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no known price (e.g. a local model)
+ */
+export function estimateCost(modelId: string | null | undefined, usage: TokenUsage | null | undefined): number | null {
+  const pricing = modelId ? MODEL_PRICING[modelId] : undefined
+  if (!pricing || !usage) {
+    return null
+  }
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000
+}
+
+/**
+ * Midnight UTC on the given date, the key usage is counted under
+ */
+export function getUsageDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Midnight UTC on the first of the month, `monthsBack` months before the given date
+ * Quotas reset at the start of each UTC calendar month
+ */
+export function getMonthStart(date: Date, monthsBack = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1))
+}
+
+export interface UsageTotals {
+  requests: number // Extractions that called a model
+  inputTokens: number
+  outputTokens: number
+  costUsd: number // Estimated; calls without a known price add nothing
+}
+
+/**
+ * One day of an organization's usage for one provider and model
+ */
+export interface UsageRow extends UsageTotals {
+  day: Date
+  extractor: string
+  modelId: string
+}
+
+export interface UsageSummary {
+  total: UsageTotals
+  daily: (UsageTotals & { date: string })[] // YYYY-MM-DD
+  monthly: (UsageTotals & { month: string })[] // YYYY-MM
+  byModel: (UsageTotals & { extractor: string; modelId: string })[]
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+}
+
+function addTotals(totals: UsageTotals, row: UsageTotals) {
+  totals.requests += row.requests
+  totals.inputTokens += row.inputTokens
+  totals.outputTokens += row.outputTokens
+  totals.costUsd += row.costUsd
+}
+
+/**
+ * Total usage rows by day, month and model, each list in ascending order
+ */
+export function summarizeUsage(rows: UsageRow[]): UsageSummary {
+  const total = emptyTotals()
+  const daily = new Map<string, UsageTotals>()
+  const monthly = new Map<string, UsageTotals>()
+  const byModel = new Map<string, UsageTotals & { extractor: string; modelId: string }>()
+
+  const bucket = <T extends UsageTotals>(map: Map<string, T>, key: string, create: () => T) => {
+    if (!map.has(key)) {
+      map.set(key, create())
+    }
+    return map.get(key)!
+  }
+
+  for (const row of rows) {
+    const date = row.day.toISOString().slice(0, 10)
+    addTotals(total, row)
+    addTotals(bucket(daily, date, emptyTotals), row)
+    addTotals(bucket(monthly, date.slice(0, 7), emptyTotals), row)
+    addTotals(
+      bucket(byModel, `${row.extractor}:${row.modelId}`, () => ({ extractor: row.extractor, modelId: row.modelId, ...emptyTotals() })),
+      row
+    )
+  }
+
+  const sorted = <T>(map: Map<string, T>) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b))
+
+  return {
+    total,
+    daily: sorted(daily).map(([date, totals]) => ({ date, ...totals })),
+    monthly: sorted(monthly).map(([month, totals]) => ({ month, ...totals })),
+    byModel: sorted(byModel).map(([, totals]) => totals),
+  }
+}
+
+/**
+ * Validate the date range of a usage request (from and to as YYYY-MM-DD, inclusive)
+ * Defaults to the current month and the 11 before it
+ */
+export function parseUsageRange(
+  input: { from?: string; to?: string },
+  now = new Date()
+): { value: { from: Date; to: Date } } | { error: string } {
+  const parse = (value: string) => {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null
+  }
+
+  const from = input.from ? parse(input.from) : getMonthStart(now, 11)
+  const to = input.to ? parse(input.to) : getUsageDay(now)
+  if (!from || !to) {
+    return { error: 'from and to must be dates (YYYY-MM-DD)' }
+  }
+  if (from.getTime() > to.getTime()) {
+    return { error: 'from must not be after to' }
+  }
+  return { value: { from, to } }
+}
@@ -0,0 +1,55 @@
+/**
+ * Fields a re-extraction can change, in the order changes are listed
+ */
+export const REEXTRACT_FIELDS = [
+    'amount',
+    'date',
+    'description',
+    'category',
+    'direction',
+    'currency',
+    'upiRef',
+    'vpa',
+    'utr',
+    'chequeNumber',
+    'maskedAccount',
+];
+function isSameValue(a, b) {
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    return a === b;
+}
+/**
+ * List the fields where the re-extracted values differ from the saved transaction
+ */
+export function diffTransactionFields(current, proposed) {
+    return REEXTRACT_FIELDS
+        .filter((field) => !isSameValue(current[field], proposed[field]))
+        .map((field) => ({ field, current: current[field], proposed: proposed[field] }));
+}
+/**
+ * Validate which changes a request accepts: "all", or a list of field names
+ */
+export function parseAcceptedFields(value) {
+    if (value === 'all') {
+        return { value: [...REEXTRACT_FIELDS] };
+    }
+    if (!Array.isArray(value) || !value.every((field) => REEXTRACT_FIELDS.includes(field))) {
+        return { error: `accept must be "all" or a list of: ${REEXTRACT_FIELDS.join(', ')}` };
+    }
+    return { value: [...new Set(value)] };
+}
+/**
+ * The proposed values of the accepted changes, ready to save
+ * Accepted fields that did not change are left out
+ */
+export function pickAcceptedChanges(changes, accepted) {
+    const values = {};
+    for (const change of changes) {
+        if (accepted.includes(change.field)) {
+            values[change.field] = change.proposed;
+        }
+    }
+    return values;
+}
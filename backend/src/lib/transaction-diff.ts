@@ -0,0 +1,84 @@
+import type { TransactionReferences } from './references.js'
+
+/**
+ * Fields a re-extraction can change, in the order changes are listed
+ */
+export const REEXTRACT_FIELDS = [
+  'amount',
+  'date',
+  'description',
+  'category',
+  'direction',
+  'currency',
+  'upiRef',
+  'vpa',
+  'utr',
+  'chequeNumber',
+  'maskedAccount',
+] as const
+
+export type ReextractField = (typeof REEXTRACT_FIELDS)[number]
+
+/**
+ * The values of a transaction a re-extraction is compared on
+ */
+export interface TransactionFieldValues extends TransactionReferences {
+  amount: number | null
+  date: Date | null
+  description: string | null
+  category: string | null
+  direction: string
+  currency: string
+}
+
+/**
+ * A field whose re-extracted value differs from the saved one
+ */
+export interface FieldChange {
+  field: ReextractField
+  current: TransactionFieldValues[ReextractField]
+  proposed: TransactionFieldValues[ReextractField]
+}
+
+function isSameValue(a: TransactionFieldValues[ReextractField], b: TransactionFieldValues[ReextractField]): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  return a === b
+}
+
+/**
+ * List the fields where the re-extracted values differ from the saved transaction
+ */
+export function diffTransactionFields(current: TransactionFieldValues, proposed: TransactionFieldValues): FieldChange[] {
+  return REEXTRACT_FIELDS
+    .filter((field) => !isSameValue(current[field], proposed[field]))
+    .map((field) => ({ field, current: current[field], proposed: proposed[field] }))
+}
+
+/**
+ * Validate which changes a request accepts: "all", or a list of field names
+ */
+export function parseAcceptedFields(value: unknown): { value: ReextractField[] } | { error: string } {
+  if (value === 'all') {
+    return { value: [...REEXTRACT_FIELDS] }
+  }
+  if (!Array.isArray(value) || !value.every((field) => (REEXTRACT_FIELDS as readonly unknown[]).includes(field))) {
+    return { error: `accept must be "all" or a list of: ${REEXTRACT_FIELDS.join(', ')}` }
+  }
+  return { value: [...new Set(value as ReextractField[])] }
+}
+
+/**
+ * The proposed values of the accepted changes, ready to save
+ * Accepted fields that did not change are left out
+ */
+export function pickAcceptedChanges(changes: FieldChange[], accepted: ReextractField[]): Partial<TransactionFieldValues> {
+  const values: Partial<Record<ReextractField, TransactionFieldValues[ReextractField]>> = {}
+  for (const change of changes) {
+    if (accepted.includes(change.field)) {
+      values[change.field] = change.proposed
+    }
+  }
+  return values as Partial<TransactionFieldValues>
+}
@@ -1,214 +1,399 @@
 import { prisma } from './db.js'
-import {
-  extractTransactionWithBedrock,
-  isBedrockConfigured,
-} from './bedrock.js'
+import { getExtractorVersion, resolveExtractor } from './extractor.js'
+import type { ExtractionContext, ExtractionProvenance, ParsedTransaction, TransactionDirection } from './extractor.js'
+import { parseTransactionTextWithRegex } from './regex-parser.js'
+import { parseWithBankTemplates } from './bank-parsers.js'
+import { cacheExtraction, getCachedExtraction } from './extraction-cache.js'
+import { getMerchantCategories } from './merchant-categories.js'
+import { selectFewShotExamples } from './merchant-mapping.js'
+import { resolveMerchantId } from './merchant.js'
+import { getCategories } from './category.js'
+import type { CategoryDefinition } from './category-taxonomy.js'
+import type { MerchantCategoryMapping } from './merchant-mapping.js'
+import type { TransactionReferences } from './references.js'
+import type { FieldConfidence, TransactionStatus } from './confidence.js'
+import type { DateFormat, StatementPeriod } from './dates.js'
+import { DEFAULT_REDACTION_RULES, redactExamples, redactText, restoreParsedTransaction, restoreText } from './redaction.js'
+import { extractReferences, mergeReferences } from './references.js'
+import { isOverAiQuota, recordAiUsage } from './usage.js'
+import { estimateCost, getFailedCallUsage } from './token-usage.js'
+import type { TransactionFieldValues } from './transaction-diff.js'
 
-export interface ParsedTransaction {
-  amount: number | null
-  date: Date | null
-  description: string | null
-  category: string | null
-  confidence: number
+export type { ExtractionProvenance, ParsedTransaction, TransactionDirection }
+
+/**
+ * Fill in the provenance fields only the pipeline knows (provider name and latency)
+ */
+function withProvenance(
+  parsed: ParsedTransaction,
+  extractor: string,
+  startedAt: number,
+  overrides: Partial<ExtractionProvenance> = {}
+): ParsedTransaction {
+  return {
+    ...parsed,
+    provenance: {
+      modelId: null,
+      promptVersion: null,
+      reasoning: null,
+      rawOutput: null,
+      cached: false,
+      inputTokens: null,
+      outputTokens: null,
+      costUsd: null,
+      ...parsed.provenance,
+      ...overrides,
+      extractor,
+      latencyMs: Date.now() - startedAt,
+    },
+  }
+}
+
+/**
+ * Put back the personal data an AI provider saw as tokens
+ * References are read again from the original line, as masked ones could not be found
+ */
+function unredact(parsed: ParsedTransaction, text: string, tokens: Record<string, string>): ParsedTransaction {
+  if (Object.keys(tokens).length === 0) {
+    return parsed
+  }
+
+  const restored = restoreParsedTransaction(parsed, tokens)
+  return { ...restored, references: mergeReferences(extractReferences(text), restored.references) }
 }
 
 /**
  * Parse raw bank statement text to extract transaction details
- * Uses AWS Bedrock AI if configured, otherwise falls back to regex patterns
+ * Lines in a known bank layout (HDFC, ICICI, SBI, Axis, Kotak) are parsed by
+ * templates without calling an AI provider. Otherwise uses the organization's
+ * extractor if set, then TRANSACTION_EXTRACTOR, then AWS Bedrock if configured.
+ * Falls back to regex patterns if the selected AI provider fails.
+ * When organizationId is given, AI results are cached per organization and the
+ * organization's categories and learned merchant categories are applied (pass
+ * categories and merchantCategories to avoid reloading them for every row of a
+ * statement). dateFormat and statementPeriod decide how numeric dates are read.
+ * promptVersion and promptInstructions pick the AI prompt template and add the
+ * organization's own instructions to it.
+ * Personal data matched by redactionRules (all rules by default) is masked before
+ * text is sent to an AI provider; templates and regex run locally on the original.
+ * Model token usage is added to the organization's totals, and once the month's
+ * usage reaches monthlyTokenQuota lines go to regex instead of the AI provider.
  */
 export async function parseTransactionText(
-  text: string
+  text: string,
+  options: {
+    extractor?: string | null
+    organizationId?: string
+    categories?: CategoryDefinition[]
+    merchantCategories?: MerchantCategoryMapping[]
+    dateFormat?: DateFormat | null
+    statementPeriod?: StatementPeriod | null
+    redactionRules?: string[]
+    monthlyTokenQuota?: number | null
+    promptVersion?: string | null
+    promptInstructions?: string | null
+  } = {}
 ): Promise<ParsedTransaction> {
-  // Try using AWS Bedrock if configured
-  if (isBedrockConfigured()) {
-    try {
-      const extracted = await extractTransactionWithBedrock(text)
-      
-      // Convert date string to Date object
-      let dateObj: Date | null = null
-      if (extracted.date) {
-        try {
-          dateObj = new Date(extracted.date)
-          if (isNaN(dateObj.getTime())) {
-            dateObj = null
-          }
-        } catch (e) {
-          dateObj = null
-        }
-      }
+  const startedAt = Date.now()
 
-      return {
-        amount: extracted.amount,
-        date: dateObj,
-        description: extracted.description,
-        category: extracted.category,
-        confidence: extracted.confidence,
-      }
-    } catch (error) {
-      console.error('Bedrock extraction failed, falling back to regex:', error)
-      // Fall through to regex parsing
-    }
+  let merchantCategories = options.merchantCategories || []
+  if (!options.merchantCategories && options.organizationId) {
+    merchantCategories = await getMerchantCategories(options.organizationId).catch((error) => {
+      console.error('Failed to load merchant categories:', error)
+      return []
+    })
+  }
+  let categories = options.categories
+  if (!categories && options.organizationId) {
+    categories = await getCategories(options.organizationId).catch((error) => {
+      console.error('Failed to load categories:', error)
+      return undefined
+    })
   }
 
-  // Fallback to regex-based parsing
-  return parseTransactionTextWithRegex(text)
-}
+  const context: ExtractionContext = {
+    categories,
+    merchantCategories: selectFewShotExamples(text, merchantCategories),
+    dateFormat: options.dateFormat,
+    statementPeriod: options.statementPeriod,
+    promptVersion: options.promptVersion,
+    instructions: options.promptInstructions,
+  }
 
-/**
- * Legacy regex-based parsing (fallback)
- * Uses regex patterns to identify amounts, dates, and descriptions
- */
-function parseTransactionTextWithRegex(text: string): ParsedTransaction {
-  let confidence = 0
-  let confidenceFactors = 0
-  
-  // Extract amount - look for Indian Rupee and currency symbols
-  let amount: number | null = null
-  const amountPatterns = [
-    /[₹Rs\.]\s*(-?\d{1,2}(?:,\d{2})*(?:,\d{3})*(?:\.\d{2})?)/,  // ₹1,00,000.00 or Rs. 1,234.56
-    /(-?\d{1,2}(?:,\d{2})*(?:,\d{3})*(?:\.\d{2})?)\s*(?:INR|Rs|₹)/i,  // 1,234.56 INR or Rs
-    /Amount:\s*(-?\d{1,3}(?:,\d{2})*(?:,\d{3})*(?:\.\d{2})?)/i,  // Amount: -420.00
-    /\$\s*(-?\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/,  // $1,234.56 (fallback)
-    /(?:^|\s)(-?\d{1,3}(?:,\d{2})*(?:,\d{3})*(?:\.\d{2})?)(?:\s|$)/,  // -1,234.56
-  ]
-  
-  for (const pattern of amountPatterns) {
-    const match = text.match(pattern)
-    if (match) {
-      amount = Math.abs(parseFloat(match[1].replace(/,/g, ''))) // Always return positive
-      confidence += 0.3
-      confidenceFactors++
-      break
-    }
+  const templated = parseWithBankTemplates(text, context)
+  if (templated) {
+    return withProvenance(
+      templated.transaction,
+      'template',
+      startedAt,
+      { reasoning: `Matched ${templated.bank} ${templated.template} layout` }
+    )
   }
-  
-  // Extract date
-  let date: Date | null = null
-  const datePatterns = [
-    /(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{4})/i,  // 11 Dec 2025 (Indian format)
-    /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{1,2}),?\s+(\d{4})/i,  // Jan 15, 2024
-    /(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/,  // DD/MM/YYYY or MM/DD/YYYY
-    /(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/,    // YYYY-MM-DD
-    /Date:\s*(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{4})/i,  // Date: 11 Dec 2025
-  ]
-  
-  for (const pattern of datePatterns) {
-    const match = text.match(pattern)
-    if (match) {
+
+  const extractor = resolveExtractor(options.extractor)
+  let fallbackReason: string | null = null
+
+  if (extractor.name !== 'regex') {
+    // Results are cached as the provider returned them (still masked) and restored on the way out
+    const redactionRules = options.redactionRules || DEFAULT_REDACTION_RULES
+    const redaction = redactText(text, redactionRules)
+    const tokenNames = Object.keys(redaction.tokens)
+    let version = getExtractorVersion(extractor, context)
+    if (tokenNames.length > 0) {
+      version += `:redacted=${tokenNames.join(',')}`
+    }
+    const cacheKey = options.organizationId
+      ? { organizationId: options.organizationId, text, version }
+      : null
+
+    if (cacheKey) {
+      const cached = await getCachedExtraction(cacheKey).catch((error) => {
+        console.error('Extraction cache lookup failed:', error)
+        return null
+      })
+      if (cached) {
+        return withProvenance(unredact(cached, text, redaction.tokens), extractor.name, startedAt, {
+          cached: true,
+          // Served without calling the model
+          inputTokens: 0,
+          outputTokens: 0,
+          costUsd: 0,
+        })
+      }
+    }
+
+    const overQuota = options.organizationId
+      ? await isOverAiQuota(options.organizationId, options.monthlyTokenQuota)
+      : false
+
+    if (overQuota) {
+      fallbackReason = `${extractor.name} skipped: monthly AI token quota exceeded`
+    } else {
       try {
-        if (match[0].match(/^[A-Za-z]/) || match[0].match(/Date:/i)) {
-          // Month name format - handle both "11 Dec 2025" and "Dec 11, 2025"
-          if (match[1] && match[1].match(/^[A-Za-z]/)) {
-            // "Dec 11, 2025" format
-            date = new Date(`${match[1]} ${match[2]}, ${match[3]}`)
-          } else {
-            // "11 Dec 2025" format
-            date = new Date(`${match[2]} ${match[1]}, ${match[3]}`)
-          }
-        } else if (match[1].length === 4) {
-          // YYYY-MM-DD
-          date = new Date(`${match[1]}-${match[2]}-${match[3]}`)
-        } else {
-          // DD/MM/YYYY (Indian format) - swap to MM/DD/YYYY for Date constructor
-          date = new Date(`${match[3]}-${match[2]}-${match[1]}`)
+        // Learned examples are past statement lines, so they are masked the same way
+        const parsed = await extractor.extract(redaction.text, {
+          ...context,
+          merchantCategories: redactExamples(context.merchantCategories || [], redactionRules),
+        })
+
+        // Zero-confidence results are failures, so leave them uncached to be retried
+        if (cacheKey && parsed.confidence > 0) {
+          await cacheExtraction({ ...cacheKey, result: parsed }).catch((error) => {
+            console.error('Failed to cache extraction:', error)
+          })
+        }
+
+        const result = withProvenance(unredact(parsed, text, redaction.tokens), extractor.name, startedAt)
+        if (options.organizationId) {
+          await recordAiUsage(options.organizationId, result.provenance).catch((error) => {
+            console.error('Failed to record AI usage:', error)
+          })
         }
-        
-        if (!isNaN(date.getTime())) {
-          confidence += 0.3
-          confidenceFactors++
-          break
-        } else {
-          date = null
+        return result
+      } catch (error) {
+        console.error(`${extractor.name} extraction failed, falling back to regex:`, error)
+        fallbackReason = `${extractor.name} extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+
+        // Tokens the provider used before failing still count towards usage and the quota
+        const failed = getFailedCallUsage(error)
+        if (failed && options.organizationId) {
+          await recordAiUsage(options.organizationId, {
+            extractor: extractor.name,
+            modelId: failed.modelId,
+            inputTokens: failed.usage.inputTokens,
+            outputTokens: failed.usage.outputTokens,
+            costUsd: estimateCost(failed.modelId, failed.usage),
+          }).catch((usageError) => {
+            console.error('Failed to record AI usage:', usageError)
+          })
         }
-      } catch (e) {
-        date = null
+        // Fall through to regex parsing
       }
     }
   }
-  
-  // Extract description - try to identify merchant or transaction description
-  let description: string | null = null
-  const lines = text.split('\n').filter(line => line.trim().length > 0)
-  
-  // Look for lines that aren't just numbers or dates
-  for (const line of lines) {
-    const trimmed = line.trim()
-    // Skip lines that are only numbers, dates, or amounts
-    if (trimmed.match(/^[\d\$\.,\/\-\s]+$/)) continue
-    
-    // Found a descriptive line
-    description = trimmed.substring(0, 255) // Limit length
-    confidence += 0.2
-    confidenceFactors++
-    break
-  }
-  
-  // If we didn't find a description, use the first non-empty line
-  if (!description && lines.length > 0) {
-    description = lines[0].substring(0, 255)
-    confidence += 0.1
-    confidenceFactors++
-  }
-  
-  // Extract category - simple keyword matching with Indian brands
-  let category: string | null = null
-  const categoryKeywords: Record<string, string[]> = {
-    'Food & Dining': ['restaurant', 'food', 'coffee', 'cafe', 'pizza', 'burger', 'dining', 'lunch', 'dinner', 'breakfast', 'swiggy', 'zomato', 'starbucks', 'mcdonald', 'kfc', 'domino', 'subway'],
-    'Shopping': ['amazon', 'flipkart', 'myntra', 'walmart', 'target', 'store', 'shop', 'retail', 'purchase', 'mall', 'market', 'reliance', 'dmart'],
-    'Transportation': ['uber', 'ola', 'rapido', 'lyft', 'gas', 'fuel', 'parking', 'transit', 'taxi', 'train', 'bus', 'metro', 'petrol', 'diesel'],
-    'Entertainment': ['movie', 'theater', 'netflix', 'hotstar', 'prime', 'spotify', 'game', 'concert', 'ticket', 'bookmyshow', 'pvr', 'inox'],
-    'Utilities': ['electric', 'electricity', 'water', 'internet', 'phone', 'utility', 'bill', 'airtel', 'jio', 'bsnl', 'vodafone', 'mseb', 'bescom'],
-    'Healthcare': ['pharmacy', 'doctor', 'medical', 'hospital', 'health', 'dental', 'apollo', 'fortis', 'medplus', 'clinic'],
-    'Transfer': ['transfer', 'payment', 'upi', 'neft', 'imps', 'rtgs', 'paytm', 'phonepe', 'gpay', 'googlepay', 'venmo', 'paypal', 'zelle', 'cashapp'],
-  }
-  
-  const lowerText = text.toLowerCase()
-  for (const [cat, keywords] of Object.entries(categoryKeywords)) {
-    if (keywords.some(keyword => lowerText.includes(keyword))) {
-      category = cat
-      confidence += 0.2
-      confidenceFactors++
-      break
-    }
-  }
-  
-  // Normalize confidence to 0-1 range
-  const finalConfidence = confidenceFactors > 0 ? Math.min(confidence, 1.0) : 0
-  
-  return {
-    amount,
-    date,
-    description,
-    category,
-    confidence: finalConfidence,
-  }
+
+  // Fallback to regex-based parsing
+  return withProvenance(parseTransactionTextWithRegex(text, context), 'regex', startedAt, {
+    reasoning: fallbackReason,
+  })
 }
 
-/**
- * Create a transaction in the database
- */
-export async function createTransaction(data: {
+export interface CreateTransactionInput {
   text: string
   amount: number | null
   date: Date | null
   description: string | null
   category: string | null
+  direction?: TransactionDirection // Defaults to "debit"
+  currency?: string // Defaults to "INR"
+  baseAmount?: number | null
+  fxRate?: number | null
   confidence: number
+  fieldConfidence?: FieldConfidence
+  status?: TransactionStatus // Defaults to "final"
+  provenance?: ExtractionProvenance
+  references?: TransactionReferences
+  merchantId?: string | null // Linked from the description when omitted
+  redactionTokens?: Record<string, string> // Reverses a redacted text, kept only when the organization opts in
+  externalId?: string | null // Identifier from an imported file or the job that saved it, unique per organization
   organizationId: string
   userId: string
-}) {
+}
+
+/**
+ * Field confidence is stored in one column per field
+ */
+function toFieldConfidenceColumns(fieldConfidence: FieldConfidence) {
+  return {
+    amountConfidence: fieldConfidence.amount,
+    dateConfidence: fieldConfidence.date,
+    descriptionConfidence: fieldConfidence.description,
+    categoryConfidence: fieldConfidence.category,
+  }
+}
+
+/**
+ * Map create input to Prisma data
+ * Field confidence and references are stored in one column per field,
+ * provenance and redaction tokens as related rows
+ */
+function toCreateData({ fieldConfidence, provenance, references, redactionTokens, ...data }: CreateTransactionInput) {
+  return {
+    ...data,
+    ...references,
+    ...(fieldConfidence && toFieldConfidenceColumns(fieldConfidence)),
+    ...(provenance && {
+      provenance: {
+        create: provenance,
+      },
+    }),
+    ...(redactionTokens && {
+      redaction: {
+        create: { tokens: redactionTokens },
+      },
+    }),
+  }
+}
+
+/**
+ * Link a transaction to the merchant in its description unless one was given
+ */
+async function withMerchant(data: CreateTransactionInput): Promise<CreateTransactionInput> {
+  if (data.merchantId !== undefined) {
+    return data
+  }
+  return { ...data, merchantId: await resolveMerchantId(data.organizationId, data.description) }
+}
+
+/**
+ * Create a transaction in the database
+ */
+export async function createTransaction(data: CreateTransactionInput) {
   return await prisma.transaction.create({
-    data,
+    data: toCreateData(await withMerchant(data)),
   })
 }
 
+/**
+ * Create several transactions in a single database transaction
+ * Either all rows are saved or none are (merchants are linked beforehand)
+ */
+export async function createTransactions(rows: CreateTransactionInput[]) {
+  const linked: CreateTransactionInput[] = []
+  for (const row of rows) {
+    linked.push(await withMerchant(row))
+  }
+
+  return await prisma.$transaction(
+    linked.map((data) => prisma.transaction.create({ data: toCreateData(data) }))
+  )
+}
+
+/**
+ * Of the given import identifiers, the ones the organization already has, with their transaction ids
+ */
+export async function getImportedTransactionIds(organizationId: string, externalIds: string[]): Promise<Map<string, string>> {
+  const imported = await prisma.transaction.findMany({
+    where: {
+      organizationId,
+      externalId: { in: externalIds },
+    },
+    select: {
+      id: true,
+      externalId: true,
+    },
+  })
+  return new Map(imported.map((transaction: { id: string; externalId: string }) => [transaction.externalId, transaction.id]))
+}
+
+/**
+ * Get the organization's transactions saved under the given import identifiers
+ */
+export async function getTransactionsByExternalIds(organizationId: string, externalIds: string[]) {
+  return await prisma.transaction.findMany({
+    where: {
+      organizationId,
+      externalId: { in: externalIds },
+    },
+  })
+}
+
+/**
+ * Save the accepted changes of a re-extraction
+ * The new extraction's confidence, review status and provenance replace the old ones
+ */
+export async function updateReextractedTransaction(
+  id: string,
+  data: {
+    values: Partial<TransactionFieldValues> & { baseAmount: number | null; fxRate: number | null; merchantId?: string | null }
+    confidence: number
+    fieldConfidence: FieldConfidence
+    status: TransactionStatus
+    provenance?: ExtractionProvenance
+  }
+) {
+  return await prisma.transaction.update({
+    where: { id },
+    data: {
+      ...data.values,
+      confidence: data.confidence,
+      ...toFieldConfidenceColumns(data.fieldConfidence),
+      status: data.status,
+      ...(data.provenance && {
+        provenance: {
+          upsert: { create: data.provenance, update: data.provenance },
+        },
+      }),
+    },
+  })
+}
+
+/**
+ * Match a UTR, UPI ID, cheque number or VPA exactly, or the last digits of a masked account
+ */
+function referenceFilter(reference: string) {
+  const value = reference.trim()
+  return [
+    { utr: { equals: value, mode: 'insensitive' as const } },
+    { upiRef: value },
+    { chequeNumber: value },
+    { vpa: { equals: value, mode: 'insensitive' as const } },
+    { maskedAccount: { endsWith: value, mode: 'insensitive' as const } },
+  ]
+}
+
 /**
  * Get transactions for an organization with cursor-based pagination
+ * Optionally filtered by status (e.g. the "needs_review" queue), merchant or
+ * payment reference
  */
 export async function getTransactions(params: {
   organizationId: string
   limit?: number
   cursor?: string
+  status?: TransactionStatus
+  merchantId?: string
+  reference?: string
 }) {
   const limit = params.limit || 20
   const cursor = params.cursor
@@ -216,6 +401,9 @@ export async function getTransactions(params: {
   const transactions = await prisma.transaction.findMany({
     where: {
       organizationId: params.organizationId,
+      ...(params.status && { status: params.status }),
+      ...(params.merchantId && { merchantId: params.merchantId }),
+      ...(params.reference && { OR: referenceFilter(params.reference) }),
     },
     take: limit + 1, // Get one extra to check if there are more
     ...(cursor && {
@@ -242,6 +430,7 @@ export async function getTransactions(params: {
 
 /**
  * Get a single transaction by ID (with organization check)
+ * Includes extraction provenance and the linked merchant
  */
 export async function getTransactionById(id: string, organizationId: string) {
   return await prisma.transaction.findFirst({
@@ -249,5 +438,138 @@ export async function getTransactionById(id: string, organizationId: string) {
       id,
       organizationId,
     },
+    include: {
+      provenance: true,
+      merchant: {
+        select: { id: true, name: true },
+      },
+    },
+  })
+}
+
+/**
+ * Get a transaction with its redaction token map (with organization check), for re-extraction
+ */
+export async function getTransactionForReextraction(id: string, organizationId: string) {
+  return await prisma.transaction.findFirst({
+    where: {
+      id,
+      organizationId,
+    },
+    include: {
+      redaction: true,
+    },
+  })
+}
+
+/**
+ * Get an organization's transactions extracted with less than the given confidence,
+ * with cursor-based pagination (newest first)
+ * Includes the redaction token map, so re-extraction can run on the original text
+ */
+export async function getTransactionsBelowConfidence(params: {
+  organizationId: string
+  maxConfidence: number
+  limit: number
+  cursor?: string
+  excludeExtractors?: string[] // Leave out transactions whose provenance names one of these
+}) {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      organizationId: params.organizationId,
+      confidence: { lt: params.maxConfidence },
+      ...(params.excludeExtractors && {
+        NOT: { provenance: { is: { extractor: { in: params.excludeExtractors } } } },
+      }),
+    },
+    include: {
+      redaction: true,
+    },
+    take: params.limit + 1, // Get one extra to check if there are more
+    ...(params.cursor && {
+      cursor: {
+        id: params.cursor,
+      },
+      skip: 1, // Skip the cursor itself
+    }),
+    orderBy: {
+      createdAt: 'desc',
+    },
+  })
+
+  const hasMore = transactions.length > params.limit
+  const items = hasMore ? transactions.slice(0, -1) : transactions
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+    hasMore,
+  }
+}
+
+/**
+ * Get a redacted transaction's original text, description and references
+ * Null if the transaction does not exist or its organization did not keep the token map
+ */
+export async function getUnredactedTransaction(id: string, organizationId: string) {
+  const transaction = await prisma.transaction.findFirst({
+    where: {
+      id,
+      organizationId,
+    },
+    include: {
+      redaction: true,
+    },
   })
+
+  if (!transaction?.redaction) {
+    return null
+  }
+
+  const tokens = transaction.redaction.tokens as Record<string, string>
+  const restore = (value: string | null) => (value === null ? null : restoreText(value, tokens))
+
+  return {
+    id: transaction.id,
+    text: restoreText(transaction.text, tokens),
+    description: restore(transaction.description),
+    upiRef: restore(transaction.upiRef),
+    vpa: restore(transaction.vpa),
+    utr: restore(transaction.utr),
+    chequeNumber: restore(transaction.chequeNumber),
+    maskedAccount: restore(transaction.maskedAccount),
+  }
+}
+
+/**
+ * Compare the prompt versions behind an organization's AI-extracted transactions
+ * Per version: how many transactions it produced, their average confidence, and how
+ * many went to review or were reviewed (approved or corrected). Transactions from
+ * templates and regex have no prompt version and are left out.
+ */
+export async function getPromptVersionStats(organizationId: string) {
+  // The figures come from both tables, so they are grouped in one SQL query rather than per version
+  return await prisma.$queryRaw<
+    {
+      promptVersion: string
+      transactions: number
+      averageConfidence: number | null
+      averageLatencyMs: number | null
+      needsReview: number
+      reviewed: number
+    }[]
+  >`
+    SELECT
+      p."promptVersion",
+      COUNT(*)::int AS "transactions",
+      AVG(t."confidence")::float AS "averageConfidence",
+      AVG(p."latencyMs")::float AS "averageLatencyMs",
+      COUNT(*) FILTER (WHERE t."status" = 'needs_review')::int AS "needsReview",
+      COUNT(t."reviewedAt")::int AS "reviewed"
+    FROM "transaction_provenance" p
+    JOIN "transactions" t ON t."id" = p."transactionId"
+    WHERE t."organizationId" = ${organizationId} AND p."promptVersion" IS NOT NULL
+    GROUP BY p."promptVersion"
+    ORDER BY p."promptVersion"
+  `
 }
@@ -0,0 +1,108 @@
+import { prisma } from './db.js'
+import type { ExtractionProvenance } from './extractor.js'
+import { getMonthStart, getUsageDay, summarizeUsage } from './token-usage.js'
+
+/**
+ * Add one extraction's model usage to the organization's daily totals
+ * Extractions whose provider reported no token counts (cached, regex, templates) are not counted
+ */
+export async function recordAiUsage(
+  organizationId: string,
+  provenance: Pick<ExtractionProvenance, 'extractor' | 'modelId' | 'inputTokens' | 'outputTokens' | 'costUsd'> | undefined
+) {
+  if (!provenance || (provenance.inputTokens == null && provenance.outputTokens == null)) {
+    return null
+  }
+
+  const inputTokens = provenance.inputTokens || 0
+  const outputTokens = provenance.outputTokens || 0
+  const costUsd = provenance.costUsd || 0
+  const key = {
+    organizationId,
+    day: getUsageDay(new Date()),
+    extractor: provenance.extractor,
+    modelId: provenance.modelId || 'none',
+  }
+
+  return await prisma.aiUsage.upsert({
+    where: {
+      organizationId_day_extractor_modelId: key,
+    },
+    create: {
+      ...key,
+      requests: 1,
+      inputTokens,
+      outputTokens,
+      costUsd,
+    },
+    update: {
+      requests: { increment: 1 },
+      inputTokens: { increment: inputTokens },
+      outputTokens: { increment: outputTokens },
+      costUsd: { increment: costUsd },
+    },
+  })
+}
+
+/**
+ * Tokens (input and output) the organization has used this calendar month (UTC)
+ */
+export async function getMonthlyTokenUsage(organizationId: string, now = new Date()): Promise<number> {
+  const usage = await prisma.aiUsage.aggregate({
+    where: {
+      organizationId,
+      day: { gte: getMonthStart(now) },
+    },
+    _sum: {
+      inputTokens: true,
+      outputTokens: true,
+    },
+  })
+
+  return (usage._sum.inputTokens || 0) + (usage._sum.outputTokens || 0)
+}
+
+/**
+ * Where the organization stands against its monthly AI token quota (null quota is unlimited)
+ */
+export async function getAiQuotaStatus(organizationId: string, monthlyTokenQuota: number | null) {
+  const used = await getMonthlyTokenUsage(organizationId)
+
+  return {
+    monthlyTokenQuota,
+    used,
+    remaining: monthlyTokenQuota === null ? null : Math.max(monthlyTokenQuota - used, 0),
+    exceeded: monthlyTokenQuota !== null && used >= monthlyTokenQuota,
+  }
+}
+
+/**
+ * Check the quota before calling a model; skips the lookup when there is no quota
+ */
+export async function isOverAiQuota(organizationId: string, monthlyTokenQuota: number | null | undefined) {
+  if (monthlyTokenQuota === null || monthlyTokenQuota === undefined) {
+    return false
+  }
+  return (await getMonthlyTokenUsage(organizationId)) >= monthlyTokenQuota
+}
+
+/**
+ * Get an organization's AI usage between two days (inclusive), by day, month and model
+ */
+export async function getUsageReport(organizationId: string, range: { from: Date; to: Date }) {
+  const rows = await prisma.aiUsage.findMany({
+    where: {
+      organizationId,
+      day: { gte: range.from, lte: range.to },
+    },
+    orderBy: {
+      day: 'asc',
+    },
+  })
+
+  return {
+    from: range.from,
+    to: range.to,
+    ...summarizeUsage(rows),
+  }
+}
@@ -100,6 +100,11 @@ export const rateLimitPresets = {
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 10, // 10 requests per minute
     },
+    // Stricter limit for full statement pastes (each request extracts many rows)
+    statementExtraction: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 3, // 3 requests per minute
+    },
     // Lenient rate limit for read operations
     read: {
         windowMs: 60 * 1000, // 1 minute
@@ -144,6 +144,12 @@ export const rateLimitPresets = {
     maxRequests: 10, // 10 requests per minute
   },
   
+  // Stricter limit for full statement pastes (each request extracts many rows)
+  statementExtraction: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 3, // 3 requests per minute
+  },
+  
   // Lenient rate limit for read operations
   read: {
     windowMs: 60 * 1000, // 1 minute
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
 import { prisma } from '../../lib/db.js';
 import { createOrganization, addUserToOrganization, removeUserFromOrganization, updateUserRole, getUserOrganizations, getOrganizationMembers, getOrganizationBySlug, getOrganizationById, updateOrganization, deleteOrganization, hasOrganizationRole, } from '../../lib/organization.js';
+import { getCategories, getCategoryRecords, createCategory, updateCategory, deleteCategory, hasSubcategories, } from '../../lib/category.js';
+import { DEFAULT_CATEGORIES } from '../../lib/category-taxonomy.js';
 describe('Organization API', () => {
     let testUser1;
     let testUser2;
@@ -365,6 +367,48 @@ describe('Organization API', () => {
                 slug: existingSlug,
             })).rejects.toThrow();
         });
+        it('should set and clear the date format', async () => {
+            expect(updateOrg.dateFormat).toBeNull();
+            const updated = await updateOrganization({ organizationId: updateOrg.id, dateFormat: 'MDY' });
+            expect(updated.dateFormat).toBe('MDY');
+            const cleared = await updateOrganization({ organizationId: updateOrg.id, dateFormat: null });
+            expect(cleared.dateFormat).toBeNull();
+        });
+        it('should redact with every rule by default and save redaction settings', async () => {
+            expect(updateOrg.redactionRules).toEqual(['email', 'account', 'card', 'phone', 'name']);
+            expect(updateOrg.redactStoredText).toBe(false);
+            expect(updateOrg.keepRedactionMap).toBe(false);
+            const updated = await updateOrganization({
+                organizationId: updateOrg.id,
+                redactionRules: ['card', 'phone'],
+                redactStoredText: true,
+                keepRedactionMap: true,
+            });
+            expect(updated.redactionRules).toEqual(['card', 'phone']);
+            expect(updated.redactStoredText).toBe(true);
+            expect(updated.keepRedactionMap).toBe(true);
+        });
+        it('should set and remove the monthly AI token quota', async () => {
+            expect(updateOrg.monthlyTokenQuota).toBeNull();
+            const updated = await updateOrganization({ organizationId: updateOrg.id, monthlyTokenQuota: 500000 });
+            expect(updated.monthlyTokenQuota).toBe(500000);
+            const removed = await updateOrganization({ organizationId: updateOrg.id, monthlyTokenQuota: null });
+            expect(removed.monthlyTokenQuota).toBeNull();
+        });
+        it('should pin a prompt version and set prompt instructions', async () => {
+            expect(updateOrg.promptVersion).toBeNull();
+            expect(updateOrg.promptInstructions).toBeNull();
+            const updated = await updateOrganization({
+                organizationId: updateOrg.id,
+                promptVersion: 'v6',
+                promptInstructions: 'Treat coffee as Office Supplies.',
+            });
+            expect(updated.promptVersion).toBe('v6');
+            expect(updated.promptInstructions).toBe('Treat coffee as Office Supplies.');
+            const cleared = await updateOrganization({ organizationId: updateOrg.id, promptVersion: null, promptInstructions: null });
+            expect(cleared.promptVersion).toBeNull();
+            expect(cleared.promptInstructions).toBeNull();
+        });
     });
     describe('Organization Deletion', () => {
         it('should delete organization and its members', async () => {
@@ -463,4 +507,70 @@ describe('Organization API', () => {
             expect(hasMember).toBe(true);
         });
     });
+    describe('Categories', () => {
+        let categoryOrg;
+        beforeEach(async () => {
+            categoryOrg = await createOrganization({
+                name: 'Category Test Org',
+                slug: `test-org-categories-${Date.now()}`,
+                creatorUserId: testUser1.id,
+            });
+        });
+        it('should start new organizations with the default categories', async () => {
+            const categories = await getCategories(categoryOrg.id);
+            expect(categories.map((category) => category.name).sort()).toEqual(DEFAULT_CATEGORIES.map((category) => category.name).sort());
+            expect(categories.find((category) => category.name === 'Income')?.description).toBe('salary, refunds, deposits, credits');
+        });
+        it('should create subcategories under a parent', async () => {
+            const coffee = await createCategory(categoryOrg.id, {
+                name: 'Coffee',
+                parent: 'Food & Dining',
+                color: '#92400e',
+                keywords: ['chaayos'],
+                description: 'coffee shops and tea bars',
+            });
+            expect(coffee.parent?.name).toBe('Food & Dining');
+            expect(await getCategories(categoryOrg.id)).toContainEqual({
+                name: 'Coffee',
+                parent: 'Food & Dining',
+                color: '#92400e',
+                keywords: ['chaayos'],
+                description: 'coffee shops and tea bars',
+            });
+            const records = await getCategoryRecords(categoryOrg.id);
+            const food = records.find((category) => category.name === 'Food & Dining');
+            expect(await hasSubcategories(food.id)).toBe(true);
+        });
+        it('should rename the category on existing transactions', async () => {
+            await prisma.transaction.create({
+                data: {
+                    text: 'Uber ride ₹310.00',
+                    amount: 310,
+                    date: new Date(),
+                    description: 'Uber',
+                    category: 'Transportation',
+                    confidence: 0.9,
+                    organizationId: categoryOrg.id,
+                    userId: testUser1.id,
+                },
+            });
+            const records = await getCategoryRecords(categoryOrg.id);
+            const transportation = records.find((category) => category.name === 'Transportation');
+            await updateCategory({
+                organizationId: categoryOrg.id,
+                id: transportation.id,
+                currentName: 'Transportation',
+                input: { name: 'Travel' },
+            });
+            const transactions = await prisma.transaction.findMany({ where: { organizationId: categoryOrg.id } });
+            expect(transactions.map((transaction) => transaction.category)).toEqual(['Travel']);
+        });
+        it('should delete a category', async () => {
+            const records = await getCategoryRecords(categoryOrg.id);
+            const other = records.find((category) => category.name === 'Other');
+            await deleteCategory({ organizationId: categoryOrg.id, id: other.id, name: other.name });
+            const categories = await getCategories(categoryOrg.id);
+            expect(categories.map((category) => category.name)).not.toContain('Other');
+        });
+    });
 });
@@ -5,12 +5,41 @@ import {
   createTransaction,
   getTransactions,
   getTransactionById,
+  getTransactionForReextraction,
+  getUnredactedTransaction,
   parseTransactionText,
 } from '../../lib/transaction.js'
+import {
+  extractStatement,
+  extractTransaction,
+  importCsvStatement,
+  importOfxStatement,
+  reextractTransaction,
+  reextractTransactions,
+} from '../../lib/extraction.js'
+import { getCsvMapping, rememberCsvMapping, saveCsvMapping } from '../../lib/csv-mappings.js'
+import { parseOfx } from '../../lib/ofx.js'
+import { getAiQuotaStatus, getUsageReport } from '../../lib/usage.js'
+import { getMonthStart, withFailedCallUsage } from '../../lib/token-usage.js'
 import {
   createOrganization,
   addUserToOrganization,
 } from '../../lib/organization.js'
+import { upsertFxRates, withBaseAmount } from '../../lib/fx.js'
+import { registerExtractor } from '../../lib/extractor.js'
+import { emptyReferences } from '../../lib/references.js'
+import { buildExtractionPrompt } from '../../lib/prompt.js'
+import { parseTransactionTextWithRegex } from '../../lib/regex-parser.js'
+import { approveTransaction, correctTransaction, parseTransactionCorrection } from '../../lib/review.js'
+import { getMerchantById, mergeMerchants, splitMerchant } from '../../lib/merchant.js'
+import {
+  claimExtractionJob,
+  enqueueExtractionJob,
+  deleteExpiredExtractionJobs,
+  getExtractionJob,
+  processExtractionJobs,
+  runExtractionJob,
+} from '../../lib/extraction-jobs.js'
 
 describe('Transaction API', () => {
   let testUser1: any
@@ -83,6 +112,14 @@ describe('Transaction API', () => {
         },
       })
 
+      await prisma.fxRate.deleteMany({
+        where: {
+          organizationId: {
+            in: [testOrg1?.id, testOrg2?.id].filter(Boolean),
+          },
+        },
+      })
+
       // Then delete organization members
       await prisma.organizationMember.deleteMany({
         where: {
@@ -174,6 +211,28 @@ describe('Transaction API', () => {
         expect(parsed.amount).toBeGreaterThan(0)
       }
     })
+
+    it('should mark negative amounts as debits', async () => {
+      const parsed = await parseTransactionText('Debit: -₹1,000.00')
+
+      expect(parsed.amount).toBe(1000)
+      expect(parsed.direction).toBe('debit')
+    })
+
+    it('should mark refunds and Cr entries as credits', async () => {
+      const refund = await parseTransactionText('Amazon refund ₹420.00 11 Dec 2025')
+      const credited = await parseTransactionText('NEFT SALARY ACME LTD 85,000.00 INR Cr')
+
+      expect(refund.amount).toBe(420)
+      expect(refund.direction).toBe('credit')
+      expect(credited.direction).toBe('credit')
+    })
+
+    it('should treat credit card purchases as debits', async () => {
+      const parsed = await parseTransactionText('Credit card purchase at Myntra ₹2,499.00')
+
+      expect(parsed.direction).toBe('debit')
+    })
   })
 
   describe('Transaction Creation', () => {
@@ -196,6 +255,38 @@ describe('Transaction API', () => {
       expect(transaction.userId).toBe(testUser1.id)
     })
 
+    it('should default direction to debit', async () => {
+      const transaction = await createTransaction({
+        text: 'Debit without direction ₹100.00',
+        amount: 100,
+        date: null,
+        description: null,
+        category: null,
+        confidence: 0.5,
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+      })
+
+      expect(transaction.direction).toBe('debit')
+    })
+
+    it('should store credit direction', async () => {
+      const transaction = await createTransaction({
+        text: 'Refund ₹420.00',
+        amount: 420,
+        date: null,
+        description: 'Refund',
+        category: 'Income',
+        direction: 'credit',
+        confidence: 0.9,
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+      })
+
+      expect(transaction.amount).toBe(420)
+      expect(transaction.direction).toBe('credit')
+    })
+
     it('should create transaction with null optional fields', async () => {
       const transaction = await createTransaction({
         text: 'Unknown transaction',
@@ -330,6 +421,27 @@ describe('Transaction API', () => {
       expect(retrieved?.amount).toBe(150)
     })
 
+    it('should include extraction provenance', async () => {
+      const parsed = await parseTransactionText('Uber ride ₹250.00 05/12/2025', { extractor: 'regex' })
+      const created = await createTransaction({
+        text: 'Uber ride ₹250.00 05/12/2025',
+        amount: parsed.amount,
+        date: parsed.date,
+        description: parsed.description,
+        category: parsed.category,
+        confidence: parsed.confidence,
+        provenance: parsed.provenance,
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+      })
+
+      const retrieved = await getTransactionById(created.id, testOrg1.id)
+
+      expect(retrieved?.provenance?.extractor).toBe('regex')
+      expect(retrieved?.provenance?.latencyMs).toBeGreaterThanOrEqual(0)
+      expect(retrieved?.provenance?.rawOutput).toBeNull()
+    })
+
     it('should not retrieve transaction from different organization', async () => {
       const created = await createTransaction({
         text: 'Org 1 transaction',
@@ -463,6 +575,1037 @@ describe('Transaction API', () => {
     })
   })
 
+  describe('Currency Conversion', () => {
+    beforeAll(async () => {
+      await upsertFxRates({
+        organizationId: testOrg1.id,
+        baseCurrency: 'INR',
+        rates: [
+          { currency: 'USD', rate: 83, effectiveDate: '2025-11-01' },
+          { currency: 'USD', rate: 84, effectiveDate: '2025-12-01' },
+        ],
+      })
+    })
+
+    const baseInput = () => ({
+      text: 'AWS USD 10.00',
+      amount: 10,
+      description: 'AWS',
+      category: 'Utilities',
+      confidence: 0.9,
+      organizationId: testOrg1.id,
+      userId: testUser1.id,
+    })
+
+    it('should use the rate effective on the transaction date', async () => {
+      const november = await withBaseAmount({ ...baseInput(), date: new Date('2025-11-20'), currency: 'USD' }, 'INR')
+      const december = await withBaseAmount({ ...baseInput(), date: new Date('2025-12-05'), currency: 'USD' }, 'INR')
+
+      expect(november.baseAmount).toBe(830)
+      expect(november.fxRate).toBe(83)
+      expect(december.baseAmount).toBe(840)
+    })
+
+    it('should leave baseAmount empty when no rate is in effect', async () => {
+      const early = await withBaseAmount({ ...baseInput(), date: new Date('2025-01-01'), currency: 'USD' }, 'INR')
+      const unknown = await withBaseAmount({ ...baseInput(), date: new Date('2025-12-05'), currency: 'EUR' }, 'INR')
+
+      expect(early.baseAmount).toBeNull()
+      expect(unknown.fxRate).toBeNull()
+    })
+
+    it('should not convert base currency amounts', async () => {
+      const inr = await withBaseAmount({ ...baseInput(), date: null, currency: 'INR' }, 'INR')
+      const transaction = await createTransaction(inr)
+
+      expect(transaction.currency).toBe('INR')
+      expect(transaction.baseAmount).toBe(10)
+      expect(transaction.fxRate).toBe(1)
+    })
+  })
+
+  describe('Extraction Cache', () => {
+    let calls = 0
+    let modelId = 'model-a'
+
+    beforeAll(() => {
+      registerExtractor({
+        name: 'counting-test',
+        isConfigured: () => true,
+        modelId: () => modelId,
+        extract: async () => {
+          calls++
+          return {
+            amount: 420,
+            date: new Date('2025-12-11'),
+            description: 'Cached merchant',
+            category: 'Other',
+            direction: 'debit',
+            currency: 'INR',
+            confidence: 0.9,
+            fieldConfidence: { amount: 0.9, date: 0.9, description: 0.9, category: 0.9 },
+            references: emptyReferences(),
+          }
+        },
+      })
+    })
+
+    beforeEach(() => {
+      calls = 0
+      modelId = 'model-a'
+    })
+
+    it('should reuse results for repeated text in the same organization', async () => {
+      const text = 'Cache test merchant 420.00'
+      const first = await parseTransactionText(text, { extractor: 'counting-test', organizationId: testOrg1.id })
+      const second = await parseTransactionText(`  ${text}\n`, { extractor: 'counting-test', organizationId: testOrg1.id })
+
+      expect(calls).toBe(1)
+      expect(first.provenance?.cached).toBe(false)
+      expect(second.provenance?.cached).toBe(true)
+      expect(second.date?.toISOString().slice(0, 10)).toBe('2025-12-11')
+      expect(second.description).toBe('Cached merchant')
+    })
+
+    it('should not share results across organizations', async () => {
+      const text = 'Cache scope merchant 420.00'
+      await parseTransactionText(text, { extractor: 'counting-test', organizationId: testOrg1.id })
+      await parseTransactionText(text, { extractor: 'counting-test', organizationId: testOrg2.id })
+
+      expect(calls).toBe(2)
+    })
+
+    it('should miss when the model changes', async () => {
+      const text = 'Cache version merchant 420.00'
+      await parseTransactionText(text, { extractor: 'counting-test', organizationId: testOrg1.id })
+      modelId = 'model-b'
+      await parseTransactionText(text, { extractor: 'counting-test', organizationId: testOrg1.id })
+
+      expect(calls).toBe(2)
+    })
+  })
+
+  describe('PII Redaction', () => {
+    const text = 'NEFT to RAHUL SHARMA A/c 50100123456789 ₹25,000.00 15 Dec 2025'
+    let seen: string[] = []
+
+    beforeAll(() => {
+      // Describes the line with whatever it was sent, like a model would
+      registerExtractor({
+        name: 'redaction-test',
+        isConfigured: () => true,
+        extract: async (sent) => {
+          seen.push(sent)
+          return {
+            amount: 25000,
+            date: new Date('2025-12-15'),
+            description: `Transfer to ${sent.match(/to (\S+)/)?.[1]}`,
+            category: 'Transfer',
+            direction: 'debit',
+            currency: 'INR',
+            confidence: 0.9,
+            fieldConfidence: { amount: 0.9, date: 0.9, description: 0.9, category: 0.9 },
+            references: emptyReferences(),
+          }
+        },
+      })
+    })
+
+    beforeEach(() => {
+      seen = []
+    })
+
+    it('should mask personal data sent to the provider and restore it in the result', async () => {
+      const parsed = await parseTransactionText(text, { extractor: 'redaction-test', organizationId: testOrg1.id })
+
+      expect(seen).toEqual(['NEFT to [NAME_1] A/c [ACCOUNT_1] ₹25,000.00 15 Dec 2025'])
+      expect(parsed.description).toBe('Transfer to RAHUL SHARMA')
+
+      const cached = await parseTransactionText(text, { extractor: 'redaction-test', organizationId: testOrg1.id })
+      expect(seen).toHaveLength(1)
+      expect(cached.description).toBe('Transfer to RAHUL SHARMA')
+    })
+
+    it('should mask personal data in the learned examples sent to the provider', async () => {
+      const prompts: string[] = []
+      registerExtractor({
+        name: 'example-redaction-test',
+        isConfigured: () => true,
+        extract: async (sent, context) => {
+          prompts.push(buildExtractionPrompt(sent, context))
+          return parseTransactionTextWithRegex(sent, context)
+        },
+      })
+      const merchantCategories = [
+        {
+          merchantKey: 'swiggy',
+          category: 'Food & Dining',
+          exampleText: 'SWIGGY order A/c 50100123456789 receipt to priya.sharma@example.com ₹420.00',
+        },
+      ]
+
+      await parseTransactionText('SWIGGY order ₹250.00 11 Dec 2025', { extractor: 'example-redaction-test', merchantCategories })
+
+      expect(prompts).toHaveLength(1)
+      expect(prompts[0]).toContain('SWIGGY order A/c [ACCOUNT_1] receipt to [EMAIL_1] ₹420.00')
+      expect(prompts[0]).not.toContain('50100123456789')
+      expect(prompts[0]).not.toContain('priya.sharma@example.com')
+    })
+
+    it('should send text verbatim when redaction is turned off', async () => {
+      await parseTransactionText(text, { extractor: 'redaction-test', redactionRules: [] })
+
+      expect(seen).toEqual([text])
+    })
+
+    it('should store redacted text and keep the token map only when the organization opts in', async () => {
+      const organization = { ...testOrg1, extractor: 'redaction-test', redactStoredText: true }
+
+      const kept = await extractTransaction({
+        text,
+        organization: { ...organization, keepRedactionMap: true },
+        userId: testUser1.id,
+      })
+      expect(kept.text).toBe('NEFT to [NAME_1] A/c [ACCOUNT_1] ₹25,000.00 15 Dec 2025')
+      expect(kept.description).toBe('Transfer to [NAME_1]')
+      expect(kept.merchantId).toBeNull()
+
+      const revealed = await getUnredactedTransaction(kept.id, testOrg1.id)
+      expect(revealed?.text).toBe(text)
+      expect(revealed?.description).toBe('Transfer to RAHUL SHARMA')
+      expect(await getUnredactedTransaction(kept.id, testOrg2.id)).toBeNull()
+
+      const discarded = await extractTransaction({ text, organization, userId: testUser1.id })
+      expect(discarded.text).toBe(kept.text)
+      expect(await getUnredactedTransaction(discarded.id, testOrg1.id)).toBeNull()
+    })
+
+    it('should mask the text of failed statement rows when the organization redacts stored text', async () => {
+      const result = await extractStatement({
+        text: 'Refund request from priya.sharma@example.com',
+        organization: { ...testOrg1, extractor: 'regex', redactStoredText: true },
+        userId: testUser1.id,
+      })
+
+      expect(result.failures).toEqual([{ row: 0, text: 'Refund request from [EMAIL_1]', error: 'No amount found in row' }])
+    })
+  })
+
+  describe('AI Usage', () => {
+    beforeAll(() => {
+      // Reports usage like a model provider
+      registerExtractor({
+        name: 'metered-test',
+        isConfigured: () => true,
+        extract: async () => ({
+          amount: 99,
+          date: new Date('2025-12-11'),
+          description: 'Metered merchant',
+          category: 'Other',
+          direction: 'debit',
+          currency: 'INR',
+          confidence: 0.9,
+          fieldConfidence: { amount: 0.9, date: 0.9, description: 0.9, category: 0.9 },
+          references: emptyReferences(),
+          provenance: {
+            extractor: 'metered-test',
+            modelId: 'gpt-4o-mini',
+            promptVersion: null,
+            reasoning: null,
+            latencyMs: null,
+            rawOutput: null,
+            inputTokens: 1000,
+            outputTokens: 100,
+            costUsd: 0.0002,
+          },
+        }),
+      })
+    })
+
+    it('should record token usage per extraction but not for cached results', async () => {
+      const text = 'Metered merchant ₹99.00'
+      const first = await parseTransactionText(text, { extractor: 'metered-test', organizationId: testOrg1.id })
+      const cached = await parseTransactionText(text, { extractor: 'metered-test', organizationId: testOrg1.id })
+
+      expect(first.provenance).toMatchObject({ inputTokens: 1000, outputTokens: 100, costUsd: 0.0002 })
+      expect(cached.provenance).toMatchObject({ cached: true, inputTokens: 0, outputTokens: 0, costUsd: 0 })
+
+      const report = await getUsageReport(testOrg1.id, { from: getMonthStart(new Date()), to: new Date() })
+      expect(report.byModel).toEqual([
+        expect.objectContaining({ extractor: 'metered-test', modelId: 'gpt-4o-mini', requests: 1, inputTokens: 1000 }),
+      ])
+      expect(report.monthly).toHaveLength(1)
+    })
+
+    it('should send lines to regex once the monthly quota is used up', async () => {
+      const options = { extractor: 'metered-test', organizationId: testOrg2.id, monthlyTokenQuota: 2000 }
+
+      await parseTransactionText('Quota merchant one ₹99.00', options)
+      await parseTransactionText('Quota merchant two ₹99.00', options)
+      const skipped = await parseTransactionText('Quota merchant three ₹99.00', options)
+
+      expect(skipped.provenance?.extractor).toBe('regex')
+      expect(skipped.provenance?.reasoning).toBe('metered-test skipped: monthly AI token quota exceeded')
+      expect(await getAiQuotaStatus(testOrg2.id, 2000)).toEqual({
+        monthlyTokenQuota: 2000,
+        used: 2200,
+        remaining: 0,
+        exceeded: true,
+      })
+    })
+
+    it('should record the usage of a provider call that failed before falling back to regex', async () => {
+      // Fails like a re-prompt that timed out after the first reply was billed
+      registerExtractor({
+        name: 'failing-metered-test',
+        isConfigured: () => true,
+        extract: async () => {
+          throw withFailedCallUsage(new Error('Request timed out'), 'gpt-4o', { inputTokens: 800, outputTokens: 50 })
+        },
+      })
+
+      const parsed = await parseTransactionText('Failing metered merchant ₹99.00', {
+        extractor: 'failing-metered-test',
+        organizationId: testOrg1.id,
+      })
+
+      expect(parsed.provenance?.extractor).toBe('regex')
+      const report = await getUsageReport(testOrg1.id, { from: getMonthStart(new Date()), to: new Date() })
+      expect(report.byModel).toContainEqual(
+        expect.objectContaining({ extractor: 'failing-metered-test', modelId: 'gpt-4o', requests: 1, inputTokens: 800, outputTokens: 50 })
+      )
+    })
+  })
+
+  describe('Review Queue', () => {
+    const reviewInput = (text: string) => ({
+      text,
+      amount: 1200,
+      date: new Date('2025-12-10'),
+      description: 'Unclear merchant',
+      category: 'Other',
+      confidence: 0.4,
+      status: 'needs_review' as const,
+      organizationId: testOrg1.id,
+      userId: testUser1.id,
+    })
+
+    it('should default new transactions to final', async () => {
+      const transaction = await createTransaction({
+        ...reviewInput('Confident transaction'),
+        status: undefined,
+        confidence: 0.95,
+      })
+
+      expect(transaction.status).toBe('final')
+    })
+
+    it('should list only transactions awaiting review', async () => {
+      const pending = await createTransaction(reviewInput('Pending review'))
+
+      const queue = await getTransactions({ organizationId: testOrg1.id, status: 'needs_review' })
+
+      expect(queue.items.map((item: any) => item.id)).toContain(pending.id)
+      expect(queue.items.every((item: any) => item.status === 'needs_review')).toBe(true)
+    })
+
+    it('should approve a transaction as extracted', async () => {
+      const pending = await createTransaction(reviewInput('Approve me'))
+
+      const approved = await approveTransaction(pending.id, testUser1.id)
+
+      expect(approved.status).toBe('final')
+      expect(approved.reviewedBy).toBe(testUser1.id)
+      expect(approved.amount).toBe(1200)
+    })
+
+    it('should apply corrections and recalculate the base amount', async () => {
+      const pending = await createTransaction(reviewInput('Correct me'))
+      const parsed = parseTransactionCorrection({ amount: 1500, category: 'Shopping' })
+      if ('error' in parsed) throw new Error(parsed.error)
+
+      const corrected = await correctTransaction({
+        transaction: pending,
+        corrections: parsed.corrections,
+        baseCurrency: 'INR',
+        userId: testUser1.id,
+      })
+
+      expect(corrected.status).toBe('final')
+      expect(corrected.amount).toBe(1500)
+      expect(corrected.baseAmount).toBe(1500)
+      expect(corrected.category).toBe('Shopping')
+      expect(corrected.description).toBe('Unclear merchant')
+    })
+
+    it('should learn the corrected category for the merchant', async () => {
+      const pending = await createTransaction({
+        ...reviewInput('UPI/CHAAYOS/534512345678/Payment ₹250.00'),
+        description: 'UPI/CHAAYOS/534512345678/Payment',
+        category: 'Transfer',
+      })
+
+      await correctTransaction({
+        transaction: pending,
+        corrections: { category: 'Food & Dining' },
+        baseCurrency: 'INR',
+        userId: testUser1.id,
+      })
+
+      const parsed = await parseTransactionText('UPI/CHAAYOS/534599999999/Payment ₹180.00', {
+        extractor: 'regex',
+        organizationId: testOrg1.id,
+      })
+      const otherOrg = await parseTransactionText('UPI/CHAAYOS/534599999999/Payment ₹180.00', {
+        extractor: 'regex',
+        organizationId: testOrg2.id,
+      })
+
+      expect(parsed.category).toBe('Food & Dining')
+      expect(otherOrg.category).toBe('Transfer')
+    })
+
+    it('should reject invalid corrections', () => {
+      expect(parseTransactionCorrection({ amount: 'lots' })).toEqual({
+        error: 'amount must be a positive number or null',
+      })
+      expect(parseTransactionCorrection({ category: 'Coffee' })).toEqual({ error: 'Unknown category' })
+      expect(parseTransactionCorrection({ category: 'Coffee' }, ['Food & Dining', 'Coffee'])).toEqual({
+        corrections: { category: 'Coffee' },
+      })
+      expect(parseTransactionCorrection({ currency: 'usd' })).toEqual({
+        error: 'currency must be a 3-letter ISO code',
+      })
+    })
+  })
+
+  describe('Re-extraction', () => {
+    beforeAll(() => {
+      // Stands in for an improved prompt: reads every line as a confident Zomato order
+      registerExtractor({
+        name: 'reextract-test',
+        isConfigured: () => true,
+        extract: async () => ({
+          amount: 1250.5,
+          date: new Date('2025-12-15'),
+          description: 'Zomato',
+          category: 'Food & Dining',
+          direction: 'debit',
+          currency: 'INR',
+          confidence: 0.95,
+          fieldConfidence: { amount: 0.95, date: 0.95, description: 0.95, category: 0.95 },
+          references: emptyReferences(),
+        }),
+      })
+    })
+
+    const saveOldExtraction = (text: string, confidence = 0.4) =>
+      createTransaction({
+        text,
+        amount: 1250,
+        date: new Date('2025-12-15'),
+        description: 'ZOMATO ORDER',
+        category: 'Other',
+        confidence,
+        status: 'needs_review',
+        organizationId: testOrg2.id,
+        userId: testUser2.id,
+      })
+
+    it('should return a field-by-field diff without saving it', async () => {
+      const saved = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025')
+      const transaction = await getTransactionForReextraction(saved.id, testOrg2.id)
+
+      const result = await reextractTransaction({
+        transaction: transaction!,
+        organization: { ...testOrg2, extractor: 'reextract-test' },
+      })
+
+      expect(result.changes).toEqual([
+        { field: 'amount', current: 1250, proposed: 1250.5 },
+        { field: 'description', current: 'ZOMATO ORDER', proposed: 'Zomato' },
+        { field: 'category', current: 'Other', proposed: 'Food & Dining' },
+      ])
+      expect(result.applied).toEqual([])
+      expect(result.transaction).toBeNull()
+      expect((await getTransactionById(saved.id, testOrg2.id))?.amount).toBe(1250)
+    })
+
+    it('should save only the accepted changes, scoring rejected fields as before', async () => {
+      const saved = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025 #2')
+      const transaction = await getTransactionForReextraction(saved.id, testOrg2.id)
+
+      const result = await reextractTransaction({
+        transaction: transaction!,
+        organization: { ...testOrg2, extractor: 'reextract-test' },
+        accept: ['amount', 'category'],
+      })
+
+      expect(result.applied).toEqual(['amount', 'category'])
+      const updated = await getTransactionById(saved.id, testOrg2.id)
+      // The rejected description keeps its saved score (0.4): 0.3 * 0.95 + 0.3 * 0.95 + 0.2 * 0.4 + 0.2 * 0.95
+      expect(updated).toMatchObject({
+        amount: 1250.5,
+        baseAmount: 1250.5,
+        category: 'Food & Dining',
+        description: 'ZOMATO ORDER',
+        confidence: 0.84,
+        descriptionConfidence: 0.4,
+        categoryConfidence: 0.95,
+        status: 'final',
+      })
+      // The description still comes from the earlier extraction
+      expect(updated?.provenance).toBeNull()
+    })
+
+    it('should replace the provenance when every change is accepted', async () => {
+      const saved = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025 #5')
+      const transaction = await getTransactionForReextraction(saved.id, testOrg2.id)
+
+      await reextractTransaction({
+        transaction: transaction!,
+        organization: { ...testOrg2, extractor: 'reextract-test' },
+        accept: ['amount', 'description', 'category'],
+      })
+
+      const updated = await getTransactionById(saved.id, testOrg2.id)
+      expect(updated).toMatchObject({ confidence: 0.95, status: 'final' })
+      expect(updated?.provenance?.extractor).toBe('reextract-test')
+    })
+
+    it('should keep the status of a reviewed transaction', async () => {
+      const saved = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025 #6')
+      await approveTransaction(saved.id, testUser2.id)
+      const transaction = await getTransactionForReextraction(saved.id, testOrg2.id)
+
+      await reextractTransaction({
+        transaction: transaction!,
+        organization: { ...testOrg2, extractor: 'reextract-test', reviewThreshold: 0.99 },
+        accept: ['amount'],
+      })
+
+      const updated = await getTransactionById(saved.id, testOrg2.id)
+      expect(updated).toMatchObject({ amount: 1250.5, status: 'final' })
+    })
+
+    it('should re-extract transactions below the threshold in bulk', async () => {
+      const low = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025 #3', 0.3)
+      const high = await saveOldExtraction('Zomato order ₹1,250.50 15 Dec 2025 #4', 0.98)
+
+      const result = await reextractTransactions({
+        organization: { ...testOrg2, extractor: 'reextract-test' },
+        maxConfidence: 0.7,
+        accept: ['amount', 'date', 'description', 'category'],
+        limit: 100,
+      })
+
+      const ids = result.items.map((item) => item.id)
+      expect(ids).toContain(low.id)
+      expect(ids).not.toContain(high.id)
+      expect(result.failures).toEqual([])
+      expect((await getTransactionById(low.id, testOrg2.id))?.description).toBe('Zomato')
+      expect((await getTransactionById(high.id, testOrg2.id))?.description).toBe('ZOMATO ORDER')
+    })
+
+    it('should leave transactions imported from files out of bulk re-extraction', async () => {
+      const imported = await createTransaction({
+        text: '11/12/25 | ZOMATO ORDER | 1,250.00',
+        amount: 1250,
+        date: new Date('2025-12-11'),
+        description: 'ZOMATO ORDER',
+        category: null,
+        confidence: 0.4,
+        provenance: {
+          extractor: 'csv',
+          modelId: null,
+          promptVersion: null,
+          reasoning: 'Imported from HDFC Savings CSV',
+          latencyMs: 1,
+          rawOutput: null,
+        },
+        organizationId: testOrg2.id,
+        userId: testUser2.id,
+      })
+
+      const result = await reextractTransactions({
+        organization: { ...testOrg2, extractor: 'reextract-test' },
+        maxConfidence: 0.7,
+        accept: ['amount', 'date', 'description', 'category'],
+        limit: 100,
+      })
+
+      expect(result.items.map((item) => item.id)).not.toContain(imported.id)
+      expect((await getTransactionById(imported.id, testOrg2.id))?.amount).toBe(1250)
+    })
+  })
+
+  describe('Merchants', () => {
+    const merchantInput = (description: string) => ({
+      text: `${description} ₹300.00`,
+      amount: 300,
+      date: new Date('2025-12-11'),
+      description,
+      category: 'Food & Dining',
+      confidence: 0.9,
+      organizationId: testOrg1.id,
+      userId: testUser1.id,
+    })
+
+    it('should link descriptions of the same merchant together', async () => {
+      const upi = await createTransaction(merchantInput('UPI/SWIGGY/534512345678/Payment'))
+      const pos = await createTransaction(merchantInput('POS SWIGGY BANGALORE'))
+
+      const merchant = await getMerchantById(upi.merchantId!, testOrg1.id)
+
+      expect(pos.merchantId).toBe(upi.merchantId)
+      expect(merchant?.name).toBe('Swiggy')
+      expect(merchant?.aliases.map((entry: any) => entry.alias)).toEqual(['swiggy'])
+    })
+
+    it('should keep merchants separate per organization', async () => {
+      const first = await createTransaction(merchantInput('ZOMATO ORDER'))
+      const second = await createTransaction({
+        ...merchantInput('ZOMATO ORDER'),
+        organizationId: testOrg2.id,
+        userId: testUser2.id,
+      })
+
+      expect(second.merchantId).not.toBe(first.merchantId)
+    })
+
+    it('should merge merchants with their aliases and transactions', async () => {
+      const target = await createTransaction(merchantInput('AMAZON RETAIL'))
+      const source = await createTransaction(merchantInput('AMZN MKTP'))
+
+      const merged = await mergeMerchants({
+        organizationId: testOrg1.id,
+        targetId: target.merchantId!,
+        sourceIds: [source.merchantId!],
+      })
+      const relinked = await getTransactionById(source.id, testOrg1.id)
+      const later = await createTransaction(merchantInput('AMZN MKTP'))
+
+      expect(merged?.aliases.map((entry: any) => entry.alias)).toEqual(['amazon retail', 'amzn mktp'])
+      expect(relinked?.merchantId).toBe(target.merchantId)
+      expect(later.merchantId).toBe(target.merchantId)
+      expect(await getMerchantById(source.merchantId!, testOrg1.id)).toBeNull()
+    })
+
+    it('should split aliases and their transactions into a new merchant', async () => {
+      const store = await createTransaction(merchantInput('DMART STORE'))
+      const ready = await createTransaction(merchantInput('DMART READY'))
+      await mergeMerchants({
+        organizationId: testOrg1.id,
+        targetId: store.merchantId!,
+        sourceIds: [ready.merchantId!],
+      })
+
+      const split = await splitMerchant({
+        organizationId: testOrg1.id,
+        merchantId: store.merchantId!,
+        aliases: ['dmart ready'],
+        name: 'DMart Ready',
+      })
+      const moved = await getTransactionById(ready.id, testOrg1.id)
+      const stayed = await getTransactionById(store.id, testOrg1.id)
+
+      expect(split?.name).toBe('DMart Ready')
+      expect(moved?.merchantId).toBe(split?.id)
+      expect(stayed?.merchantId).toBe(store.merchantId)
+    })
+  })
+
+  describe('Payment References', () => {
+    it('should store references and find transactions by them', async () => {
+      const text = 'NEFT/SBIN425345678901/ACME CORP A/c XX4321 ₹50,000.00 CR'
+      const parsed = await parseTransactionText(text, { extractor: 'regex' })
+      const transaction = await createTransaction({
+        text,
+        amount: parsed.amount,
+        date: parsed.date,
+        description: parsed.description,
+        category: parsed.category,
+        confidence: parsed.confidence,
+        references: parsed.references,
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+      })
+
+      const byUtr = await getTransactions({ organizationId: testOrg1.id, reference: 'sbin425345678901' })
+      const byAccount = await getTransactions({ organizationId: testOrg1.id, reference: '4321' })
+      const otherOrg = await getTransactions({ organizationId: testOrg2.id, reference: 'SBIN425345678901' })
+
+      expect(transaction.utr).toBe('SBIN425345678901')
+      expect(transaction.maskedAccount).toBe('XX4321')
+      expect(byUtr.items.map((item: any) => item.id)).toEqual([transaction.id])
+      expect(byAccount.items.map((item: any) => item.id)).toContain(transaction.id)
+      expect(otherOrg.items).toHaveLength(0)
+    })
+  })
+
+  describe('CSV Import', () => {
+    beforeAll(() => {
+      // Categorizes what no rule matched, and counts how often it was asked
+      registerExtractor({
+        name: 'csv-categorizer-test',
+        isConfigured: () => true,
+        extract: async () => {
+          categorizerCalls++
+          return {
+            amount: null,
+            date: null,
+            description: null,
+            category: 'Utilities',
+            direction: 'debit',
+            currency: 'INR',
+            confidence: 0.25,
+            fieldConfidence: { amount: 0, date: 0, description: 0, category: 0.9 },
+            references: emptyReferences(),
+          }
+        },
+      })
+    })
+
+    let categorizerCalls = 0
+
+    it('should import rows with amounts and dates from the file and only use AI for uncategorized rows', async () => {
+      const csv = [
+        'Date,Narration,Withdrawal Amt.,Deposit Amt.',
+        '11/12/25,UPI-SWIGGY-SWIGGY@YBL-534512345678-PAYMENT,420.00,',
+        '12/12/25,ACH D- TP ACH MAHAVITARAN-8812345,"1,240.00",',
+        ',Opening balance,,',
+      ].join('\n')
+
+      const result = await importCsvStatement({
+        text: csv,
+        bank: 'HDFC Savings',
+        mapping: { date: 'Date', narration: 'Narration', debit: 'Withdrawal Amt.', credit: 'Deposit Amt.', dateFormat: 'DMY' },
+        organization: { ...testOrg1, extractor: 'csv-categorizer-test' },
+        userId: testUser1.id,
+      })
+
+      expect(result).toMatchObject({ total: 3, createdCount: 2, failedCount: 1, aiCategorizedCount: 1 })
+      expect(categorizerCalls).toBe(1)
+
+      const [swiggy, electricity] = result.items
+      expect(swiggy).toMatchObject({ amount: 420, direction: 'debit', category: 'Food & Dining', upiRef: '534512345678' })
+      expect(swiggy.date?.toISOString().slice(0, 10)).toBe('2025-12-11')
+      expect(electricity).toMatchObject({ amount: 1240, category: 'Utilities' })
+
+      const transaction = await getTransactionById(electricity.id, testOrg1.id)
+      expect(transaction?.provenance).toMatchObject({
+        extractor: 'csv',
+        reasoning: 'Imported from HDFC Savings CSV; category from csv-categorizer-test',
+      })
+    })
+
+    it('should save the mapping per bank', async () => {
+      const mapping = { date: 'Txn Date', narration: 'Description', amount: 'Amount', dateFormat: 'MDY' as const }
+
+      await saveCsvMapping({ organizationId: testOrg1.id, bank: 'Amex', mapping })
+
+      expect(await getCsvMapping(testOrg1.id, 'Amex')).toEqual(mapping)
+      expect(await getCsvMapping(testOrg2.id, 'Amex')).toBeNull()
+    })
+
+    it('should only save mappings sent with an import by admins', async () => {
+      const mappingOrg = await createOrganization({
+        name: 'CSV Mapping Test Org',
+        slug: `test-org-csv-mapping-${Date.now()}`,
+        creatorUserId: testUser1.id,
+      })
+      await addUserToOrganization({ userId: testUser2.id, organizationId: mappingOrg.id, role: 'member' })
+      const saved = { date: 'Date', narration: 'Narration', debit: 'Withdrawal Amt.', credit: 'Deposit Amt.' }
+      const sent = { date: 'Txn Date', narration: 'Description', amount: 'Amount' }
+
+      try {
+        expect(await rememberCsvMapping({ organizationId: mappingOrg.id, userId: testUser1.id, bank: 'HDFC', mapping: saved })).toBe(true)
+        expect(await rememberCsvMapping({ organizationId: mappingOrg.id, userId: testUser2.id, bank: 'HDFC', mapping: sent })).toBe(false)
+
+        expect(await getCsvMapping(mappingOrg.id, 'HDFC')).toEqual(saved)
+      } finally {
+        await prisma.organization.delete({ where: { id: mappingOrg.id } })
+      }
+    })
+  })
+
+  describe('OFX Import', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<CURDEF>USD',
+      '<BANKACCTFROM><ACCTID>0012345678</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>POS<DTPOSTED>20251211<TRNAMT>-15.49<FITID>OFX-1<NAME>NETFLIX.COM</STMTTRN>',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20251215<TRNAMT>2500.00<FITID>OFX-2<NAME>ACME PAYROLL</STMTTRN>',
+      '</BANKTRANLIST>',
+      '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n')
+
+    it('should import transactions from the file without an extractor', async () => {
+      const statement = parseOfx(ofx, testOrg1.baseCurrency)
+      if ('error' in statement) throw new Error(statement.error)
+
+      const result = await importOfxStatement({ statement, organization: testOrg1, userId: testUser1.id })
+
+      expect(result).toMatchObject({ total: 2, createdCount: 2, skippedCount: 0, failedCount: 0 })
+
+      const [netflix, salary] = result.items
+      expect(netflix).toMatchObject({
+        fitId: 'OFX-1',
+        amount: 15.49,
+        direction: 'debit',
+        currency: 'USD',
+        category: 'Entertainment',
+        maskedAccount: 'XX5678',
+      })
+      expect(netflix.date?.toISOString().slice(0, 10)).toBe('2025-12-11')
+      expect(salary).toMatchObject({ amount: 2500, direction: 'credit' })
+
+      const transaction = await getTransactionById(netflix.id, testOrg1.id)
+      expect(transaction?.provenance).toMatchObject({ extractor: 'ofx', modelId: null })
+    })
+
+    it('should skip transactions imported before', async () => {
+      const statement = parseOfx(ofx, testOrg1.baseCurrency)
+      if ('error' in statement) throw new Error(statement.error)
+
+      const result = await importOfxStatement({ statement, organization: testOrg1, userId: testUser1.id })
+
+      expect(result).toMatchObject({ total: 2, createdCount: 0, skippedCount: 2 })
+      expect(result.skipped.map((skipped) => skipped.fitId)).toEqual(['OFX-1', 'OFX-2'])
+
+      // The same FITIDs are new to another organization
+      const other = await importOfxStatement({ statement, organization: testOrg2, userId: testUser2.id })
+      expect(other.createdCount).toBe(2)
+    })
+
+    it('should skip transactions saved by a concurrent import of the same file', async () => {
+      const statement = parseOfx(ofx.replace(/OFX-(\d)/g, 'OFX-CONCURRENT-$1'), testOrg1.baseCurrency)
+      if ('error' in statement) throw new Error(statement.error)
+
+      const results = await Promise.all([
+        importOfxStatement({ statement, organization: testOrg1, userId: testUser1.id }),
+        importOfxStatement({ statement, organization: testOrg1, userId: testUser1.id }),
+      ])
+
+      for (const result of results) {
+        expect(result.createdCount + result.skippedCount).toBe(2)
+      }
+      expect(results[0].createdCount + results[1].createdCount).toBe(2)
+    })
+  })
+
+  describe('Extraction Jobs', () => {
+    it('should extract and save a queued transaction', async () => {
+      const job = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text: 'Job test merchant ₹275.00 on 11 Dec 2025',
+      })
+      expect(job.status).toBe('pending')
+
+      await processExtractionJobs()
+
+      const completed = await getExtractionJob(job.id, testOrg1.id)
+      expect(completed?.status).toBe('completed')
+      expect(completed?.attempts).toBe(1)
+
+      const result = completed?.result as any
+      const transaction = await getTransactionById(result.id, testOrg1.id)
+      expect(transaction?.amount).toBe(275)
+      expect(await getExtractionJob(job.id, testOrg2.id)).toBeNull()
+    })
+
+    it('should clear the text of finished jobs and delete them once expired', async () => {
+      const job = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text: 'Job expiry merchant ₹99.00',
+      })
+
+      await processExtractionJobs()
+
+      const finished = await prisma.extractionJob.findUnique({ where: { id: job.id } })
+      expect(finished?.status).toBe('completed')
+      expect(finished?.text).toBe('')
+
+      await deleteExpiredExtractionJobs(new Date(Date.now() + 29 * 24 * 60 * 60 * 1000))
+      expect(await getExtractionJob(job.id, testOrg1.id)).not.toBeNull()
+
+      await deleteExpiredExtractionJobs(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))
+      expect(await getExtractionJob(job.id, testOrg1.id)).toBeNull()
+    })
+
+    it('should extract every row of a queued statement', async () => {
+      const job = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'statement',
+        text: ['01/12/2025 UPI/SWIGGY/123456 ₹420.00', '02/12/2025 UBER INDIA ₹350.00', '03/12/2025 NOTHING'].join('\n'),
+      })
+
+      await processExtractionJobs()
+
+      const completed = await getExtractionJob(job.id, testOrg1.id)
+      const result = completed?.result as any
+      expect(completed?.status).toBe('completed')
+      expect(result.createdCount).toBe(2)
+      expect(result.failures).toEqual([{ row: 2, text: '03/12/2025 NOTHING', error: 'No amount found in row' }])
+    })
+
+    it('should leave ambiguous dates for review unless the statement period settles them', async () => {
+      const text = 'Date test merchant ₹99.00 on 03/04/2025'
+      const ambiguousJob = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text,
+      })
+      const hintedJob = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text,
+        dateHints: { statementPeriod: { from: new Date('2025-04-01'), to: new Date('2025-04-30') } },
+      })
+
+      await processExtractionJobs()
+
+      const ambiguous = (await getExtractionJob(ambiguousJob.id, testOrg1.id))?.result as any
+      expect(ambiguous.date).toBeNull()
+      expect(ambiguous.dateAmbiguous).toBe(true)
+      expect(ambiguous.status).toBe('needs_review')
+
+      // 4 March is outside the period, so 03/04 is 3 April
+      const hinted = (await getExtractionJob(hintedJob.id, testOrg1.id))?.result as any
+      expect(hinted.date).toBe('2025-04-03T00:00:00.000Z')
+      expect(hinted.dateAmbiguous).toBe(false)
+    })
+
+    it('should retry failed attempts and give up after the last one', async () => {
+      const job = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text: 'Job retry merchant ₹99.00',
+      })
+      // An organization that does not exist makes every attempt fail
+      const failing = {
+        ...job,
+        userId: testUser1.id,
+        text: 'Job retry merchant ₹99.00',
+        organizationId: 'missing',
+        lockedAt: null,
+      }
+
+      await runExtractionJob({ ...failing, attempts: 1 })
+      const retrying = await getExtractionJob(job.id, testOrg1.id)
+      expect(retrying?.status).toBe('pending')
+      expect(retrying?.error).toBe('Organization not found')
+      expect(retrying?.runAt.getTime()).toBeGreaterThan(Date.now())
+
+      await runExtractionJob({ ...failing, attempts: job.maxAttempts })
+      const failed = await getExtractionJob(job.id, testOrg1.id)
+      expect(failed?.status).toBe('failed')
+      expect(failed?.completedAt).not.toBeNull()
+    })
+
+    it('should fail stuck jobs that have no attempts left instead of running them again', async () => {
+      const job = await enqueueExtractionJob({
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+        kind: 'transaction',
+        text: 'Job stuck merchant ₹99.00',
+      })
+      await prisma.extractionJob.update({
+        where: { id: job.id },
+        data: { status: 'processing', attempts: job.maxAttempts, lockedAt: new Date(Date.now() - 60 * 60 * 1000) },
+      })
+
+      const claimed = await claimExtractionJob()
+      expect(claimed?.id).not.toBe(job.id)
+
+      const stuck = await getExtractionJob(job.id, testOrg1.id)
+      expect(stuck?.status).toBe('failed')
+      expect(stuck?.attempts).toBe(job.maxAttempts)
+    })
+
+    it('should not save a transaction twice when its job is retried', async () => {
+      const text = 'Job saved once merchant ₹99.00'
+      const job = await enqueueExtractionJob({ organizationId: testOrg1.id, userId: testUser1.id, kind: 'transaction', text })
+      const attempt = { ...job, userId: testUser1.id, text, dateHints: null, lockedAt: null }
+
+      // The first attempt saved the transaction but the job was not marked completed
+      await runExtractionJob({ ...attempt, attempts: 1 })
+      await runExtractionJob({ ...attempt, attempts: 2 })
+
+      const saved = await prisma.transaction.findMany({ where: { organizationId: testOrg1.id, text } })
+      expect(saved).toHaveLength(1)
+      expect(((await getExtractionJob(job.id, testOrg1.id))?.result as any).id).toBe(saved[0].id)
+    })
+
+    it('should save each statement row once when its job is retried', async () => {
+      const text = ['01/12/2025 Job row once A ₹120.00', '02/12/2025 Job row once B ₹80.00'].join('\n')
+      const job = await enqueueExtractionJob({ organizationId: testOrg1.id, userId: testUser1.id, kind: 'statement', text })
+      const attempt = { ...job, userId: testUser1.id, text, dateHints: null, lockedAt: null }
+
+      await runExtractionJob({ ...attempt, attempts: 1 })
+      await runExtractionJob({ ...attempt, attempts: 2 })
+
+      const saved = await prisma.transaction.findMany({ where: { organizationId: testOrg1.id, externalId: { startsWith: `job:${job.id}:` } } })
+      expect(saved.map((transaction) => transaction.externalId).sort()).toEqual([`job:${job.id}:0`, `job:${job.id}:1`])
+
+      const result = (await getExtractionJob(job.id, testOrg1.id))?.result as any
+      expect(result.items.map((item: any) => item.row)).toEqual([0, 1])
+      expect(result.createdCount).toBe(2)
+    })
+
+    it('should not record the outcome of a run whose job was taken over', async () => {
+      const text = 'Job taken over merchant ₹99.00'
+      const job = await enqueueExtractionJob({ organizationId: testOrg1.id, userId: testUser1.id, kind: 'transaction', text })
+      const staleLock = new Date(Date.now() - 60 * 60 * 1000)
+      // Another worker claimed the job again after this run's lock went stale
+      await prisma.extractionJob.update({
+        where: { id: job.id },
+        data: { status: 'processing', attempts: 2, lockedAt: new Date() },
+      })
+
+      await runExtractionJob({ ...job, userId: testUser1.id, text, dateHints: null, attempts: 1, lockedAt: staleLock })
+
+      const running = await getExtractionJob(job.id, testOrg1.id)
+      expect(running?.status).toBe('processing')
+      expect(running?.result).toBeNull()
+    })
+
+    it('should not extract a line again once it is saved under its key', async () => {
+      let calls = 0
+      // Zero-confidence results are not cached, so only the key can stop a second call
+      registerExtractor({
+        name: 'keyed-test',
+        isConfigured: () => true,
+        extract: async (sent, context) => {
+          calls++
+          return { ...parseTransactionTextWithRegex(sent, context), confidence: 0 }
+        },
+      })
+      const params = {
+        text: 'Keyed merchant ₹99.00',
+        organization: { ...testOrg1, extractor: 'keyed-test' },
+        userId: testUser1.id,
+        externalId: 'job:keyed-test',
+      }
+
+      const first = await extractTransaction(params)
+      const again = await extractTransaction(params)
+
+      expect(calls).toBe(1)
+      expect(again.id).toBe(first.id)
+    })
+  })
+
   describe('Confidence Scores', () => {
     it('should store confidence score with transaction', async () => {
       const transaction = await createTransaction({
@@ -479,6 +1622,26 @@ describe('Transaction API', () => {
       expect(transaction.confidence).toBe(0.98)
     })
 
+    it('should store per-field confidence scores', async () => {
+      const parsed = await parseTransactionText('Unlabelled 750.00', { extractor: 'regex' })
+      const transaction = await createTransaction({
+        text: 'Unlabelled 750.00',
+        amount: parsed.amount,
+        date: parsed.date,
+        description: parsed.description,
+        category: parsed.category,
+        confidence: parsed.confidence,
+        fieldConfidence: parsed.fieldConfidence,
+        organizationId: testOrg1.id,
+        userId: testUser1.id,
+      })
+
+      expect(transaction.amountConfidence).toBe(1)
+      expect(transaction.dateConfidence).toBe(0)
+      expect(transaction.categoryConfidence).toBe(0)
+      expect(transaction.confidence).toBe(parsed.confidence)
+    })
+
     it('should allow low confidence transactions', async () => {
       const transaction = await createTransaction({
         text: 'Unclear text',
@@ -16,6 +16,29 @@ import {
   deleteOrganization,
   hasOrganizationRole,
 } from '../lib/organization.js'
+import { isExtractorName } from '../lib/extractor.js'
+import { isCurrencyCode, parseFxRateCsv, validateFxRates } from '../lib/currency.js'
+import { parseRedactionRules } from '../lib/redaction.js'
+import { parseUsageRange } from '../lib/token-usage.js'
+import { getAiQuotaStatus, getUsageReport } from '../lib/usage.js'
+import { getPromptTemplates, isPromptVersion, MAX_PROMPT_INSTRUCTIONS_LENGTH, resolvePromptVersion } from '../lib/prompt.js'
+import { getPromptVersionStats } from '../lib/transaction.js'
+import { deleteCsvMapping, getCsvMappings, saveCsvMapping } from '../lib/csv-mappings.js'
+import { parseCsvMapping } from '../lib/csv-import.js'
+import { DATE_FORMATS, isDateFormat } from '../lib/dates.js'
+import { getFxRates, upsertFxRates } from '../lib/fx.js'
+import { getMerchants, getMerchantById, mergeMerchants, splitMerchant } from '../lib/merchant.js'
+import { formatMerchantName } from '../lib/merchant-mapping.js'
+import {
+  getCategories,
+  getCategoryById,
+  getCategoryRecords,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  hasSubcategories,
+} from '../lib/category.js'
+import { parseCategoryInput } from '../lib/category-taxonomy.js'
 
 type Variables = {
   user: Session['user']
@@ -169,7 +192,83 @@ organizationRouter.put('/:id', requireAuth, async (c) => {
       return c.json({ error: 'Insufficient permissions' }, 403)
     }
 
-    const { name, slug, description, logo } = await c.req.json()
+    const {
+      name,
+      slug,
+      description,
+      logo,
+      extractor,
+      baseCurrency,
+      reviewThreshold,
+      dateFormat,
+      redactionRules,
+      redactStoredText,
+      keepRedactionMap,
+      monthlyTokenQuota,
+      promptVersion,
+      promptInstructions,
+    } = await c.req.json()
+
+    // null clears the override; anything else must be a registered provider
+    if (extractor !== undefined && extractor !== null && !isExtractorName(extractor)) {
+      return c.json({ error: 'Unknown extractor' }, 400)
+    }
+
+    if (baseCurrency !== undefined && !isCurrencyCode(baseCurrency)) {
+      return c.json({ error: 'baseCurrency must be a 3-letter ISO code' }, 400)
+    }
+
+    if (
+      reviewThreshold !== undefined &&
+      (typeof reviewThreshold !== 'number' || reviewThreshold < 0 || reviewThreshold > 1)
+    ) {
+      return c.json({ error: 'reviewThreshold must be a number between 0 and 1' }, 400)
+    }
+
+    // null means the order is unknown, so ambiguous dates go to review
+    if (dateFormat !== undefined && dateFormat !== null && !isDateFormat(dateFormat)) {
+      return c.json({ error: `dateFormat must be one of ${DATE_FORMATS.join(', ')}` }, 400)
+    }
+
+    // An empty list turns redaction off
+    let rules: string[] | undefined
+    if (redactionRules !== undefined) {
+      const parsed = parseRedactionRules(redactionRules)
+      if ('error' in parsed) {
+        return c.json({ error: parsed.error }, 400)
+      }
+      rules = parsed.value
+    }
+
+    if (redactStoredText !== undefined && typeof redactStoredText !== 'boolean') {
+      return c.json({ error: 'redactStoredText must be a boolean' }, 400)
+    }
+
+    if (keepRedactionMap !== undefined && typeof keepRedactionMap !== 'boolean') {
+      return c.json({ error: 'keepRedactionMap must be a boolean' }, 400)
+    }
+
+    // null removes the quota; 0 stops AI extraction
+    if (
+      monthlyTokenQuota !== undefined &&
+      monthlyTokenQuota !== null &&
+      (!Number.isInteger(monthlyTokenQuota) || monthlyTokenQuota < 0)
+    ) {
+      return c.json({ error: 'monthlyTokenQuota must be a non-negative integer or null' }, 400)
+    }
+
+    // null goes back to the deployment's prompt version
+    if (promptVersion !== undefined && promptVersion !== null && !isPromptVersion(promptVersion)) {
+      return c.json({ error: 'Unknown prompt version' }, 400)
+    }
+
+    if (
+      promptInstructions !== undefined &&
+      promptInstructions !== null &&
+      (typeof promptInstructions !== 'string' || promptInstructions.length > MAX_PROMPT_INSTRUCTIONS_LENGTH)
+    ) {
+      return c.json({ error: `promptInstructions must be a string of at most ${MAX_PROMPT_INSTRUCTIONS_LENGTH} characters` }, 400)
+    }
 
     const organization = await updateOrganization({
       organizationId: id,
@@ -177,6 +276,17 @@ organizationRouter.put('/:id', requireAuth, async (c) => {
       slug,
       description,
       logo,
+      extractor,
+      baseCurrency,
+      reviewThreshold,
+      dateFormat,
+      redactionRules: rules,
+      redactStoredText,
+      keepRedactionMap,
+      monthlyTokenQuota,
+      promptVersion,
+      // Blank instructions are cleared
+      promptInstructions: typeof promptInstructions === 'string' ? promptInstructions.trim() || null : promptInstructions,
     })
 
     return c.json(organization)
@@ -318,4 +428,441 @@ organizationRouter.delete('/:id/members/:userId', requireAuth, async (c) => {
   }
 })
 
+// Get FX rates (any member)
+organizationRouter.get('/:id/fx-rates', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const rates = await getFxRates(id)
+    return c.json(rates)
+  } catch (error) {
+    console.error('Error fetching FX rates:', error)
+    return c.json({ error: 'Failed to fetch FX rates' }, 500)
+  }
+})
+
+// Upload FX rates (admin/owner only)
+// Body: { rates: [{ currency, rate, effectiveDate }] } or { csv: "currency,rate,effectiveDate\n..." }
+organizationRouter.post('/:id/fx-rates', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const organization = await getOrganizationById(id)
+    if (!organization) {
+      return c.json({ error: 'Organization not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const rates = typeof body.csv === 'string' ? parseFxRateCsv(body.csv) : body.rates
+
+    const validationError = validateFxRates(rates, organization.baseCurrency)
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+
+    const saved = await upsertFxRates({
+      organizationId: id,
+      baseCurrency: organization.baseCurrency,
+      rates,
+    })
+
+    return c.json({ count: saved.length, rates: saved }, 201)
+  } catch (error) {
+    console.error('Error uploading FX rates:', error)
+    return c.json({ error: 'Failed to upload FX rates' }, 500)
+  }
+})
+
+// Get AI token usage and estimated cost by day, month and model, with the monthly quota
+// Query: from, to (YYYY-MM-DD, inclusive); defaults to the last 12 months
+organizationRouter.get('/:id/usage', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const organization = await getOrganizationById(id)
+    if (!organization) {
+      return c.json({ error: 'Organization not found' }, 404)
+    }
+
+    const range = parseUsageRange({ from: c.req.query('from'), to: c.req.query('to') })
+    if ('error' in range) {
+      return c.json({ error: range.error }, 400)
+    }
+
+    const report = await getUsageReport(id, range.value)
+    const quota = await getAiQuotaStatus(id, organization.monthlyTokenQuota)
+    return c.json({ ...report, quota })
+  } catch (error) {
+    console.error('Error fetching AI usage:', error)
+    return c.json({ error: 'Failed to fetch AI usage' }, 500)
+  }
+})
+
+// Compare prompt versions: registered templates, the one in use and stats per version
+organizationRouter.get('/:id/prompt-versions', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const organization = await getOrganizationById(id)
+    if (!organization) {
+      return c.json({ error: 'Organization not found' }, 404)
+    }
+
+    return c.json({
+      active: resolvePromptVersion(organization.promptVersion),
+      templates: getPromptTemplates().map(({ version, description }) => ({ version, description })),
+      stats: await getPromptVersionStats(id),
+    })
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error)
+    return c.json({ error: 'Failed to fetch prompt versions' }, 500)
+  }
+})
+
+// Get merchants with their aliases and transaction counts
+organizationRouter.get('/:id/merchants', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const merchants = await getMerchants(id)
+    return c.json(merchants)
+  } catch (error) {
+    console.error('Error fetching merchants:', error)
+    return c.json({ error: 'Failed to fetch merchants' }, 500)
+  }
+})
+
+// Merge other merchants into this one (admin/owner only)
+// Body: { merchantIds: ["uuid", ...] }
+organizationRouter.post('/:id/merchants/:merchantId/merge', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const merchantId = c.req.param('merchantId')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const { merchantIds } = await c.req.json()
+
+    if (
+      !Array.isArray(merchantIds) ||
+      merchantIds.length === 0 ||
+      !merchantIds.every((sourceId) => typeof sourceId === 'string')
+    ) {
+      return c.json({ error: 'merchantIds must be a non-empty array of merchant IDs' }, 400)
+    }
+
+    if (merchantIds.includes(merchantId)) {
+      return c.json({ error: 'A merchant cannot be merged into itself' }, 400)
+    }
+
+    const merchants = await Promise.all(
+      [merchantId, ...merchantIds].map((mergeId) => getMerchantById(mergeId, id))
+    )
+    if (merchants.some((merchant) => !merchant)) {
+      return c.json({ error: 'Merchant not found' }, 404)
+    }
+
+    const merged = await mergeMerchants({
+      organizationId: id,
+      targetId: merchantId,
+      sourceIds: merchantIds,
+    })
+
+    return c.json(merged)
+  } catch (error) {
+    console.error('Error merging merchants:', error)
+    return c.json({ error: 'Failed to merge merchants' }, 500)
+  }
+})
+
+// Split aliases off this merchant into a new merchant (admin/owner only)
+// Body: { aliases: ["swiggy instamart"], name?: "Swiggy Instamart" }
+organizationRouter.post('/:id/merchants/:merchantId/split', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const merchantId = c.req.param('merchantId')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const { aliases, name } = await c.req.json()
+
+    if (
+      !Array.isArray(aliases) ||
+      aliases.length === 0 ||
+      !aliases.every((alias) => typeof alias === 'string')
+    ) {
+      return c.json({ error: 'aliases must be a non-empty array of alias names' }, 400)
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return c.json({ error: 'name must be a non-empty string' }, 400)
+    }
+
+    const merchant = await getMerchantById(merchantId, id)
+    if (!merchant) {
+      return c.json({ error: 'Merchant not found' }, 404)
+    }
+
+    const current = merchant.aliases.map((entry) => entry.alias)
+    const unknown = aliases.find((alias) => !current.includes(alias))
+    if (unknown) {
+      return c.json({ error: `Alias "${unknown}" does not belong to this merchant` }, 400)
+    }
+
+    if (current.every((alias) => aliases.includes(alias))) {
+      return c.json({ error: 'At least one alias must stay with the merchant' }, 400)
+    }
+
+    const split = await splitMerchant({
+      organizationId: id,
+      merchantId,
+      aliases,
+      name: name?.trim() || formatMerchantName(aliases[0]),
+    })
+
+    return c.json(split, 201)
+  } catch (error) {
+    console.error('Error splitting merchant:', error)
+    return c.json({ error: 'Failed to split merchant' }, 500)
+  }
+})
+
+// Get the category taxonomy
+organizationRouter.get('/:id/categories', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const categories = await getCategoryRecords(id)
+    return c.json(categories)
+  } catch (error) {
+    console.error('Error fetching categories:', error)
+    return c.json({ error: 'Failed to fetch categories' }, 500)
+  }
+})
+
+// Add a category
+organizationRouter.post('/:id/categories', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const body = await c.req.json()
+    const parsed = parseCategoryInput(body, await getCategories(id))
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const category = await createCategory(id, parsed.category)
+    return c.json(category, 201)
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return c.json({ error: 'A category with this name already exists' }, 409)
+    }
+    console.error('Error creating category:', error)
+    return c.json({ error: 'Failed to create category' }, 500)
+  }
+})
+
+// Update a category (renames carry over to existing transactions)
+organizationRouter.put('/:id/categories/:categoryId', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const categoryId = c.req.param('categoryId')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const existing = await getCategoryById(categoryId, id)
+    if (!existing) {
+      return c.json({ error: 'Category not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const parsed = parseCategoryInput(body, await getCategories(id), {
+      partial: true,
+      current: existing.name,
+    })
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const category = await updateCategory({
+      organizationId: id,
+      id: categoryId,
+      currentName: existing.name,
+      input: parsed.category,
+    })
+    return c.json(category)
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return c.json({ error: 'A category with this name already exists' }, 409)
+    }
+    console.error('Error updating category:', error)
+    return c.json({ error: 'Failed to update category' }, 500)
+  }
+})
+
+// Delete a category
+organizationRouter.delete('/:id/categories/:categoryId', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const categoryId = c.req.param('categoryId')
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const category = await getCategoryById(categoryId, id)
+    if (!category) {
+      return c.json({ error: 'Category not found' }, 404)
+    }
+
+    if (await hasSubcategories(categoryId)) {
+      return c.json({ error: 'Delete or move its subcategories first' }, 409)
+    }
+
+    await deleteCategory({ organizationId: id, id: categoryId, name: category.name })
+    return c.json({ message: 'Category deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting category:', error)
+    return c.json({ error: 'Failed to delete category' }, 500)
+  }
+})
+
+// Get the CSV column mappings saved per bank
+organizationRouter.get('/:id/csv-mappings', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    // Check if user has access to organization
+    const hasAccess = await hasOrganizationRole(user.id, id, 'member')
+    if (!hasAccess) {
+      return c.json({ error: 'Access denied' }, 403)
+    }
+
+    const mappings = await getCsvMappings(id)
+    return c.json(mappings)
+  } catch (error) {
+    console.error('Error fetching CSV mappings:', error)
+    return c.json({ error: 'Failed to fetch CSV mappings' }, 500)
+  }
+})
+
+// Save a bank's CSV column mapping (admin/owner only)
+// Body: { date, narration, debit?, credit?, amount?, balance?, reference?, dateFormat? }
+organizationRouter.put('/:id/csv-mappings/:bank', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const bank = c.req.param('bank').trim()
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const parsed = parseCsvMapping(await c.req.json())
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const saved = await saveCsvMapping({ organizationId: id, bank, mapping: parsed.value })
+    return c.json(saved)
+  } catch (error) {
+    console.error('Error saving CSV mapping:', error)
+    return c.json({ error: 'Failed to save CSV mapping' }, 500)
+  }
+})
+
+// Delete a bank's CSV column mapping (admin/owner only)
+organizationRouter.delete('/:id/csv-mappings/:bank', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const bank = c.req.param('bank').trim()
+
+    // Check if requester has admin or owner role
+    const hasPermission = await hasOrganizationRole(user.id, id, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    if (!(await deleteCsvMapping(id, bank))) {
+      return c.json({ error: 'CSV mapping not found' }, 404)
+    }
+
+    return c.json({ message: 'CSV mapping deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting CSV mapping:', error)
+    return c.json({ error: 'Failed to delete CSV mapping' }, 500)
+  }
+})
+
 export default organizationRouter
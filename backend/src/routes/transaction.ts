@@ -3,13 +3,32 @@ import type { Context, Next } from 'hono'
 import { auth } from '../lib/auth.js'
 import type { Session } from '../lib/auth.js'
 import { rateLimit, rateLimitPresets } from '../middleware/rateLimit.js'
+import { streamSSE } from 'hono/streaming'
 import {
-  parseTransactionText,
-  createTransaction,
   getTransactions,
   getTransactionById,
+  getTransactionForReextraction,
+  getUnredactedTransaction,
 } from '../lib/transaction.js'
-import { getUserOrganizations } from '../lib/organization.js'
+import { getUserOrganizations, hasOrganizationRole } from '../lib/organization.js'
+import { splitStatementText, MAX_STATEMENT_ROWS } from '../lib/statement.js'
+import type { TransactionStatus } from '../lib/confidence.js'
+import { approveTransaction, correctTransaction, parseTransactionCorrection } from '../lib/review.js'
+import { getCategories } from '../lib/category.js'
+import { getCategoryNames } from '../lib/category-taxonomy.js'
+import { enqueueExtractionJob, getExtractionJob, processExtractionJobs } from '../lib/extraction-jobs.js'
+import { isJobFinished } from '../lib/jobs.js'
+import { parseDateHints } from '../lib/dates.js'
+import { getAiQuotaStatus } from '../lib/usage.js'
+import { importOfxStatement, reextractTransaction, reextractTransactions } from '../lib/extraction.js'
+import { parseAcceptedFields } from '../lib/transaction-diff.js'
+import type { ReextractField } from '../lib/transaction-diff.js'
+import { guessCsvMapping, MAX_CSV_BYTES, MAX_CSV_ROWS, parseCsv, parseCsvMapping, readCsvStatement } from '../lib/csv-import.js'
+import type { CsvColumnMapping } from '../lib/csv-import.js'
+import { getCsvMapping, rememberCsvMapping } from '../lib/csv-mappings.js'
+import { isDateFormat } from '../lib/dates.js'
+import { MAX_OFX_BYTES, MAX_OFX_TRANSACTIONS, parseOfx } from '../lib/ofx.js'
+import { findStatementRows, MAX_PDF_BYTES, readPdfLines } from '../lib/pdf-statement.js'
 
 type Variables = {
   user: Session['user']
@@ -69,8 +88,10 @@ const requireAuth = async (c: Context<{ Variables: Variables }>, next: Next): Pr
 
 /**
  * POST /api/transactions/extract
- * Parse raw bank statement text and save transaction
- * Rate limited: 10 requests per minute (AI extraction is expensive)
+ * Queue raw bank statement text for extraction and return the job (202)
+ * The saved transaction is the job's result, see GET /api/transactions/jobs/:id
+ * Rate limited: 10 requests per minute (AI extraction is expensive), and 429 once
+ * the organization has used its monthly AI token quota
  */
 transactionRouter.post(
   '/extract',
@@ -98,6 +119,607 @@ transactionRouter.post(
       return c.json({ error: 'organizationId is required' }, 400)
     }
 
+    // Optional dateFormat override and statementPeriod for reading numeric dates
+    const dateHints = parseDateHints(body)
+    if ('error' in dateHints) {
+      return c.json({ error: dateHints.error }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+    
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const quota = await getAiQuotaStatus(organizationId, organization.monthlyTokenQuota)
+    if (quota.exceeded) {
+      return c.json({ error: 'Monthly AI token quota exceeded', quota }, 429)
+    }
+
+    const job = await enqueueExtractionJob({
+      organizationId,
+      userId: user.id,
+      kind: 'transaction',
+      text,
+      dateHints: dateHints.value,
+    })
+
+    // Start on it now rather than at the worker's next poll
+    void processExtractionJobs()
+
+    return c.json(job, 202)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error extracting transaction:', error)
+    return c.json({ 
+      error: 'Failed to extract transaction',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/extract/batch
+ * Queue a pasted statement for extraction and return the job (202)
+ * The job extracts each row and saves them together; rows that cannot be extracted
+ * are reported in the result's `failures` instead of failing the batch
+ * Rate limited: 3 requests per minute (each request runs one extraction per row), and 429
+ * once the organization has used its monthly AI token quota
+ */
+transactionRouter.post(
+  '/extract/batch',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.statementExtraction.windowMs,
+    maxRequests: rateLimitPresets.statementExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `ai-extract-batch:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const body = await c.req.json()
+    const { text, organizationId } = body
+
+    // Validate input
+    if (!text || typeof text !== 'string') {
+      return c.json({ error: 'Text is required and must be a string' }, 400)
+    }
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    // Optional dateFormat override and statementPeriod for reading numeric dates
+    const dateHints = parseDateHints(body)
+    if ('error' in dateHints) {
+      return c.json({ error: dateHints.error }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+    
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const rows = splitStatementText(text)
+
+    if (rows.length === 0) {
+      return c.json({ error: 'No transaction rows found in text' }, 400)
+    }
+
+    if (rows.length > MAX_STATEMENT_ROWS) {
+      return c.json({ error: `Statement has ${rows.length} rows, maximum is ${MAX_STATEMENT_ROWS}` }, 400)
+    }
+
+    // Checked again for every row, so rows past the quota are parsed with regex
+    const quota = await getAiQuotaStatus(organizationId, organization.monthlyTokenQuota)
+    if (quota.exceeded) {
+      return c.json({ error: 'Monthly AI token quota exceeded', quota }, 429)
+    }
+
+    const job = await enqueueExtractionJob({
+      organizationId,
+      userId: user.id,
+      kind: 'statement',
+      text,
+      dateHints: dateHints.value,
+    })
+
+    // Start on it now rather than at the worker's next poll
+    void processExtractionJobs()
+
+    return c.json(job, 202)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error extracting statement:', error)
+    return c.json({ 
+      error: 'Failed to extract statement',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * Check the file uploaded as the "file" field of a multipart form
+ */
+function getUploadedFile(file: unknown, maxBytes: number): { file: File } | { error: string } {
+  if (!(file instanceof File)) {
+    return { error: 'file is required' }
+  }
+  if (file.size > maxBytes) {
+    return { error: `File is larger than ${maxBytes / (1024 * 1024)} MB` }
+  }
+  return { file }
+}
+
+/**
+ * Read the text of a file uploaded as the "file" field of a multipart form
+ */
+async function readUploadedText(file: unknown, maxBytes: number): Promise<{ text: string } | { error: string }> {
+  const upload = getUploadedFile(file, maxBytes)
+  return 'error' in upload ? upload : { text: await upload.file.text() }
+}
+
+/**
+ * POST /api/transactions/import/csv/preview
+ * Multipart form: file, organizationId and optionally bank
+ * Returns the file's headers and first rows with a column mapping to start from:
+ * the one saved for the bank, else one guessed from the header names
+ */
+transactionRouter.post('/import/csv/preview', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const form = await c.req.parseBody()
+    const { organizationId, bank } = form
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    const upload = await readUploadedText(form.file, MAX_CSV_BYTES)
+    if ('error' in upload) {
+      return c.json({ error: upload.error }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const hasAccess = userOrgs.some(org => org.id === organizationId)
+
+    if (!hasAccess) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const rows = parseCsv(upload.text)
+    const guessed = guessCsvMapping(rows)
+    const saved = typeof bank === 'string' && bank.trim() ? await getCsvMapping(organizationId, bank.trim()) : null
+    const headerIndex = rows.findIndex((row) => row.line === guessed.headerLine)
+
+    return c.json({
+      headers: guessed.headers,
+      headerLine: guessed.headerLine,
+      sample: rows.slice(headerIndex + 1, headerIndex + 6).map((row) => row.cells),
+      mapping: saved || guessed.mapping,
+      saved: saved !== null,
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error previewing CSV:', error)
+    return c.json({
+      error: 'Failed to preview CSV',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/import/csv
+ * Queue a bank's CSV export for import and return the job (202)
+ * Multipart form: file, organizationId, bank, and mapping (JSON) unless one is saved
+ * for the bank. A mapping sent by an admin or owner is saved for the bank's next import.
+ * Rate limited: 3 requests per minute
+ */
+transactionRouter.post(
+  '/import/csv',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.statementExtraction.windowMs,
+    maxRequests: rateLimitPresets.statementExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `csv-import:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const form = await c.req.parseBody()
+    const { organizationId } = form
+    const bank = typeof form.bank === 'string' ? form.bank.trim() : ''
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    if (!bank) {
+      return c.json({ error: 'bank is required' }, 400)
+    }
+
+    const upload = await readUploadedText(form.file, MAX_CSV_BYTES)
+    if ('error' in upload) {
+      return c.json({ error: upload.error }, 400)
+    }
+
+    let sentMapping: CsvColumnMapping | null = null
+    if (form.mapping !== undefined) {
+      let value: unknown
+      try {
+        value = typeof form.mapping === 'string' ? JSON.parse(form.mapping) : null
+      } catch {
+        return c.json({ error: 'mapping must be JSON' }, 400)
+      }
+      const parsed = parseCsvMapping(value)
+      if ('error' in parsed) {
+        return c.json({ error: parsed.error }, 400)
+      }
+      sentMapping = parsed.value
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const mapping = sentMapping || await getCsvMapping(organizationId, bank)
+    if (!mapping) {
+      return c.json({ error: `No column mapping saved for ${bank}; send mapping` }, 400)
+    }
+
+    // Read the file now so a wrong mapping or oversized file is reported before queueing
+    const statement = readCsvStatement(
+      upload.text,
+      mapping,
+      isDateFormat(organization.dateFormat) ? organization.dateFormat : null
+    )
+    if ('error' in statement) {
+      return c.json({ error: statement.error }, 400)
+    }
+
+    if (statement.rows.length === 0) {
+      return c.json({ error: 'No transaction rows found in file' }, 400)
+    }
+
+    if (statement.rows.length > MAX_CSV_ROWS) {
+      return c.json({ error: `File has ${statement.rows.length} rows, maximum is ${MAX_CSV_ROWS}` }, 400)
+    }
+
+    if (sentMapping) {
+      await rememberCsvMapping({ organizationId, userId: user.id, bank, mapping: sentMapping })
+    }
+
+    const job = await enqueueExtractionJob({
+      organizationId,
+      userId: user.id,
+      kind: 'csv',
+      text: upload.text,
+      options: { bank, mapping },
+    })
+
+    // Start on it now rather than at the worker's next poll
+    void processExtractionJobs()
+
+    return c.json(job, 202)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error importing CSV:', error)
+    return c.json({
+      error: 'Failed to import CSV',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/import/ofx
+ * Import an OFX or QFX statement (SGML or XML) and return the saved transactions (201)
+ * Multipart form: file and organizationId
+ * Amounts, dates and currencies come from the file, so nothing is queued or sent to
+ * an AI provider. Transactions imported before (same account and FITID) are skipped.
+ * Rate limited: 3 requests per minute
+ */
+transactionRouter.post(
+  '/import/ofx',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.statementExtraction.windowMs,
+    maxRequests: rateLimitPresets.statementExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `ofx-import:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const form = await c.req.parseBody()
+    const { organizationId } = form
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    const upload = await readUploadedText(form.file, MAX_OFX_BYTES)
+    if ('error' in upload) {
+      return c.json({ error: upload.error }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const statement = parseOfx(upload.text, organization.baseCurrency)
+    if ('error' in statement) {
+      return c.json({ error: statement.error }, 400)
+    }
+
+    if (statement.transactions.length === 0) {
+      return c.json({ error: 'No transactions found in file' }, 400)
+    }
+
+    if (statement.transactions.length > MAX_OFX_TRANSACTIONS) {
+      return c.json({
+        error: `File has ${statement.transactions.length} transactions, maximum is ${MAX_OFX_TRANSACTIONS}`
+      }, 400)
+    }
+
+    const result = await importOfxStatement({ statement, organization, userId: user.id })
+
+    return c.json(result, 201)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error importing OFX:', error)
+    return c.json({
+      error: 'Failed to import OFX',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/import/pdf
+ * Queue the transaction rows of a PDF statement for extraction and return the job (202)
+ * Multipart form: file, organizationId, and optionally password (for protected
+ * statements; it is not stored), dateFormat and statementPeriod (JSON)
+ * Text is read from the PDF on the server and the table rows found in it are extracted
+ * like a pasted statement (see /extract/batch)
+ * Rate limited: 3 requests per minute, and 429 once the organization has used its
+ * monthly AI token quota
+ */
+transactionRouter.post(
+  '/import/pdf',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.statementExtraction.windowMs,
+    maxRequests: rateLimitPresets.statementExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `ai-extract-pdf:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const form = await c.req.parseBody()
+    const { organizationId } = form
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    const upload = getUploadedFile(form.file, MAX_PDF_BYTES)
+    if ('error' in upload) {
+      return c.json({ error: upload.error }, 400)
+    }
+
+    let statementPeriod: unknown
+    if (typeof form.statementPeriod === 'string' && form.statementPeriod) {
+      try {
+        statementPeriod = JSON.parse(form.statementPeriod)
+      } catch {
+        return c.json({ error: 'statementPeriod must be JSON' }, 400)
+      }
+    }
+
+    // Optional dateFormat override and statementPeriod for reading numeric dates
+    const dateFormat = typeof form.dateFormat === 'string' && form.dateFormat ? form.dateFormat : null
+    const dateHints = parseDateHints({ dateFormat, statementPeriod })
+    if ('error' in dateHints) {
+      return c.json({ error: dateHints.error }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const password = typeof form.password === 'string' && form.password ? form.password : undefined
+    const pdf = await readPdfLines(new Uint8Array(await upload.file.arrayBuffer()), password)
+    if ('error' in pdf) {
+      return c.json(pdf, 400)
+    }
+
+    const rows = findStatementRows(pdf.pages)
+
+    if (rows.length === 0) {
+      return c.json({ error: 'No transaction rows found in PDF (scanned statements have no text to read)' }, 400)
+    }
+
+    if (rows.length > MAX_STATEMENT_ROWS) {
+      return c.json({ error: `Statement has ${rows.length} rows, maximum is ${MAX_STATEMENT_ROWS}` }, 400)
+    }
+
+    // Checked again for every row, so rows past the quota are parsed with regex
+    const quota = await getAiQuotaStatus(organizationId, organization.monthlyTokenQuota)
+    if (quota.exceeded) {
+      return c.json({ error: 'Monthly AI token quota exceeded', quota }, 429)
+    }
+
+    // One row per line, so the job splits the text back into the same rows
+    const job = await enqueueExtractionJob({
+      organizationId,
+      userId: user.id,
+      kind: 'statement',
+      text: rows.join('\n'),
+      dateHints: dateHints.value,
+    })
+
+    // Start on it now rather than at the worker's next poll
+    void processExtractionJobs()
+
+    return c.json(job, 202)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error importing PDF:', error)
+    return c.json({
+      error: 'Failed to import PDF',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/reextract
+ * Re-run the organization's current extractor on a page of transactions below a
+ * confidence threshold (maxConfidence, default the organization's reviewThreshold)
+ * and return each one's field-by-field diff. With accept ("all" or a list of fields)
+ * the accepted changes are saved for transactions the new extraction is more confident about.
+ * Rate limited: 3 requests per minute (each request re-extracts up to `limit` transactions)
+ */
+transactionRouter.post(
+  '/reextract',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.statementExtraction.windowMs,
+    maxRequests: rateLimitPresets.statementExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `ai-reextract-batch:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const body = await c.req.json()
+    const { organizationId, maxConfidence, cursor } = body
+    const limit = body.limit ?? 20
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return c.json({ error: 'Limit must be between 1 and 100' }, 400)
+    }
+
+    if (maxConfidence !== undefined && (typeof maxConfidence !== 'number' || maxConfidence < 0 || maxConfidence > 1)) {
+      return c.json({ error: 'maxConfidence must be a number between 0 and 1' }, 400)
+    }
+
+    if (cursor !== undefined && typeof cursor !== 'string') {
+      return c.json({ error: 'cursor must be a string' }, 400)
+    }
+
+    let accept: ReextractField[] | undefined
+    if (body.accept !== undefined) {
+      const parsed = parseAcceptedFields(body.accept)
+      if ('error' in parsed) {
+        return c.json({ error: parsed.error }, 400)
+      }
+      accept = parsed.value
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const quota = await getAiQuotaStatus(organizationId, organization.monthlyTokenQuota)
+    if (quota.exceeded) {
+      return c.json({ error: 'Monthly AI token quota exceeded', quota }, 429)
+    }
+
+    const result = await reextractTransactions({
+      organization,
+      maxConfidence: maxConfidence ?? organization.reviewThreshold,
+      accept,
+      limit,
+      cursor,
+    })
+
+    return c.json(result)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error re-extracting transactions:', error)
+    return c.json({
+      error: 'Failed to re-extract transactions',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+const TRANSACTION_STATUSES: TransactionStatus[] = ['final', 'needs_review']
+
+/**
+ * GET /api/transactions
+ * Get transactions with cursor-based pagination, optionally filtered by status or merchantId
+ * reference finds transactions by UTR, UPI ID, cheque number, VPA or masked account digits
+ * Enforces access control - only returns transactions for user's organizations
+ */
+transactionRouter.get('/', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    
+    // Get query parameters
+    const organizationId = c.req.query('organizationId')
+    const limit = parseInt(c.req.query('limit') || '20', 10)
+    const cursor = c.req.query('cursor')
+    const status = c.req.query('status')
+    const merchantId = c.req.query('merchantId')
+    const reference = c.req.query('reference')
+
+    // Validate limit
+    if (limit < 1 || limit > 100) {
+      return c.json({ error: 'Limit must be between 1 and 100' }, 400)
+    }
+
+    if (status !== undefined && !TRANSACTION_STATUSES.includes(status as TransactionStatus)) {
+      return c.json({ error: 'status must be "final" or "needs_review"' }, 400)
+    }
+
+    // Require organizationId
+    if (!organizationId) {
+      return c.json({ error: 'organizationId query parameter is required' }, 400)
+    }
+
     // Verify user has access to the organization
     const userOrgs = await getUserOrganizations(user.id)
     const hasAccess = userOrgs.some(org => org.id === organizationId)
@@ -106,65 +728,47 @@ transactionRouter.post(
       return c.json({ error: 'You do not have access to this organization' }, 403)
     }
 
-    // Parse the transaction text (now async with Bedrock)
-    const parsed = await parseTransactionText(text)
-
-    // Save to database
-    const transaction = await createTransaction({
-      text,
-      amount: parsed.amount,
-      date: parsed.date,
-      description: parsed.description,
-      category: parsed.category,
-      confidence: parsed.confidence,
+    // Get transactions with pagination
+    const result = await getTransactions({
       organizationId,
-      userId: user.id,
+      limit,
+      cursor: cursor || undefined,
+      status: status as TransactionStatus | undefined,
+      merchantId: merchantId || undefined,
+      reference: reference || undefined,
     })
 
-    // Return the structured data with confidence
     return c.json({
-      id: transaction.id,
-      text: transaction.text,
-      amount: transaction.amount,
-      date: transaction.date,
-      description: transaction.description,
-      category: transaction.category,
-      confidence: transaction.confidence,
-      organizationId: transaction.organizationId,
-      userId: transaction.userId,
-      createdAt: transaction.createdAt,
-      updatedAt: transaction.updatedAt,
-    }, 201)
+      items: result.items,
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+      count: result.items.length,
+    })
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Error extracting transaction:', error)
+    console.error('Error fetching transactions:', error)
     return c.json({ 
-      error: 'Failed to extract transaction',
+      error: 'Failed to fetch transactions',
       details: errorMessage
     }, 500)
   }
 })
 
 /**
- * GET /api/transactions
- * Get transactions with cursor-based pagination
- * Enforces access control - only returns transactions for user's organizations
+ * GET /api/transactions/review
+ * List the organization's review queue (transactions below the confidence threshold)
  */
-transactionRouter.get('/', requireAuth, async (c) => {
+transactionRouter.get('/review', requireAuth, async (c) => {
   try {
     const user = c.get('user')
-    
-    // Get query parameters
     const organizationId = c.req.query('organizationId')
     const limit = parseInt(c.req.query('limit') || '20', 10)
     const cursor = c.req.query('cursor')
 
-    // Validate limit
     if (limit < 1 || limit > 100) {
       return c.json({ error: 'Limit must be between 1 and 100' }, 400)
     }
 
-    // Require organizationId
     if (!organizationId) {
       return c.json({ error: 'organizationId query parameter is required' }, 400)
     }
@@ -172,16 +776,16 @@ transactionRouter.get('/', requireAuth, async (c) => {
     // Verify user has access to the organization
     const userOrgs = await getUserOrganizations(user.id)
     const hasAccess = userOrgs.some(org => org.id === organizationId)
-    
+
     if (!hasAccess) {
       return c.json({ error: 'You do not have access to this organization' }, 403)
     }
 
-    // Get transactions with pagination
     const result = await getTransactions({
       organizationId,
       limit,
       cursor: cursor || undefined,
+      status: 'needs_review',
     })
 
     return c.json({
@@ -192,9 +796,326 @@ transactionRouter.get('/', requireAuth, async (c) => {
     })
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Error fetching transactions:', error)
+    console.error('Error fetching review queue:', error)
     return c.json({ 
-      error: 'Failed to fetch transactions',
+      error: 'Failed to fetch review queue',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/:id/approve
+ * Accept a transaction from the review queue as extracted
+ */
+transactionRouter.post('/:id/approve', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const { organizationId } = await c.req.json()
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const hasAccess = userOrgs.some(org => org.id === organizationId)
+
+    if (!hasAccess) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const transaction = await getTransactionById(id, organizationId)
+
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+
+    if (transaction.status !== 'needs_review') {
+      return c.json({ error: 'Transaction is not awaiting review' }, 409)
+    }
+
+    const approved = await approveTransaction(id, user.id)
+
+    return c.json(approved)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error approving transaction:', error)
+    return c.json({ 
+      error: 'Failed to approve transaction',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/:id/correct
+ * Fix extracted fields of a transaction in the review queue and mark it final
+ * Body: organizationId plus any of amount, date, description, category, direction, currency
+ */
+transactionRouter.post('/:id/correct', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const body = await c.req.json()
+    const { organizationId } = body
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const categories = await getCategories(organizationId)
+    const parsed = parseTransactionCorrection(body, getCategoryNames(categories))
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const transaction = await getTransactionById(id, organizationId)
+
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+
+    if (transaction.status !== 'needs_review') {
+      return c.json({ error: 'Transaction is not awaiting review' }, 409)
+    }
+
+    const corrected = await correctTransaction({
+      transaction,
+      corrections: parsed.corrections,
+      baseCurrency: organization.baseCurrency,
+      userId: user.id,
+    })
+
+    return c.json(corrected)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error correcting transaction:', error)
+    return c.json({ 
+      error: 'Failed to correct transaction',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * POST /api/transactions/:id/reextract
+ * Re-run the organization's current extractor on the transaction's stored text and
+ * return a field-by-field diff against the saved values
+ * Body: organizationId, plus accept ("all" or a list of fields) to save those changes
+ * Rate limited: 10 requests per minute, shared with POST /api/transactions/extract
+ */
+transactionRouter.post(
+  '/:id/reextract',
+  requireAuth,
+  rateLimit({
+    windowMs: rateLimitPresets.aiExtraction.windowMs,
+    maxRequests: rateLimitPresets.aiExtraction.maxRequests,
+    keyGenerator: (c) => {
+      const user = c.get('user')
+      return `ai-extract:${user?.id || 'anonymous'}`
+    },
+  }),
+  async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const body = await c.req.json()
+    const { organizationId } = body
+
+    if (!organizationId || typeof organizationId !== 'string') {
+      return c.json({ error: 'organizationId is required' }, 400)
+    }
+
+    let accept: ReextractField[] | undefined
+    if (body.accept !== undefined) {
+      const parsed = parseAcceptedFields(body.accept)
+      if ('error' in parsed) {
+        return c.json({ error: parsed.error }, 400)
+      }
+      accept = parsed.value
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const organization = userOrgs.find(org => org.id === organizationId)
+
+    if (!organization) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const transaction = await getTransactionForReextraction(id, organizationId)
+
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+
+    const quota = await getAiQuotaStatus(organizationId, organization.monthlyTokenQuota)
+    if (quota.exceeded) {
+      return c.json({ error: 'Monthly AI token quota exceeded', quota }, 429)
+    }
+
+    const result = await reextractTransaction({ transaction, organization, accept })
+
+    return c.json(result)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error re-extracting transaction:', error)
+    return c.json({
+      error: 'Failed to re-extract transaction',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * GET /api/transactions/jobs/:id
+ * Get an extraction job; once completed its result holds the extraction response
+ */
+transactionRouter.get('/jobs/:id', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const organizationId = c.req.query('organizationId')
+
+    if (!organizationId) {
+      return c.json({ error: 'organizationId query parameter is required' }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const hasAccess = userOrgs.some(org => org.id === organizationId)
+
+    if (!hasAccess) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const job = await getExtractionJob(id, organizationId)
+
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return c.json(job)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error fetching job:', error)
+    return c.json({
+      error: 'Failed to fetch job',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+// How often the event stream checks a job, and how long a stream stays open
+const JOB_EVENTS_POLL_MS = 1000
+const JOB_EVENTS_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * GET /api/transactions/jobs/:id/events
+ * Server-sent events for an extraction job: a "job" event with the job on every change
+ * The stream closes once the job is completed or failed (or after five minutes;
+ * reconnect or poll GET /api/transactions/jobs/:id to keep waiting)
+ */
+transactionRouter.get('/jobs/:id/events', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const organizationId = c.req.query('organizationId')
+
+    if (!organizationId) {
+      return c.json({ error: 'organizationId query parameter is required' }, 400)
+    }
+
+    // Verify user has access to the organization
+    const userOrgs = await getUserOrganizations(user.id)
+    const hasAccess = userOrgs.some(org => org.id === organizationId)
+
+    if (!hasAccess) {
+      return c.json({ error: 'You do not have access to this organization' }, 403)
+    }
+
+    const job = await getExtractionJob(id, organizationId)
+
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return streamSSE(c, async (stream) => {
+      const startedAt = Date.now()
+      let current = job
+      let lastSent: string | null = null
+
+      while (!stream.aborted && Date.now() - startedAt < JOB_EVENTS_TIMEOUT_MS) {
+        const data = JSON.stringify(current)
+        if (data !== lastSent) {
+          await stream.writeSSE({ event: 'job', data })
+          lastSent = data
+        }
+
+        if (isJobFinished(current.status)) {
+          break
+        }
+
+        await stream.sleep(JOB_EVENTS_POLL_MS)
+        const next = await getExtractionJob(id, organizationId)
+        if (!next) {
+          break
+        }
+        current = next
+      }
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error streaming job events:', error)
+    return c.json({
+      error: 'Failed to stream job events',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+/**
+ * GET /api/transactions/:id/unredacted
+ * Reveal the original text of a transaction stored redacted (admin/owner only)
+ * Only available when the organization keeps the redaction token map
+ */
+transactionRouter.get('/:id/unredacted', requireAuth, async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const organizationId = c.req.query('organizationId')
+
+    if (!organizationId) {
+      return c.json({ error: 'organizationId query parameter is required' }, 400)
+    }
+
+    const hasPermission = await hasOrganizationRole(user.id, organizationId, 'admin')
+    if (!hasPermission) {
+      return c.json({ error: 'Insufficient permissions' }, 403)
+    }
+
+    const transaction = await getUnredactedTransaction(id, organizationId)
+
+    if (!transaction) {
+      return c.json({ error: 'No redaction map kept for this transaction' }, 404)
+    }
+
+    return c.json(transaction)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error revealing transaction:', error)
+    return c.json({ 
+      error: 'Failed to reveal transaction',
       details: errorMessage
     }, 500)
   }
@@ -61,9 +61,13 @@ async function handleRequest(
     const queryString = searchParams.toString();
     const fullUrl = queryString ? `${backendUrl}?${queryString}` : backendUrl;
 
+    // File uploads (statement imports) are forwarded as multipart forms
+    const isMultipart = request.headers.get("content-type")?.includes("multipart/form-data") ?? false;
+
     // Prepare headers
     const headers: HeadersInit = {
-      "Content-Type": "application/json",
+      // fetch sets the multipart boundary itself
+      ...(!isMultipart && { "Content-Type": "application/json" }),
       // Pass user info to backend for authentication
       "X-User-Id": session.user.id,
       "X-User-Email": session.user.email || "",
@@ -77,7 +81,9 @@ async function handleRequest(
     };
 
     // Add body for POST, PUT, PATCH requests
-    if (["POST", "PUT", "PATCH"].includes(method)) {
+    if (isMultipart) {
+      requestOptions.body = await request.formData();
+    } else if (["POST", "PUT", "PATCH"].includes(method)) {
       try {
         const body = await request.json();
         requestOptions.body = JSON.stringify(body);
@@ -89,6 +95,17 @@ async function handleRequest(
     // Forward the request to the backend
     const response = await fetch(fullUrl, requestOptions);
 
+    // Stream server-sent events (extraction job progress) through as they arrive
+    if (response.headers.get("content-type")?.includes("text/event-stream")) {
+      return new Response(response.body, {
+        status: response.status,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
     // Get response data
     let data;
     const contentType = response.headers.get("content-type");
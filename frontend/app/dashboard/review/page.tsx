@@ -0,0 +1,105 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useState, Suspense } from 'react'
+import ReviewQueue from '@/components/review-queue'
+import { OrganizationSelector } from '@/components/organization-selector'
+import DashboardNavbar from '@/components/dashboard-navbar'
+
+interface Organization {
+  id: string
+  name: string
+  role: string
+}
+
+function ReviewContent() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const searchParams = useSearchParams()
+  // Start from the organization in the URL, if any
+  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(() => searchParams.get('org'))
+
+  const handleOrgChange = (org: Organization | null) => {
+    if (org) {
+      setSelectedOrgId(org.id)
+      // Update URL with selected org
+      const params = new URLSearchParams(searchParams.toString())
+      params.set('org', org.id)
+      router.push(`?${params.toString()}`)
+    } else {
+      setSelectedOrgId(null)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <svg className="animate-spin h-8 w-8 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardNavbar />
+
+      <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Page Header */}
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Approve or correct low-confidence extractions before they count as final
+            </p>
+          </div>
+
+          {/* Organization Selector */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Select Organization
+            </label>
+            <OrganizationSelector
+              onOrganizationChange={handleOrgChange}
+            />
+          </div>
+
+          {selectedOrgId ? (
+            <div className="bg-white shadow rounded-lg p-6">
+              <ReviewQueue organizationId={selectedOrgId} />
+            </div>
+          ) : (
+            <div className="bg-white shadow rounded-lg p-12 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No Organization Selected</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Please select an organization above to review its transactions.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default function ReviewPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <svg className="animate-spin h-8 w-8 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+      </div>
+    }>
+      <ReviewContent />
+    </Suspense>
+  )
+}
@@ -51,6 +51,19 @@ export default function DashboardNavbar() {
                 </svg>
                 <span>Transactions</span>
               </Link>
+              <Link
+                href="/dashboard/review"
+                className={`px-3 py-2 text-sm font-medium rounded-md transition-colors flex items-center space-x-1 ${
+                  pathname?.startsWith('/dashboard/review')
+                    ? 'bg-indigo-100 text-indigo-700'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>Review</span>
+              </Link>
             </div>
           </div>
           <div className="flex items-center space-x-4">
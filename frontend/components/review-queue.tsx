@@ -0,0 +1,230 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  getReviewQueue,
+  approveTransaction,
+  correctTransaction,
+  formatAmount,
+  getUncertainFields,
+} from '@/lib/transactions'
+import { getCategories, getCategoryLabel } from '@/lib/categories'
+import type { Transaction, TransactionCorrection, TransactionDirection } from '@/types/transaction'
+import type { Category } from '@/types/category'
+
+interface ReviewQueueProps {
+  organizationId: string
+}
+
+interface DraftFields {
+  amount: string
+  date: string
+  description: string
+  category: string
+  direction: TransactionDirection
+}
+
+const toDraft = (transaction: Transaction): DraftFields => ({
+  amount: transaction.amount !== null ? transaction.amount.toString() : '',
+  date: transaction.date ? transaction.date.slice(0, 10) : '',
+  description: transaction.description || '',
+  category: transaction.category || '',
+  direction: transaction.direction,
+})
+
+/**
+ * Only send fields the reviewer actually changed
+ */
+const toCorrection = (transaction: Transaction, draft: DraftFields): TransactionCorrection => {
+  const original = toDraft(transaction)
+  const correction: TransactionCorrection = {}
+
+  if (draft.amount !== original.amount) correction.amount = draft.amount ? parseFloat(draft.amount) : null
+  if (draft.date !== original.date) correction.date = draft.date || null
+  if (draft.description !== original.description) correction.description = draft.description || null
+  if (draft.category !== original.category) correction.category = draft.category || null
+  if (draft.direction !== original.direction) correction.direction = draft.direction
+
+  return correction
+}
+
+export default function ReviewQueue({ organizationId }: ReviewQueueProps) {
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [drafts, setDrafts] = useState<Record<string, DraftFields>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [response, organizationCategories] = await Promise.all([
+        getReviewQueue({ organizationId, limit: 50 }),
+        getCategories(organizationId),
+      ])
+
+      setCategories(organizationCategories)
+      setTransactions(response.items)
+      setDrafts(Object.fromEntries(response.items.map((item) => [item.id, toDraft(item)])))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load review queue'
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }, [organizationId])
+
+  useEffect(() => {
+    if (organizationId) {
+      loadQueue()
+    }
+  }, [organizationId, loadQueue])
+
+  const updateDraft = (id: string, fields: Partial<DraftFields>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...fields } }))
+  }
+
+  const handleResolve = async (transaction: Transaction) => {
+    setSavingId(transaction.id)
+    setError(null)
+
+    try {
+      const correction = toCorrection(transaction, drafts[transaction.id])
+
+      if (Object.keys(correction).length > 0) {
+        await correctTransaction(transaction.id, organizationId, correction)
+      } else {
+        await approveTransaction(transaction.id, organizationId)
+      }
+
+      // Resolved items leave the queue
+      setTransactions((prev) => prev.filter((item) => item.id !== transaction.id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save review'
+      setError(errorMessage)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <svg className="animate-spin h-8 w-8 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {transactions.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-sm font-medium text-gray-900">Nothing to review</h3>
+          <p className="mt-1 text-sm text-gray-500">Low-confidence extractions will appear here.</p>
+        </div>
+      ) : (
+        transactions.map((transaction) => {
+          const draft = drafts[transaction.id]
+          const uncertain = getUncertainFields(transaction)
+          const changed = Object.keys(toCorrection(transaction, draft)).length > 0
+
+          return (
+            <div key={transaction.id} className="p-4 bg-white border border-gray-200 rounded-lg space-y-3">
+              <div className="flex items-start justify-between">
+                <p className="text-xs text-gray-600 whitespace-pre-wrap flex-1">{transaction.text}</p>
+                <span className="ml-4 text-xs px-2 py-1 rounded-full border bg-amber-100 text-amber-800 border-amber-200">
+                  {Math.round(transaction.confidence * 100)}% confidence
+                </span>
+              </div>
+
+              {uncertain.length > 0 && (
+                <p className="text-xs text-amber-700">Check: {uncertain.join(', ')}</p>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs text-gray-600">
+                  Amount ({transaction.currency})
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={draft.amount}
+                    onChange={(e) => updateDraft(transaction.id, { amount: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Date
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => updateDraft(transaction.id, { date: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-600 col-span-2">
+                  Description
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(e) => updateDraft(transaction.id, { description: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Category
+                  <select
+                    value={draft.category}
+                    onChange={(e) => updateDraft(transaction.id, { category: e.target.value })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  >
+                    <option value="">Uncategorized</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.name}>{getCategoryLabel(category)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600">
+                  Direction
+                  <select
+                    value={draft.direction}
+                    onChange={(e) => updateDraft(transaction.id, { direction: e.target.value as TransactionDirection })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  >
+                    <option value="debit">Debit (money out)</option>
+                    <option value="credit">Credit (money in)</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">
+                  {transaction.amount !== null && `Extracted: ${formatAmount(transaction.amount, transaction.currency)}`}
+                </span>
+                <button
+                  onClick={() => handleResolve(transaction)}
+                  disabled={savingId === transaction.id}
+                  className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {savingId === transaction.id ? 'Saving...' : changed ? 'Save Correction' : 'Approve'}
+                </button>
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
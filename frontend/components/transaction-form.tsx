@@ -1,43 +1,220 @@
 'use client'
 
-import { useState } from 'react'
-import { extractTransaction } from '@/lib/transactions'
-import type { Transaction } from '@/types/transaction'
+import { useRef, useState } from 'react'
+import {
+  extractTransaction,
+  extractStatement,
+  importPdfStatement,
+  importCsvStatement,
+  previewCsvStatement,
+  formatAmount,
+} from '@/lib/transactions'
+import type {
+  Transaction,
+  ExtractTransactionResponse,
+  ExtractStatementResponse,
+  ImportCsvStatementResponse,
+  DateFormat,
+  CsvColumn,
+  CsvColumnMapping,
+  CsvPreview,
+} from '@/types/transaction'
+
+const CSV_COLUMN_LABELS: [CsvColumn, string][] = [
+  ['date', 'Date'],
+  ['narration', 'Narration'],
+  ['debit', 'Debit'],
+  ['credit', 'Credit'],
+  ['amount', 'Amount (signed)'],
+  ['balance', 'Balance'],
+  ['reference', 'Reference'],
+]
 
 interface TransactionFormProps {
   organizationId: string
-  onSuccess?: (transaction: Transaction) => void
+  onSuccess?: (transactions: Transaction[]) => void
 }
 
 export default function TransactionForm({ organizationId, onSuccess }: TransactionFormProps) {
   const [text, setText] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [result, setResult] = useState<Transaction | null>(null)
+  const [result, setResult] = useState<ExtractTransactionResponse | null>(null)
+  const [statementMode, setStatementMode] = useState(false)
+  const [batchResult, setBatchResult] = useState<ExtractStatementResponse | ImportCsvStatementResponse | null>(null)
+  const [dateFormat, setDateFormat] = useState<DateFormat | ''>('') // '' uses the organization's setting
+  const [periodFrom, setPeriodFrom] = useState('')
+  const [periodTo, setPeriodTo] = useState('')
+  const [pdfFile, setPdfFile] = useState<File | null>(null) // Uploaded instead of pasted text
+  const [pdfPassword, setPdfPassword] = useState('')
+  const pdfInputRef = useRef<HTMLInputElement>(null)
+  const [csvFile, setCsvFile] = useState<File | null>(null) // Bank CSV export, imported through a column mapping
+  const [csvBank, setCsvBank] = useState('')
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null)
+  const [csvMapping, setCsvMapping] = useState<Partial<CsvColumnMapping>>({})
+  const csvInputRef = useRef<HTMLInputElement>(null)
+
+  const hasUpload = statementMode && (pdfFile !== null || csvFile !== null)
+
+  const handleCsvFileChange = (file: File | null) => {
+    setCsvFile(file)
+    setCsvPreview(null)
+    setCsvMapping({})
+    // One upload at a time
+    if (file) {
+      setPdfFile(null)
+      setPdfPassword('')
+      if (pdfInputRef.current) pdfInputRef.current.value = ''
+    }
+  }
+
+  const handlePdfFileChange = (file: File | null) => {
+    setPdfFile(file)
+    if (file) handleCsvFileChange(null)
+    if (file && csvInputRef.current) csvInputRef.current.value = ''
+  }
+
+  // Show the file's columns with the bank's saved mapping, or one guessed from the headers
+  const handleCsvPreview = async () => {
+    if (!csvFile) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const preview = await previewCsvStatement({
+        file: csvFile,
+        organizationId,
+        ...(csvBank.trim() && { bank: csvBank.trim() }),
+      })
+      setCsvPreview(preview)
+      setCsvMapping(preview.mapping)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview CSV')
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!text.trim()) {
-      setError('Please enter bank statement text')
+    if (!text.trim() && !hasUpload) {
+      setError('Please enter bank statement text or choose a PDF or CSV statement')
       return
     }
 
+    if (statementMode && csvFile) {
+      if (!csvBank.trim()) {
+        setError('Please enter the bank the CSV export is from')
+        return
+      }
+      if (!csvPreview) {
+        setError('Please preview the CSV columns and check the mapping first')
+        return
+      }
+      if (!csvMapping.date || !csvMapping.narration) {
+        setError('Please map the date and narration columns')
+        return
+      }
+      if (!csvMapping.amount && !csvMapping.debit && !csvMapping.credit) {
+        setError('Please map an amount column, or debit and credit columns')
+        return
+      }
+    }
+
     setLoading(true)
     setError(null)
     setResult(null)
+    setBatchResult(null)
+
+    // Help the server read numeric dates such as 03/04/2025
+    const dateHints = {
+      ...(dateFormat && { dateFormat }),
+      ...(periodFrom && periodTo && { statementPeriod: { from: periodFrom, to: periodTo } }),
+    }
 
     try {
+      if (statementMode && pdfFile) {
+        const statement = await importPdfStatement({
+          file: pdfFile,
+          organizationId,
+          ...(pdfPassword && { password: pdfPassword }),
+          ...dateHints,
+        })
+
+        setBatchResult(statement)
+
+        if (statement.createdCount > 0) {
+          // Clear the upload once rows are saved
+          setPdfFile(null)
+          setPdfPassword('')
+          if (pdfInputRef.current) pdfInputRef.current.value = ''
+
+          if (onSuccess) {
+            onSuccess(statement.items)
+          }
+        }
+        return
+      }
+
+      if (statementMode && csvFile && csvMapping.date && csvMapping.narration) {
+        const statement = await importCsvStatement({
+          file: csvFile,
+          organizationId,
+          bank: csvBank.trim(),
+          mapping: {
+            ...csvMapping,
+            date: csvMapping.date,
+            narration: csvMapping.narration,
+            ...(dateFormat && { dateFormat }),
+          },
+        })
+
+        setBatchResult(statement)
+
+        if (statement.createdCount > 0) {
+          // Clear the upload once rows are saved
+          handleCsvFileChange(null)
+          if (csvInputRef.current) csvInputRef.current.value = ''
+
+          if (onSuccess) {
+            onSuccess(statement.items)
+          }
+        }
+        return
+      }
+
+      if (statementMode) {
+        const statement = await extractStatement({
+          text: text.trim(),
+          organizationId,
+          ...dateHints,
+        })
+
+        setBatchResult(statement)
+
+        if (statement.createdCount > 0) {
+          setText('') // Clear form once rows are saved
+
+          if (onSuccess) {
+            onSuccess(statement.items)
+          }
+        }
+        return
+      }
+
       const transaction = await extractTransaction({
         text: text.trim(),
         organizationId,
+        ...dateHints,
       })
       
       setResult(transaction)
       setText('') // Clear form on success
       
       if (onSuccess) {
-        onSuccess(transaction)
+        onSuccess([transaction])
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to extract transaction'
@@ -85,6 +262,165 @@ export default function TransactionForm({ organizationId, onSuccess }: Transacti
           <p className="mt-2 text-sm text-gray-500">
             Paste raw bank statement text. The system will extract amount, date, description, and category.
           </p>
+          <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              checked={statementMode}
+              onChange={(e) => setStatementMode(e.target.checked)}
+              disabled={loading}
+            />
+            <span>Full statement (extract one transaction per row)</span>
+          </label>
+          {statementMode && (
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <label className="flex items-center space-x-2">
+                <span>Or upload a PDF statement</span>
+                <input
+                  ref={pdfInputRef}
+                  type="file"
+                  accept="application/pdf,.pdf"
+                  className="text-sm text-gray-700 file:mr-2 file:px-3 file:py-1 file:border-0 file:rounded-md file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+                  onChange={(e) => handlePdfFileChange(e.target.files?.[0] ?? null)}
+                  disabled={loading}
+                />
+              </label>
+              {pdfFile && (
+                <label className="flex items-center space-x-2">
+                  <span>Password</span>
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                    placeholder="If the PDF is protected"
+                    value={pdfPassword}
+                    onChange={(e) => setPdfPassword(e.target.value)}
+                    disabled={loading}
+                  />
+                </label>
+              )}
+            </div>
+          )}
+          {statementMode && (
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <label className="flex items-center space-x-2">
+                <span>Or upload a CSV export</span>
+                <input
+                  ref={csvInputRef}
+                  type="file"
+                  accept="text/csv,.csv,.txt"
+                  className="text-sm text-gray-700 file:mr-2 file:px-3 file:py-1 file:border-0 file:rounded-md file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+                  onChange={(e) => handleCsvFileChange(e.target.files?.[0] ?? null)}
+                  disabled={loading}
+                />
+              </label>
+              {csvFile && (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <span>Bank</span>
+                    <input
+                      type="text"
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                      placeholder="e.g. HDFC"
+                      value={csvBank}
+                      onChange={(e) => setCsvBank(e.target.value)}
+                      disabled={loading}
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleCsvPreview}
+                    className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                    disabled={loading}
+                  >
+                    {csvPreview ? 'Preview again' : 'Preview columns'}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {statementMode && csvFile && csvPreview && (
+            <div className="mt-3 p-4 border border-gray-200 rounded-lg space-y-3">
+              <p className="text-sm text-gray-700">
+                {csvPreview.saved
+                  ? `Using the column mapping saved for ${csvBank.trim()}. Changes are saved for its next import if you are an admin.`
+                  : 'Match the columns of the file. The mapping is saved for this bank if you are an admin.'}
+              </p>
+              <div className="flex flex-wrap gap-3 text-sm text-gray-700">
+                {CSV_COLUMN_LABELS.map(([column, label]) => (
+                  <label key={column} className="flex items-center space-x-2">
+                    <span>{label}</span>
+                    <select
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                      value={csvMapping[column] ?? ''}
+                      onChange={(e) => setCsvMapping({ ...csvMapping, [column]: e.target.value || undefined })}
+                      disabled={loading}
+                    >
+                      <option value="">Not in file</option>
+                      {csvPreview.headers.filter(Boolean).map((header, idx) => (
+                        <option key={idx} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {csvPreview.sample.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-xs text-gray-700">
+                    <thead>
+                      <tr>
+                        {csvPreview.headers.map((header, idx) => (
+                          <th key={idx} className="px-2 py-1 text-left font-medium bg-gray-50">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {csvPreview.sample.map((cells, row) => (
+                        <tr key={row} className="border-t border-gray-100">
+                          {cells.map((cell, idx) => (
+                            <td key={idx} className="px-2 py-1 whitespace-nowrap">{cell}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <span>Dates</span>
+              <select
+                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat | '')}
+                disabled={loading}
+              >
+                <option value="">Organization default</option>
+                <option value="DMY">DD/MM/YYYY</option>
+                <option value="MDY">MM/DD/YYYY</option>
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Statement period</span>
+              <input
+                type="date"
+                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                value={periodFrom}
+                onChange={(e) => setPeriodFrom(e.target.value)}
+                disabled={loading}
+              />
+              <span>to</span>
+              <input
+                type="date"
+                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500"
+                value={periodTo}
+                onChange={(e) => setPeriodTo(e.target.value)}
+                disabled={loading}
+              />
+            </label>
+          </div>
         </div>
 
         {/* Example Buttons */}
@@ -124,7 +460,15 @@ export default function TransactionForm({ organizationId, onSuccess }: Transacti
                 </svg>
                 <div>
                   <h3 className="text-sm font-medium text-green-800">Transaction Extracted Successfully!</h3>
-                  <p className="text-sm text-green-700 mt-1">The transaction has been saved to your organization.</p>
+                  <p className="text-sm text-green-700 mt-1">
+                    The transaction has been saved to your organization.
+                    {result.cached && ' Reused a previous extraction of the same text.'}
+                  </p>
+                  {result.dateAmbiguous && (
+                    <p className="text-sm text-yellow-700 mt-1">
+                      The date could be read as day/month or month/day, so it was left empty for review.
+                    </p>
+                  )}
                 </div>
               </div>
               <span className={`text-xs font-semibold px-2 py-1 rounded-full ${getConfidenceColor(result.confidence)} bg-white`}>
@@ -136,7 +480,10 @@ export default function TransactionForm({ organizationId, onSuccess }: Transacti
               {result.amount !== null && (
                 <div>
                   <span className="text-xs text-green-700 font-medium">Amount</span>
-                  <p className="text-sm font-semibold text-green-900">₹{result.amount.toFixed(2)}</p>
+                  <p className="text-sm font-semibold text-green-900">
+                    {result.direction === 'credit' ? '+' : '-'}{formatAmount(result.amount, result.currency)}
+                    <span className="ml-1 text-xs font-medium text-green-700 capitalize">({result.direction})</span>
+                  </p>
                 </div>
               )}
               {result.date && (
@@ -163,9 +510,40 @@ export default function TransactionForm({ organizationId, onSuccess }: Transacti
           </div>
         )}
 
+        {batchResult && (
+          <div className={`p-6 border rounded-lg ${batchResult.failedCount > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+            <h3 className="text-sm font-medium text-gray-900">
+              Saved {batchResult.createdCount} of {batchResult.total} rows
+            </h3>
+            {'aiCategorizedCount' in batchResult && batchResult.aiCategorizedCount > 0 && (
+              <p className="text-sm text-gray-600 mt-1">
+                {batchResult.aiCategorizedCount} row{batchResult.aiCategorizedCount === 1 ? ' was' : 's were'} categorized by AI
+              </p>
+            )}
+            {batchResult.failures.length > 0 && (
+              <div className="mt-3">
+                <p className="text-sm text-yellow-800">
+                  {batchResult.failedCount} row{batchResult.failedCount === 1 ? '' : 's'} could not be extracted:
+                </p>
+                <ul className="mt-2 space-y-2">
+                  {batchResult.failures.map((failure) => (
+                    <li key={failure.row} className="text-xs p-2 bg-white rounded border border-yellow-200">
+                      <p className="font-medium text-yellow-900">
+                        {/* CSV rows are numbered by their line in the file */}
+                        {'aiCategorizedCount' in batchResult ? `Line ${failure.row}` : `Row ${failure.row + 1}`}: {failure.error}
+                      </p>
+                      <p className="text-gray-600 mt-1 whitespace-pre-wrap">{failure.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
         <button
           type="submit"
-          disabled={loading || !text.trim()}
+          disabled={loading || (!text.trim() && !hasUpload)}
           className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-lg text-sm font-semibold text-white bg-linear-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
         >
           {loading ? (
@@ -181,7 +559,7 @@ export default function TransactionForm({ organizationId, onSuccess }: Transacti
               <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
               </svg>
-              Extract Transaction
+              {statementMode && csvFile ? 'Import CSV' : statementMode ? 'Extract Statement' : 'Extract Transaction'}
             </>
           )}
         </button>
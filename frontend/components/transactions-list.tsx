@@ -1,8 +1,16 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { getTransactions } from '@/lib/transactions'
+import {
+  getTransactions,
+  formatAmount,
+  getUncertainFields,
+  describeFieldConfidence,
+  getReferenceLabels,
+} from '@/lib/transactions'
+import { getCategories, getCategoryStyle } from '@/lib/categories'
 import type { Transaction } from '@/types/transaction'
+import type { Category } from '@/types/category'
 
 interface TransactionsListProps {
   organizationId: string
@@ -16,6 +24,7 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
   const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [hasMore, setHasMore] = useState(false)
   const [loadingMore, setLoadingMore] = useState(false)
+  const [categories, setCategories] = useState<Category[]>([])
 
   const loadTransactions = async (cursor?: string, append = false) => {
     try {
@@ -55,6 +64,13 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
     }
   }, [organizationId, refreshTrigger])
 
+  // Badge colors come from the organization's categories; fall back to gray if they fail to load
+  useEffect(() => {
+    if (organizationId) {
+      getCategories(organizationId).then(setCategories).catch(() => setCategories([]))
+    }
+  }, [organizationId])
+
   const handleLoadMore = () => {
     if (nextCursor && !loadingMore) {
       loadTransactions(nextCursor, true)
@@ -67,19 +83,6 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
     return 'bg-red-100 text-red-800 border-red-200'
   }
 
-  const getCategoryColor = (category: string | null) => {
-    const colors: Record<string, string> = {
-      'Food & Dining': 'bg-orange-100 text-orange-800 border-orange-200',
-      'Shopping': 'bg-blue-100 text-blue-800 border-blue-200',
-      'Transportation': 'bg-purple-100 text-purple-800 border-purple-200',
-      'Entertainment': 'bg-pink-100 text-pink-800 border-pink-200',
-      'Utilities': 'bg-gray-100 text-gray-800 border-gray-200',
-      'Healthcare': 'bg-red-100 text-red-800 border-red-200',
-      'Transfer': 'bg-indigo-100 text-indigo-800 border-indigo-200',
-    }
-    return category && colors[category] ? colors[category] : 'bg-gray-100 text-gray-800 border-gray-200'
-  }
-
   if (loading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -152,13 +155,25 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
               <div className="flex-1">
                 <div className="flex items-center space-x-2 mb-2">
                   {transaction.category && (
-                    <span className={`text-xs px-2 py-1 rounded-full border ${getCategoryColor(transaction.category)}`}>
+                    <span
+                      className="text-xs px-2 py-1 rounded-full border"
+                      style={getCategoryStyle(categories, transaction.category)}
+                    >
                       {transaction.category}
                     </span>
                   )}
-                  <span className={`text-xs px-2 py-1 rounded-full border ${getConfidenceColor(transaction.confidence)}`}>
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full border ${getConfidenceColor(transaction.confidence)}`}
+                    title={describeFieldConfidence(transaction) ?? undefined}
+                  >
                     {Math.round(transaction.confidence * 100)}% confidence
+                    {getUncertainFields(transaction).length > 0 && ` · check ${getUncertainFields(transaction).join(', ')}`}
                   </span>
+                  {transaction.status === 'needs_review' && (
+                    <span className="text-xs px-2 py-1 rounded-full border bg-amber-100 text-amber-800 border-amber-200">
+                      Needs review
+                    </span>
+                  )}
                 </div>
                 
                 {transaction.description && (
@@ -184,6 +199,16 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
                   </span>
                 </div>
 
+                {getReferenceLabels(transaction).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {getReferenceLabels(transaction).map((label) => (
+                      <span key={label} className="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
                 {transaction.text && (
                   <details className="mt-2">
                     <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-700">
@@ -198,9 +223,13 @@ export default function TransactionsList({ organizationId, refreshTrigger = 0 }:
 
               {transaction.amount !== null && (
                 <div className="ml-4 text-right">
-                  <div className="text-lg font-bold text-gray-900">
-                    ₹{transaction.amount.toFixed(2)}
+                  <div className={`text-lg font-bold ${transaction.direction === 'credit' ? 'text-green-700' : 'text-gray-900'}`}>
+                    {transaction.direction === 'credit' ? '+' : '-'}{formatAmount(transaction.amount, transaction.currency)}
                   </div>
+                  {transaction.fxRate !== null && transaction.fxRate !== 1 && transaction.baseAmount !== null && (
+                    <div className="text-xs text-gray-500">≈ {formatAmount(transaction.baseAmount)}</div>
+                  )}
+                  <div className="text-xs text-gray-500 capitalize">{transaction.direction}</div>
                 </div>
               )}
             </div>
@@ -0,0 +1,41 @@
+import type { CSSProperties } from 'react'
+import type { Category } from '@/types/category'
+
+const API_BASE = '/api/proxy'
+
+/**
+ * Get the organization's category taxonomy (parents before their subcategories)
+ */
+export async function getCategories(organizationId: string): Promise<Category[]> {
+  const response = await fetch(`${API_BASE}/organizations/${organizationId}/categories`, {
+    method: 'GET',
+    credentials: 'include',
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch categories' }))
+    throw new Error(error.error || 'Failed to fetch categories')
+  }
+
+  return response.json()
+}
+
+/**
+ * Badge colors for a category: its color as text over a light tint of it
+ * Unknown categories (e.g. deleted ones still on old transactions) are gray
+ */
+export function getCategoryStyle(categories: Category[], name: string | null): CSSProperties {
+  const color = categories.find((category) => category.name === name)?.color || '#6b7280'
+  return {
+    color,
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}4d`,
+  }
+}
+
+/**
+ * Label for a category picker, e.g. "Food & Dining › Coffee"
+ */
+export function getCategoryLabel(category: Category): string {
+  return category.parent ? `${category.parent.name} › ${category.name}` : category.name
+}
@@ -3,12 +3,99 @@ import type {
   TransactionListResponse,
   ExtractTransactionRequest,
   ExtractTransactionResponse,
+  ExtractStatementRequest,
+  ExtractStatementResponse,
+  ImportPdfStatementRequest,
+  ImportCsvStatementRequest,
+  ImportCsvStatementResponse,
+  CsvPreview,
+  TransactionCorrection,
+  ExtractionJob,
 } from '@/types/transaction'
 
 const API_BASE = '/api/proxy'
 
+/**
+ * Format an amount in its own currency (₹1,500.00, $45.00)
+ */
+export function formatAmount(amount: number, currency: string = 'INR'): string {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount)
+}
+
+/**
+ * Get an extraction job's status (and result once completed)
+ */
+export async function getExtractionJob<T>(id: string, organizationId: string): Promise<ExtractionJob<T>> {
+  const searchParams = new URLSearchParams({ organizationId })
+
+  const response = await fetch(`${API_BASE}/transactions/jobs/${id}?${searchParams}`, {
+    method: 'GET',
+    credentials: 'include',
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch extraction job' }))
+    throw new Error(error.error || 'Failed to fetch extraction job')
+  }
+
+  return response.json()
+}
+
+const JOB_POLL_INTERVAL_MS = 1000
+
+/**
+ * Wait for an extraction job to finish and return its result
+ * Follows the job's event stream, falling back to polling if the stream drops
+ */
+export function waitForExtractionJob<T>(job: ExtractionJob<T>, organizationId: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const settle = (current: ExtractionJob<T>) => {
+      if (current.status === 'completed' && current.result) {
+        resolve(current.result)
+        return true
+      }
+      if (current.status === 'failed') {
+        reject(new Error(current.error || 'Extraction failed'))
+        return true
+      }
+      return false
+    }
+
+    const poll = async () => {
+      try {
+        const current = await getExtractionJob<T>(job.id, organizationId)
+        if (!settle(current)) {
+          setTimeout(poll, JOB_POLL_INTERVAL_MS)
+        }
+      } catch (err) {
+        reject(err)
+      }
+    }
+
+    if (settle(job)) return
+
+    const searchParams = new URLSearchParams({ organizationId })
+    const events = new EventSource(`${API_BASE}/transactions/jobs/${job.id}/events?${searchParams}`, {
+      withCredentials: true,
+    })
+
+    events.addEventListener('job', (event) => {
+      if (settle(JSON.parse((event as MessageEvent).data))) {
+        events.close()
+      }
+    })
+
+    // The stream closes once the job finishes; any other drop switches to polling
+    events.onerror = () => {
+      events.close()
+      poll()
+    }
+  })
+}
+
 /**
  * Extract and save a transaction from raw bank statement text
+ * Extraction runs as a background job; this resolves once it finishes
  */
 export async function extractTransaction(
   data: ExtractTransactionRequest
@@ -27,9 +114,122 @@ export async function extractTransaction(
     throw new Error(error.error || 'Failed to extract transaction')
   }
 
+  const job: ExtractionJob<ExtractTransactionResponse> = await response.json()
+  return waitForExtractionJob(job, data.organizationId)
+}
+
+/**
+ * Extract and save every transaction row from a pasted statement
+ * Rows that fail are returned in `failures`; the rest are saved together.
+ * Extraction runs as a background job; this resolves once it finishes
+ */
+export async function extractStatement(
+  data: ExtractStatementRequest
+): Promise<ExtractStatementResponse> {
+  const response = await fetch(`${API_BASE}/transactions/extract/batch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(data),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to extract statement' }))
+    throw new Error(error.error || 'Failed to extract statement')
+  }
+
+  const job: ExtractionJob<ExtractStatementResponse> = await response.json()
+  return waitForExtractionJob(job, data.organizationId)
+}
+
+/**
+ * Extract and save the transaction rows of a PDF statement
+ * The server reads the PDF's text (decrypting it with the password if given) and
+ * extracts its table rows like a pasted statement; resolves once the job finishes
+ */
+export async function importPdfStatement(
+  data: ImportPdfStatementRequest
+): Promise<ExtractStatementResponse> {
+  const form = new FormData()
+  form.append('file', data.file)
+  form.append('organizationId', data.organizationId)
+  if (data.password) form.append('password', data.password)
+  if (data.dateFormat) form.append('dateFormat', data.dateFormat)
+  if (data.statementPeriod) form.append('statementPeriod', JSON.stringify(data.statementPeriod))
+
+  const response = await fetch(`${API_BASE}/transactions/import/pdf`, {
+    method: 'POST',
+    credentials: 'include',
+    body: form,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import PDF statement' }))
+    throw new Error(error.error || 'Failed to import PDF statement')
+  }
+
+  const job: ExtractionJob<ExtractStatementResponse> = await response.json()
+  return waitForExtractionJob(job, data.organizationId)
+}
+
+/**
+ * Read a CSV export's headers and first rows, with a column mapping to start from:
+ * the one saved for the bank, else one guessed from the header names
+ */
+export async function previewCsvStatement(data: {
+  file: File
+  organizationId: string
+  bank?: string
+}): Promise<CsvPreview> {
+  const form = new FormData()
+  form.append('file', data.file)
+  form.append('organizationId', data.organizationId)
+  if (data.bank) form.append('bank', data.bank)
+
+  const response = await fetch(`${API_BASE}/transactions/import/csv/preview`, {
+    method: 'POST',
+    credentials: 'include',
+    body: form,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to preview CSV' }))
+    throw new Error(error.error || 'Failed to preview CSV')
+  }
+
   return response.json()
 }
 
+/**
+ * Import the rows of a bank's CSV export through a column mapping
+ * A mapping sent by an admin or owner is saved for the bank; resolves once the job finishes
+ */
+export async function importCsvStatement(
+  data: ImportCsvStatementRequest
+): Promise<ImportCsvStatementResponse> {
+  const form = new FormData()
+  form.append('file', data.file)
+  form.append('organizationId', data.organizationId)
+  form.append('bank', data.bank)
+  if (data.mapping) form.append('mapping', JSON.stringify(data.mapping))
+
+  const response = await fetch(`${API_BASE}/transactions/import/csv`, {
+    method: 'POST',
+    credentials: 'include',
+    body: form,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import CSV' }))
+    throw new Error(error.error || 'Failed to import CSV')
+  }
+
+  const job: ExtractionJob<ImportCsvStatementResponse> = await response.json()
+  return waitForExtractionJob(job, data.organizationId)
+}
+
 /**
  * Get transactions for an organization with pagination
  */
@@ -37,11 +237,13 @@ export async function getTransactions(params: {
   organizationId: string
   limit?: number
   cursor?: string
+  reference?: string // UTR, UPI ID, cheque number, VPA or last digits of an account
 }): Promise<TransactionListResponse> {
   const searchParams = new URLSearchParams({
     organizationId: params.organizationId,
     ...(params.limit && { limit: params.limit.toString() }),
     ...(params.cursor && { cursor: params.cursor }),
+    ...(params.reference && { reference: params.reference }),
   })
 
   const response = await fetch(`${API_BASE}/transactions?${searchParams}`, {
@@ -58,7 +260,7 @@ export async function getTransactions(params: {
 }
 
 /**
- * Get a single transaction by ID
+ * Get a single transaction by ID, including extraction provenance
  */
 export async function getTransactionById(
   id: string,
@@ -78,3 +280,128 @@ export async function getTransactionById(
 
   return response.json()
 }
+
+/**
+ * Get the organization's review queue (low-confidence transactions)
+ */
+export async function getReviewQueue(params: {
+  organizationId: string
+  limit?: number
+  cursor?: string
+}): Promise<TransactionListResponse> {
+  const searchParams = new URLSearchParams({
+    organizationId: params.organizationId,
+    ...(params.limit && { limit: params.limit.toString() }),
+    ...(params.cursor && { cursor: params.cursor }),
+  })
+
+  const response = await fetch(`${API_BASE}/transactions/review?${searchParams}`, {
+    method: 'GET',
+    credentials: 'include',
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch review queue' }))
+    throw new Error(error.error || 'Failed to fetch review queue')
+  }
+
+  return response.json()
+}
+
+/**
+ * Approve a transaction in the review queue as extracted
+ */
+export async function approveTransaction(
+  id: string,
+  organizationId: string
+): Promise<Transaction> {
+  const response = await fetch(`${API_BASE}/transactions/${id}/approve`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ organizationId }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to approve transaction' }))
+    throw new Error(error.error || 'Failed to approve transaction')
+  }
+
+  return response.json()
+}
+
+/**
+ * Correct fields of a transaction in the review queue and mark it final
+ */
+export async function correctTransaction(
+  id: string,
+  organizationId: string,
+  corrections: TransactionCorrection
+): Promise<Transaction> {
+  const response = await fetch(`${API_BASE}/transactions/${id}/correct`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ organizationId, ...corrections }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to correct transaction' }))
+    throw new Error(error.error || 'Failed to correct transaction')
+  }
+
+  return response.json()
+}
+
+const CONFIDENCE_FIELDS = [
+  ['amount', 'amountConfidence'],
+  ['date', 'dateConfidence'],
+  ['description', 'descriptionConfidence'],
+  ['category', 'categoryConfidence'],
+] as const
+
+/**
+ * Names of the fields whose extraction confidence is below the threshold
+ */
+export function getUncertainFields(transaction: Transaction, threshold = 0.5): string[] {
+  return CONFIDENCE_FIELDS
+    .filter(([, key]) => {
+      const score = transaction[key]
+      return score !== null && score < threshold
+    })
+    .map(([field]) => field)
+}
+
+/**
+ * Per-field confidence summary, e.g. "amount 100%, date 40%"
+ */
+export function describeFieldConfidence(transaction: Transaction): string | null {
+  const parts = CONFIDENCE_FIELDS.flatMap(([field, key]) => {
+    const score = transaction[key]
+    return score === null ? [] : [`${field} ${Math.round(score * 100)}%`]
+  })
+
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+const REFERENCE_LABELS = [
+  ['UTR', 'utr'],
+  ['UPI', 'upiRef'],
+  ['VPA', 'vpa'],
+  ['Chq', 'chequeNumber'],
+  ['A/c', 'maskedAccount'],
+] as const
+
+/**
+ * Payment references present on a transaction, e.g. ["UTR SBIN425345678901", "A/c XX1234"]
+ */
+export function getReferenceLabels(transaction: Transaction): string[] {
+  return REFERENCE_LABELS.flatMap(([label, key]) => {
+    const value = transaction[key]
+    return value ? [`${label} ${value}`] : []
+  })
+}
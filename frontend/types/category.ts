@@ -0,0 +1,12 @@
+export interface Category {
+  id: string
+  organizationId: string
+  name: string
+  parentId: string | null
+  parent: { name: string } | null
+  color: string // Hex color, e.g. "#ea580c"
+  keywords: string[]
+  description: string | null
+  createdAt: string
+  updatedAt: string
+}
@@ -1,3 +1,7 @@
+export type TransactionDirection = 'debit' | 'credit'
+
+export type TransactionStatus = 'final' | 'needs_review'
+
 export interface Transaction {
   id: string
   text: string
@@ -5,11 +9,41 @@ export interface Transaction {
   date: string | null
   description: string | null
   category: string | null
-  confidence: number
+  direction: TransactionDirection
+  currency: string
+  baseAmount: number | null
+  fxRate: number | null
+  confidence: number // Weighted from the per-field scores
+  amountConfidence: number | null // Per-field scores, null for older transactions
+  dateConfidence: number | null
+  descriptionConfidence: number | null
+  categoryConfidence: number | null
+  status: TransactionStatus // Low-confidence extractions wait in the review queue
+  reviewedAt: string | null
+  reviewedBy: string | null
+  merchantId: string | null // Canonical merchant linked from the description
+  upiRef: string | null // Payment references parsed from the statement line
+  vpa: string | null
+  utr: string | null
+  chequeNumber: string | null
+  maskedAccount: string | null
   organizationId: string
   userId: string
   createdAt: string
   updatedAt: string
+  provenance?: TransactionProvenance | null // Only returned for a single transaction
+  merchant?: { id: string; name: string } | null // Only returned for a single transaction
+}
+
+export interface TransactionProvenance {
+  extractor: string
+  modelId: string | null
+  promptVersion: string | null
+  reasoning: string | null
+  latencyMs: number | null
+  rawOutput: string | null
+  cached: boolean
+  createdAt: string
 }
 
 export interface TransactionListResponse {
@@ -19,9 +53,121 @@ export interface TransactionListResponse {
   count: number
 }
 
+/**
+ * Order of day and month in numeric dates (11/12/2025)
+ */
+export type DateFormat = 'DMY' | 'MDY'
+
+/**
+ * Dates a pasted statement covers (YYYY-MM-DD), used to tell DD/MM from MM/DD
+ */
+export interface StatementPeriod {
+  from: string
+  to: string
+}
+
 export interface ExtractTransactionRequest {
   text: string
   organizationId: string
+  dateFormat?: DateFormat // Overrides the organization's date format
+  statementPeriod?: StatementPeriod
+}
+
+export interface ExtractTransactionResponse extends Transaction {
+  cached: boolean // Served from the extraction cache
+  dateAmbiguous: boolean // Date could be DD/MM or MM/DD and was left for review
+}
+
+export type ExtractionJobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+/**
+ * Background extraction started by /extract, /extract/batch or a PDF or CSV import
+ */
+export interface ExtractionJob<T> {
+  id: string
+  organizationId: string
+  kind: 'transaction' | 'statement' | 'csv'
+  status: ExtractionJobStatus
+  attempts: number
+  maxAttempts: number
+  error: string | null // Last failure
+  result: T | null // Set once completed
+  runAt: string
+  completedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ExtractStatementRequest {
+  text: string
+  organizationId: string
+  dateFormat?: DateFormat // Overrides the organization's date format
+  statementPeriod?: StatementPeriod
+}
+
+export interface ImportPdfStatementRequest {
+  file: File
+  organizationId: string
+  password?: string // For password-protected statements
+  dateFormat?: DateFormat
+  statementPeriod?: StatementPeriod
+}
+
+export interface StatementRowFailure {
+  row: number
+  text: string
+  error: string
+}
+
+export interface ExtractStatementResponse {
+  items: (Transaction & { row: number })[]
+  failures: StatementRowFailure[]
+  total: number
+  createdCount: number
+  failedCount: number
+}
+
+export type CsvColumn = 'date' | 'narration' | 'debit' | 'credit' | 'amount' | 'balance' | 'reference'
+
+/**
+ * Which header of a bank's CSV export holds each field
+ * Needs date, narration and either amount (signed) or debit and credit
+ */
+export interface CsvColumnMapping {
+  date: string
+  narration: string
+  debit?: string
+  credit?: string
+  amount?: string
+  balance?: string
+  reference?: string
+  dateFormat?: DateFormat | null
+}
+
+export interface CsvPreview {
+  headers: string[]
+  headerLine: number | null // Line of the header row in the file, counting from 1
+  sample: string[][] // First rows below the header
+  mapping: Partial<CsvColumnMapping> // Saved for the bank, else guessed from the headers
+  saved: boolean // The mapping is the one saved for the bank
+}
+
+export interface ImportCsvStatementRequest {
+  file: File
+  organizationId: string
+  bank: string // Name the column mapping is saved under, e.g. "HDFC"
+  mapping?: CsvColumnMapping // Optional when one is saved for the bank
 }
 
-export interface ExtractTransactionResponse extends Transaction {}
+export interface ImportCsvStatementResponse extends ExtractStatementResponse {
+  aiCategorizedCount: number // Rows no rule matched, categorized by an AI provider
+}
+
+export interface TransactionCorrection {
+  amount?: number | null
+  date?: string | null // YYYY-MM-DD
+  description?: string | null
+  category?: string | null
+  direction?: TransactionDirection
+  currency?: string
+}